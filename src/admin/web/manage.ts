@@ -6,6 +6,7 @@ import { HttpError } from "../../shared/errors";
 import * as userStore from "../../shared/users/user-store";
 import { parseSort, sortBy, paginate } from "../../shared/utils";
 import { keyPool } from "../../shared/key-management";
+import { getModelRoutes } from "../../shared/model-routing";
 import { MODEL_FAMILIES } from "../../shared/models";
 import { getTokenCostUsd, prettyTokens } from "../../shared/stats";
 import {
@@ -198,11 +199,13 @@ router.post("/maintenance", (req, res) => {
     case "recheck": {
       keyPool.recheck("openai");
       keyPool.recheck("anthropic");
+      keyPool.recheck("google-ai");
+      keyPool.recheck("azure");
       const size = keyPool
         .list()
         .filter((k) => k.service !== "google-palm").length;
       flash.type = "success";
-      flash.message = `Scheduled recheck of ${size} keys for OpenAI and Anthropic.`;
+      flash.message = `Scheduled recheck of ${size} keys for OpenAI, Anthropic, Google AI and Azure.`;
       break;
     }
     case "resetQuotas": {
@@ -234,6 +237,10 @@ router.get("/download-stats", (_req, res) => {
   return res.render("admin_download-stats");
 });
 
+router.get("/model-routes", (_req, res) => {
+  return res.render("admin_model-routes", { routes: getModelRoutes() });
+});
+
 router.post("/generate-stats", (req, res) => {
   const body = req.body;
 
@@ -1,12 +1,16 @@
 import dotenv from "dotenv";
 import type firebase from "firebase-admin";
 import pino from "pino";
+import type { ModelRoute } from "./shared/model-routing";
 import type { ModelFamily } from "./shared/models";
+import type { User } from "./shared/users/schema";
 dotenv.config();
 
 const startupLogger = pino({ level: "debug" }).child({ module: "startup" });
 const isDev = process.env.NODE_ENV !== "production";
 
+type QueueScheduler = "fifo" | "fair";
+
 type Config = {
   /** The port the proxy server will listen on. */
   port: number;
@@ -16,6 +20,8 @@ type Config = {
   anthropicKey?: string;
   /** Comma-delimited list of Google PaLM API keys. */
   googlePalmKey?: string;
+  /** Comma-delimited list of Google AI (Gemini) API keys. */
+  googleAIKey?: string;
   /**
    * Comma-delimited list of AWS credentials. Each credential item should be a
    * colon-delimited list of access key, secret key, and AWS region.
@@ -28,6 +34,36 @@ type Config = {
    * @example `AWS_CREDENTIALS=access_key_1:secret_key_1:us-east-1,access_key_2:secret_key_2:us-west-2`
    */
   awsCredentials?: string;
+  /**
+   * Comma-delimited list of Azure OpenAI credentials. Each credential item
+   * should be a colon-delimited list of the Azure OpenAI resource name, the
+   * deployment ID, and the API key for the resource.
+   *
+   * Each deployment serves a single model, so you must provide a credential
+   * for every deployment you want to use, even if they share a resource.
+   *
+   * @example `AZURE_CREDENTIALS=my-resource:gpt-4-deployment:api_key,my-resource:turbo-deployment:api_key`
+   */
+  azureCredentials?: string;
+  /**
+   * Base URL of an OpenAI-compatible chat completions API, such as a vLLM or
+   * llama.cpp server, or a third-party gateway. Requests are sent to
+   * `${openaiCompatibleUrl}/chat/completions`.
+   *
+   * @example `OPENAI_COMPATIBLE_URL=http://localhost:8000/v1`
+   */
+  openaiCompatibleUrl?: string;
+  /**
+   * Comma-delimited list of API keys for the OpenAI-compatible backend. Leave
+   * unset if the backend does not require authentication.
+   */
+  openaiCompatibleKey?: string;
+  /**
+   * Comma-delimited list of models served by the OpenAI-compatible backend.
+   * Requests for other models are rejected. The first model is used if a
+   * request doesn't specify one.
+   */
+  openaiCompatibleModels: string[];
   /**
    * The proxy key to require for requests. Only applicable if the user
    * management mode is set to 'proxy_key', and required if so.
@@ -70,6 +106,13 @@ type Config = {
    * - Defaults to 0, which means that users are not IP-limited.
    */
   maxIpsPerUser: number;
+  /**
+   * Maximum number of requests a user can have queued or in progress at once,
+   * by user type. Can be overridden per user via `maxConcurrentRequests`.
+   * - Defaults to 0, which means that in-progress requests aren't limited and
+   *   users can only have one request waiting in the queue at a time.
+   */
+  maxConcurrentRequests: { [key in User["type"]]: number };
   /** Per-IP limit for requests per minute to OpenAI's completions endpoint. */
   modelRateLimit: number;
   /**
@@ -90,10 +133,25 @@ type Config = {
   maxOutputTokensOpenAI: number;
   /** For Anthropic, the maximum number of sampled tokens a user can request. */
   maxOutputTokensAnthropic: number;
+  /** For Google AI, the maximum number of sampled tokens a user can request. */
+  maxOutputTokensGoogleAI: number;
+  /**
+   * The maximum number of completions (`n`) a user can request at once. For
+   * APIs which only return a single completion, the request is sent upstream
+   * once per completion. Each completion counts against the user's quota.
+   */
+  maxCompletionChoices: number;
   /** Whether requests containing disallowed characters should be rejected. */
   rejectDisallowed?: boolean;
   /** Message to return when rejecting requests. */
   rejectMessage?: string;
+  /**
+   * What to do with images in requests routed to a backend which doesn't
+   * support them, e.g. a GPT-4 Vision style request sent to PaLM.
+   * - When false (default), the request is rejected with an error.
+   * - When true, the images are removed and only the text is sent.
+   */
+  dropUnsupportedImages: boolean;
   /** Verbosity level of diagnostic logging. */
   logLevel: "trace" | "debug" | "info" | "warn" | "error";
   /**
@@ -133,6 +191,100 @@ type Config = {
   blockRedirect?: string;
   /** Which model families to allow requests for. Applies only to OpenAI. */
   allowedModelFamilies: ModelFamily[];
+  /**
+   * Rules for replacing the model requested by the client, as a JSON array.
+   * Checked in order before the proxy's built-in rules; the first match wins.
+   * Rules with `toService` send requests on to another service. For example,
+   * to send GPT-4 prompts over 8k tokens to Claude 2 on Anthropic:
+   * `[{"service":"openai","from":"gpt-4","minContextTokens":8000,"toService":"anthropic","to":"claude-2"}]`
+   *
+   * See `ModelRoute` in `src/shared/model-routing.ts` for all conditions.
+   */
+  modelRoutes: ModelRoute[];
+  /**
+   * Comma-separated chains of model families to fail over to when a family
+   * has no keys available, e.g. `gpt4>claude>aws-claude,turbo>claude`. Queued
+   * requests are rerouted to the next family in the chain which has keys.
+   */
+  failoverChains: string[];
+  /**
+   * Whether to cache responses to deterministic requests (those with a
+   * temperature of 0). Identical requests are answered from the cache without
+   * waiting in the queue or using a key.
+   */
+  responseCache: boolean;
+  /**
+   * Whether cached responses are shared between all users and IPs. By default
+   * each user or IP can only be served responses to its own requests.
+   */
+  responseCacheShared: boolean;
+  /** Which response cache backend to use. */
+  responseCacheBackend: "memory";
+  /** How long cached responses are kept, in seconds. */
+  responseCacheTtl: number;
+  /**
+   * Maximum number of responses to keep in the cache. Least recently used
+   * responses are evicted first.
+   */
+  responseCacheMaxSize: number;
+  /**
+   * Whether to coalesce identical requests from the same user or IP. A
+   * duplicate of a request which is still queued or in flight receives the
+   * same response instead of being rejected or sent upstream again.
+   */
+  coalesceRequests: boolean;
+  /**
+   * Whether to drop the oldest messages from OpenAI chat requests which exceed
+   * the model's context size, rather than rejecting them. Clients can override
+   * this per request by sending an `X-Proxy-Trim-Context: true|false` header.
+   */
+  contextTrimming: boolean;
+  /** How long async jobs' results are kept after they finish, in seconds. */
+  asyncJobTtl: number;
+  /**
+   * How long requests sent with `X-Proxy-Async: true` may wait in the queue, in
+   * seconds, rather than the usual five minutes.
+   */
+  asyncJobQueueTimeout: number;
+  /** How long the results of batches are kept after they finish, in seconds. */
+  batchTtl: number;
+  /** Maximum number of requests which can be submitted in a single batch. */
+  maxBatchSize: number;
+  /**
+   * Maximum number of unfinished batches each user (or IP address, for clients
+   * without a user token) may have. Batch requests are exempt from the usual
+   * per-user concurrency and rate limits, as each batch only sends one request
+   * at a time.
+   */
+  maxActiveBatches: number;
+  /**
+   * How long a request waits in the queue before it is treated as one priority
+   * class higher, in seconds, so that lower classes can't be starved. Set to 0
+   * to disable. Batch requests never move up.
+   */
+  queueAgingInterval: number;
+  /**
+   * How requests of the same priority class are ordered in each partition's
+   * queue, unless overridden for the partition in `queueSchedulers`.
+   * - `fifo`: Oldest request first.
+   * - `fair`: Requests from users who have consumed the fewest tokens from the
+   *   partition in the last `fairQueueWindow` seconds go first, so that heavy
+   *   users can't crowd out everyone else.
+   */
+  queueScheduler: QueueScheduler;
+  /** Per-partition overrides for `queueScheduler`, by model family. */
+  queueSchedulers: { [key in ModelFamily]?: QueueScheduler };
+  /** How far back the `fair` scheduler looks at token usage, in seconds. */
+  fairQueueWindow: number;
+  /**
+   * How long in-progress requests are given to finish when the server is asked
+   * to shut down, in seconds. This includes requests made by async jobs,
+   * batches and WebSocket connections, though jobs and batches themselves are
+   * only kept in memory and are lost on restart. Prompt logs are then flushed
+   * for up to five more seconds, so this should be shorter than the time your
+   * host waits before killing the process by at least that much.
+   */
+  shutdownGracePeriod: number;
   /**
    * The number of (LLM) tokens a user can consume before requests are rejected.
    * Limits include both prompt and response tokens. `special` users are exempt.
@@ -161,12 +313,22 @@ export const config: Config = {
   openaiKey: getEnvWithDefault("OPENAI_KEY", ""),
   anthropicKey: getEnvWithDefault("ANTHROPIC_KEY", ""),
   googlePalmKey: getEnvWithDefault("GOOGLE_PALM_KEY", ""),
+  googleAIKey: getEnvWithDefault("GOOGLE_AI_KEY", ""),
   awsCredentials: getEnvWithDefault("AWS_CREDENTIALS", ""),
+  azureCredentials: getEnvWithDefault("AZURE_CREDENTIALS", ""),
+  openaiCompatibleUrl: getEnvWithDefault("OPENAI_COMPATIBLE_URL", ""),
+  openaiCompatibleKey: getEnvWithDefault("OPENAI_COMPATIBLE_KEY", ""),
+  openaiCompatibleModels: getEnvWithDefault("OPENAI_COMPATIBLE_MODELS", []),
   proxyKey: getEnvWithDefault("PROXY_KEY", ""),
   adminKey: getEnvWithDefault("ADMIN_KEY", ""),
   gatekeeper: getEnvWithDefault("GATEKEEPER", "none"),
   gatekeeperStore: getEnvWithDefault("GATEKEEPER_STORE", "memory"),
   maxIpsPerUser: getEnvWithDefault("MAX_IPS_PER_USER", 0),
+  maxConcurrentRequests: {
+    normal: getEnvWithDefault("MAX_CONCURRENT_REQUESTS_NORMAL", 0),
+    special: getEnvWithDefault("MAX_CONCURRENT_REQUESTS_SPECIAL", 0),
+    temporary: getEnvWithDefault("MAX_CONCURRENT_REQUESTS_TEMPORARY", 0),
+  },
   firebaseRtdbUrl: getEnvWithDefault("FIREBASE_RTDB_URL", undefined),
   firebaseKey: getEnvWithDefault("FIREBASE_KEY", undefined),
   modelRateLimit: getEnvWithDefault("MODEL_RATE_LIMIT", 4),
@@ -183,19 +345,52 @@ export const config: Config = {
     ["MAX_OUTPUT_TOKENS_ANTHROPIC", "MAX_OUTPUT_TOKENS"],
     400
   ),
+  maxOutputTokensGoogleAI: getEnvWithDefault(
+    ["MAX_OUTPUT_TOKENS_GOOGLE_AI", "MAX_OUTPUT_TOKENS"],
+    2048
+  ),
+  maxCompletionChoices: getEnvWithDefault("MAX_COMPLETION_CHOICES", 1),
   allowedModelFamilies: getEnvWithDefault("ALLOWED_MODEL_FAMILIES", [
     "turbo",
     "gpt4",
     "gpt4-32k",
     "claude",
     "bison",
+    "gemini-pro",
     "aws-claude",
+    "aws-llama2",
+    "aws-titan",
+    "azure-turbo",
+    "azure-gpt4",
+    "azure-gpt4-32k",
+    "openai-compatible",
   ]),
+  modelRoutes:
+    getEnvWithDefault<ModelRoute[] | null>("MODEL_ROUTES", null) ?? [],
+  failoverChains: getEnvWithDefault("FAILOVER_CHAINS", []),
+  responseCache: getEnvWithDefault("RESPONSE_CACHE", false),
+  responseCacheShared: getEnvWithDefault("RESPONSE_CACHE_SHARED", false),
+  responseCacheBackend: getEnvWithDefault("RESPONSE_CACHE_BACKEND", "memory"),
+  responseCacheTtl: getEnvWithDefault("RESPONSE_CACHE_TTL", 3600),
+  responseCacheMaxSize: getEnvWithDefault("RESPONSE_CACHE_MAX_SIZE", 1000),
+  coalesceRequests: getEnvWithDefault("COALESCE_REQUESTS", false),
+  contextTrimming: getEnvWithDefault("CONTEXT_TRIMMING", false),
+  asyncJobTtl: getEnvWithDefault("ASYNC_JOB_TTL", 1800),
+  asyncJobQueueTimeout: getEnvWithDefault("ASYNC_JOB_QUEUE_TIMEOUT", 1800),
+  batchTtl: getEnvWithDefault("BATCH_TTL", 86400),
+  maxBatchSize: getEnvWithDefault("MAX_BATCH_SIZE", 10000),
+  maxActiveBatches: getEnvWithDefault("MAX_ACTIVE_BATCHES", 1),
+  queueAgingInterval: getEnvWithDefault("QUEUE_AGING_INTERVAL", 60),
+  queueScheduler: getEnvWithDefault("QUEUE_SCHEDULER", "fifo"),
+  queueSchedulers: getEnvWithDefault("QUEUE_SCHEDULERS", {}),
+  fairQueueWindow: getEnvWithDefault("FAIR_QUEUE_WINDOW", 600),
+  shutdownGracePeriod: getEnvWithDefault("SHUTDOWN_GRACE_PERIOD", 25),
   rejectDisallowed: getEnvWithDefault("REJECT_DISALLOWED", false),
   rejectMessage: getEnvWithDefault(
     "REJECT_MESSAGE",
     "This content violates /aicg/'s acceptable use policy."
   ),
+  dropUnsupportedImages: getEnvWithDefault("DROP_UNSUPPORTED_IMAGES", false),
   logLevel: getEnvWithDefault("LOG_LEVEL", "info"),
   checkKeys: getEnvWithDefault("CHECK_KEYS", !isDev),
   showTokenCosts: getEnvWithDefault("SHOW_TOKEN_COSTS", false),
@@ -219,7 +414,17 @@ export const config: Config = {
     "gpt4-32k": getEnvWithDefault("TOKEN_QUOTA_GPT4_32K", 0),
     claude: getEnvWithDefault("TOKEN_QUOTA_CLAUDE", 0),
     bison: getEnvWithDefault("TOKEN_QUOTA_BISON", 0),
+    "gemini-pro": getEnvWithDefault("TOKEN_QUOTA_GEMINI_PRO", 0),
     "aws-claude": getEnvWithDefault("TOKEN_QUOTA_AWS_CLAUDE", 0),
+    "aws-llama2": getEnvWithDefault("TOKEN_QUOTA_AWS_LLAMA2", 0),
+    "aws-titan": getEnvWithDefault("TOKEN_QUOTA_AWS_TITAN", 0),
+    "azure-turbo": getEnvWithDefault("TOKEN_QUOTA_AZURE_TURBO", 0),
+    "azure-gpt4": getEnvWithDefault("TOKEN_QUOTA_AZURE_GPT4", 0),
+    "azure-gpt4-32k": getEnvWithDefault("TOKEN_QUOTA_AZURE_GPT4_32K", 0),
+    "openai-compatible": getEnvWithDefault(
+      "TOKEN_QUOTA_OPENAI_COMPATIBLE",
+      0
+    ),
   },
   quotaRefreshPeriod: getEnvWithDefault("QUOTA_REFRESH_PERIOD", undefined),
   allowNicknameChanges: getEnvWithDefault("ALLOW_NICKNAME_CHANGES", true),
@@ -247,6 +452,15 @@ export async function assertConfigIsValid() {
     );
   }
 
+  if (
+    !Array.isArray(config.modelRoutes) ||
+    config.modelRoutes.some((route) => typeof route?.from !== "string")
+  ) {
+    throw new Error(
+      "Invalid MODEL_ROUTES. Must be a JSON array of routes, each with a `from` model pattern."
+    );
+  }
+
   if (!["none", "proxy_key", "user_token"].includes(config.gatekeeper)) {
     throw new Error(
       `Invalid gatekeeper mode: ${config.gatekeeper}. Must be one of: none, proxy_key, user_token.`
@@ -312,7 +526,11 @@ export const OMITTED_KEYS: (keyof Config)[] = [
   "openaiKey",
   "anthropicKey",
   "googlePalmKey",
+  "googleAIKey",
   "awsCredentials",
+  "azureCredentials",
+  "openaiCompatibleUrl",
+  "openaiCompatibleKey",
   "proxyKey",
   "adminKey",
   "checkKeys",
@@ -326,6 +544,7 @@ export const OMITTED_KEYS: (keyof Config)[] = [
   "blockMessage",
   "blockRedirect",
   "allowNicknameChanges",
+  "modelRoutes",
 ];
 
 const getKeys = Object.keys as <T extends object>(obj: T) => Array<keyof T>;
@@ -373,7 +592,11 @@ function getEnvWithDefault<T>(env: string | string[], defaultValue: T): T {
         "OPENAI_KEY",
         "ANTHROPIC_KEY",
         "GOOGLE_PALM_KEY",
+        "GOOGLE_AI_KEY",
         "AWS_CREDENTIALS",
+        "AZURE_CREDENTIALS",
+        "OPENAI_COMPATIBLE_URL",
+        "OPENAI_COMPATIBLE_KEY",
       ].includes(String(env))
     ) {
       return value as unknown as T;
@@ -5,11 +5,19 @@ import { config, listConfig } from "./config";
 import {
   AnthropicKey,
   GooglePalmKey,
+  GoogleAIKey,
   OpenAIKey,
   AwsBedrockKey,
+  AzureOpenAIKey,
+  OpenAICompatibleKey,
   keyPool,
 } from "./shared/key-management";
-import { ModelFamily, OpenAIModelFamily } from "./shared/models";
+import {
+  AwsBedrockModelFamily,
+  AzureOpenAIModelFamily,
+  ModelFamily,
+  OpenAIModelFamily,
+} from "./shared/models";
 import { getUniqueIps } from "./proxy/rate-limit";
 import { getEstimatedWaitTime, getQueueLength } from "./proxy/queue";
 import { getTokenCostUsd, prettyTokens } from "./shared/stats";
@@ -26,7 +34,13 @@ const keyIsAnthropicKey = (k: KeyPoolKey): k is AnthropicKey =>
   k.service === "anthropic";
 const keyIsGooglePalmKey = (k: KeyPoolKey): k is GooglePalmKey =>
   k.service === "google-palm";
+const keyIsGoogleAIKey = (k: KeyPoolKey): k is GoogleAIKey =>
+  k.service === "google-ai";
 const keyIsAwsKey = (k: KeyPoolKey): k is AwsBedrockKey => k.service === "aws";
+const keyIsAzureKey = (k: KeyPoolKey): k is AzureOpenAIKey =>
+  k.service === "azure";
+const keyIsOpenAICompatibleKey = (k: KeyPoolKey): k is OpenAICompatibleKey =>
+  k.service === "openai-compatible";
 
 type ModelAggregates = {
   active: number;
@@ -46,7 +60,10 @@ type ServiceAggregates = {
   openaiOrgs?: number;
   anthropicKeys?: number;
   palmKeys?: number;
+  googleAIKeys?: number;
   awsKeys?: number;
+  azureKeys?: number;
+  openaiCompatibleKeys?: number;
   proompts: number;
   tokens: number;
   tokenCost: number;
@@ -89,7 +106,10 @@ function cacheInfoPageHtml(baseUrl: string) {
   const openaiKeys = serviceStats.get("openaiKeys") || 0;
   const anthropicKeys = serviceStats.get("anthropicKeys") || 0;
   const palmKeys = serviceStats.get("palmKeys") || 0;
+  const googleAIKeys = serviceStats.get("googleAIKeys") || 0;
   const awsKeys = serviceStats.get("awsKeys") || 0;
+  const azureKeys = serviceStats.get("azureKeys") || 0;
+  const openaiCompatibleKeys = serviceStats.get("openaiCompatibleKeys") || 0;
   const proompts = serviceStats.get("proompts") || 0;
   const tokens = serviceStats.get("tokens") || 0;
   const tokenCost = serviceStats.get("tokenCost") || 0;
@@ -103,7 +123,14 @@ function cacheInfoPageHtml(baseUrl: string) {
         : {}),
       ...(anthropicKeys ? { anthropic: baseUrl + "/proxy/anthropic" } : {}),
       ...(palmKeys ? { "google-palm": baseUrl + "/proxy/google-palm" } : {}),
+      ...(googleAIKeys ? { "google-ai": baseUrl + "/proxy/google-ai" } : {}),
       ...(awsKeys ? { aws: baseUrl + "/proxy/aws/claude" } : {}),
+      ...(awsKeys ? { "aws-llama2": baseUrl + "/proxy/aws/llama2" } : {}),
+      ...(awsKeys ? { "aws-titan": baseUrl + "/proxy/aws/titan" } : {}),
+      ...(azureKeys ? { azure: baseUrl + "/proxy/azure" } : {}),
+      ...(openaiCompatibleKeys
+        ? { "openai-compatible": baseUrl + "/proxy/openai-compatible" }
+        : {}),
     },
     proompts,
     tookens: `${prettyTokens(tokens)}${getCostString(tokenCost)}`,
@@ -111,11 +138,19 @@ function cacheInfoPageHtml(baseUrl: string) {
     openaiKeys,
     anthropicKeys,
     palmKeys,
+    googleAIKeys,
     awsKeys,
+    azureKeys,
+    openaiCompatibleKeys,
     ...(openaiKeys ? getOpenAIInfo() : {}),
     ...(anthropicKeys ? getAnthropicInfo() : {}),
     ...(palmKeys ? { "palm-bison": getPalmInfo() } : {}),
-    ...(awsKeys ? { "aws-claude": getAwsInfo() } : {}),
+    ...(googleAIKeys ? { "gemini-pro": getGoogleAIInfo() } : {}),
+    ...(awsKeys ? getAwsInfo() : {}),
+    ...(azureKeys ? getAzureInfo() : {}),
+    ...(openaiCompatibleKeys
+      ? { "openai-compatible": getOpenAICompatibleInfo() }
+      : {}),
     config: listConfig(),
     build: process.env.BUILD_INFO || "dev",
   };
@@ -165,7 +200,14 @@ function addKeyToAggregates(k: KeyPoolKey) {
   increment(serviceStats, "openaiKeys", k.service === "openai" ? 1 : 0);
   increment(serviceStats, "anthropicKeys", k.service === "anthropic" ? 1 : 0);
   increment(serviceStats, "palmKeys", k.service === "google-palm" ? 1 : 0);
+  increment(serviceStats, "googleAIKeys", k.service === "google-ai" ? 1 : 0);
   increment(serviceStats, "awsKeys", k.service === "aws" ? 1 : 0);
+  increment(serviceStats, "azureKeys", k.service === "azure" ? 1 : 0);
+  increment(
+    serviceStats,
+    "openaiCompatibleKeys",
+    k.service === "openai-compatible" ? 1 : 0
+  );
 
   let sumTokens = 0;
   let sumCost = 0;
@@ -222,19 +264,52 @@ function addKeyToAggregates(k: KeyPoolKey) {
       sumCost += getTokenCostUsd(family, k.bisonTokens);
       increment(modelStats, `${family}__tokens`, k.bisonTokens);
       break;
+    case "google-ai":
+      if (!keyIsGoogleAIKey(k)) throw new Error("Invalid key type");
+      family = "gemini-pro";
+      sumTokens += k["gemini-proTokens"];
+      sumCost += getTokenCostUsd(family, k["gemini-proTokens"]);
+      increment(modelStats, `${family}__tokens`, k["gemini-proTokens"]);
+      break;
     case "aws":
       if (!keyIsAwsKey(k)) throw new Error("Invalid key type");
-      family = "aws-claude";
-      sumTokens += k["aws-claudeTokens"];
-      sumCost += getTokenCostUsd(family, k["aws-claudeTokens"]);
-      increment(modelStats, `${family}__tokens`, k["aws-claudeTokens"]);
+      // AWS keys can serve several model families. The first one is counted
+      // as active/revoked below; the others are counted here.
+      family = k.modelFamilies[0] ?? "aws-claude";
 
       // Ignore revoked keys for aws logging stats, but include keys where the
       // logging status is unknown.
       const countAsLogged =
         k.lastChecked && !k.isDisabled && k.awsLoggingStatus !== "disabled";
-      increment(modelStats, `${family}__awsLogged`, countAsLogged ? 1 : 0);
-
+      k.modelFamilies.forEach((f) => {
+        const tokens = k[`${f}Tokens`];
+        sumTokens += tokens;
+        sumCost += getTokenCostUsd(f, tokens);
+        increment(modelStats, `${f}__tokens`, tokens);
+        increment(modelStats, `${f}__awsLogged`, countAsLogged ? 1 : 0);
+        if (f !== family) {
+          increment(modelStats, `${f}__active`, k.isDisabled ? 0 : 1);
+          increment(modelStats, `${f}__revoked`, k.isRevoked ? 1 : 0);
+        }
+      });
+      break;
+    case "azure":
+      if (!keyIsAzureKey(k)) throw new Error("Invalid key type");
+      // Each Azure deployment serves a single model family.
+      family = k.modelFamilies[0];
+      k.modelFamilies.forEach((f) => {
+        const tokens = k[`${f}Tokens`];
+        sumTokens += tokens;
+        sumCost += getTokenCostUsd(f, tokens);
+        increment(modelStats, `${f}__tokens`, tokens);
+      });
+      break;
+    case "openai-compatible":
+      if (!keyIsOpenAICompatibleKey(k)) throw new Error("Invalid key type");
+      family = "openai-compatible";
+      sumTokens += k["openai-compatibleTokens"];
+      sumCost += getTokenCostUsd(family, k["openai-compatibleTokens"]);
+      increment(modelStats, `${family}__tokens`, k["openai-compatibleTokens"]);
       break;
     default:
       assertNever(k.service);
@@ -362,32 +437,111 @@ function getPalmInfo() {
   };
 }
 
-function getAwsInfo() {
-  const awsInfo: Partial<ModelAggregates> = {
-    active: modelStats.get("aws-claude__active") || 0,
+function getGoogleAIInfo() {
+  const geminiInfo: Partial<ModelAggregates> = {
+    active: modelStats.get("gemini-pro__active") || 0,
+    revoked: modelStats.get("gemini-pro__revoked") || 0,
   };
 
-  const queue = getQueueInformation("aws-claude");
-  awsInfo.queued = queue.proomptersInQueue;
-  awsInfo.queueTime = queue.estimatedQueueTime;
+  const queue = getQueueInformation("gemini-pro");
+  geminiInfo.queued = queue.proomptersInQueue;
+  geminiInfo.queueTime = queue.estimatedQueueTime;
 
-  const tokens = modelStats.get("aws-claude__tokens") || 0;
-  const cost = getTokenCostUsd("aws-claude", tokens);
-
-  const logged = modelStats.get("aws-claude__awsLogged") || 0;
-  const logMsg = config.allowAwsLogging
-    ? `${logged} active keys are potentially logged.`
-    : `${logged} active keys are potentially logged and can't be used. Set ALLOW_AWS_LOGGING=true to override.`;
+  const tokens = modelStats.get("gemini-pro__tokens") || 0;
+  const cost = getTokenCostUsd("gemini-pro", tokens);
 
   return {
     usage: `${prettyTokens(tokens)} tokens${getCostString(cost)}`,
-    activeKeys: awsInfo.active,
-    proomptersInQueue: awsInfo.queued,
-    estimatedQueueTime: awsInfo.queueTime,
-    ...(logged > 0 ? { privacy: logMsg } : {}),
+    activeKeys: geminiInfo.active,
+    ...(config.checkKeys ? { revokedKeys: geminiInfo.revoked } : {}),
+    proomptersInQueue: geminiInfo.queued,
+    estimatedQueueTime: geminiInfo.queueTime,
+  };
+}
+
+function getAwsInfo() {
+  const awsFamilies: AwsBedrockModelFamily[] = [
+    "aws-claude",
+    "aws-llama2",
+    "aws-titan",
+  ];
+  const families = awsFamilies.filter(
+    (f) =>
+      config.allowedModelFamilies.includes(f) && modelStats.get(`${f}__active`)
+  );
+
+  const info: { [modelFamily in AwsBedrockModelFamily]?: object } = {};
+  families.forEach((f) => {
+    const tokens = modelStats.get(`${f}__tokens`) || 0;
+    const cost = getTokenCostUsd(f, tokens);
+    const queue = getQueueInformation(f);
+
+    const logged = modelStats.get(`${f}__awsLogged`) || 0;
+    const logMsg = config.allowAwsLogging
+      ? `${logged} active keys are potentially logged.`
+      : `${logged} active keys are potentially logged and can't be used. Set ALLOW_AWS_LOGGING=true to override.`;
+
+    info[f] = {
+      usage: `${prettyTokens(tokens)} tokens${getCostString(cost)}`,
+      activeKeys: modelStats.get(`${f}__active`) || 0,
+      proomptersInQueue: queue.proomptersInQueue,
+      estimatedQueueTime: queue.estimatedQueueTime,
+      ...(logged > 0 ? { privacy: logMsg } : {}),
+    };
+  });
+  return info;
+}
+
+function getOpenAICompatibleInfo() {
+  const compatInfo: Partial<ModelAggregates> = {
+    active: modelStats.get("openai-compatible__active") || 0,
+  };
+
+  const queue = getQueueInformation("openai-compatible");
+  compatInfo.queued = queue.proomptersInQueue;
+  compatInfo.queueTime = queue.estimatedQueueTime;
+
+  const tokens = modelStats.get("openai-compatible__tokens") || 0;
+
+  return {
+    usage: `${prettyTokens(tokens)} tokens`,
+    models: config.openaiCompatibleModels,
+    activeKeys: compatInfo.active,
+    proomptersInQueue: compatInfo.queued,
+    estimatedQueueTime: compatInfo.queueTime,
   };
 }
 
+function getAzureInfo() {
+  const azureFamilies: AzureOpenAIModelFamily[] = [
+    "azure-turbo",
+    "azure-gpt4",
+    "azure-gpt4-32k",
+  ];
+  const families = azureFamilies.filter(
+    (f) =>
+      config.allowedModelFamilies.includes(f) && modelStats.get(`${f}__active`)
+  );
+
+  const info: { [modelFamily in AzureOpenAIModelFamily]?: object } = {};
+  families.forEach((f) => {
+    const tokens = modelStats.get(`${f}__tokens`) || 0;
+    const cost = getTokenCostUsd(f, tokens);
+    const queue = getQueueInformation(f);
+
+    info[f] = {
+      usage: `${prettyTokens(tokens)} tokens${getCostString(cost)}`,
+      activeKeys: modelStats.get(`${f}__active`) || 0,
+      ...(config.checkKeys
+        ? { revokedKeys: modelStats.get(`${f}__revoked`) || 0 }
+        : {}),
+      proomptersInQueue: queue.proomptersInQueue,
+      estimatedQueueTime: queue.estimatedQueueTime,
+    };
+  });
+  return info;
+}
+
 const customGreeting = fs.existsSync("greeting.md")
   ? fs.readFileSync("greeting.md", "utf8")
   : null;
@@ -439,9 +593,49 @@ Logs are anonymous and do not contain IP addresses or timestamps. [You can see t
     waits.push(`**Claude:** ${claudeWait}`);
   }
 
+  if (config.googleAIKey) {
+    const geminiWait = getQueueInformation("gemini-pro").estimatedQueueTime;
+    waits.push(`**Gemini Pro:** ${geminiWait}`);
+  }
+
   if (config.awsCredentials) {
-    const awsClaudeWait = getQueueInformation("aws-claude").estimatedQueueTime;
-    waits.push(`**Claude (AWS):** ${awsClaudeWait}`);
+    const keys = keyPool.list().filter((k) => k.service === "aws");
+    const awsWaits: [AwsBedrockModelFamily, string][] = [
+      ["aws-claude", "Claude (AWS)"],
+      ["aws-llama2", "Llama 2 (AWS)"],
+      ["aws-titan", "Titan (AWS)"],
+    ];
+    awsWaits.forEach(([family, name]) => {
+      const hasFamily = keys.some((k) => k.modelFamilies.includes(family));
+      const allowed = config.allowedModelFamilies.includes(family);
+      if (hasFamily && allowed) {
+        const wait = getQueueInformation(family).estimatedQueueTime;
+        waits.push(`**${name}:** ${wait}`);
+      }
+    });
+  }
+
+  if (config.openaiCompatibleUrl) {
+    const compatWait =
+      getQueueInformation("openai-compatible").estimatedQueueTime;
+    waits.push(`**OpenAI-compatible:** ${compatWait}`);
+  }
+
+  if (config.azureCredentials) {
+    const keys = keyPool.list().filter((k) => k.service === "azure");
+    const azureWaits: [AzureOpenAIModelFamily, string][] = [
+      ["azure-turbo", "Turbo (Azure)"],
+      ["azure-gpt4", "GPT-4 (Azure)"],
+      ["azure-gpt4-32k", "GPT-4-32k (Azure)"],
+    ];
+    azureWaits.forEach(([family, name]) => {
+      const hasFamily = keys.some((k) => k.modelFamilies.includes(family));
+      const allowed = config.allowedModelFamilies.includes(family);
+      if (hasFamily && allowed) {
+        const wait = getQueueInformation(family).estimatedQueueTime;
+        waits.push(`**${name}:** ${wait}`);
+      }
+    });
   }
 
   infoBody += "\n\n" + waits.join(" / ");
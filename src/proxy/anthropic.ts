@@ -1,10 +1,14 @@
-import { Request, RequestHandler, Router } from "express";
+import { Request, Router } from "express";
 import { createProxyMiddleware } from "http-proxy-middleware";
 import { config } from "../config";
+import { extractEmulatedToolCalls } from "../shared/tool-emulation";
 import { logger } from "../logger";
+import { registerFailoverTarget } from "./failover";
+import { createModelListHandler } from "./models";
 import { createQueueMiddleware } from "./queue";
 import { ipLimiter } from "./rate-limit";
 import { handleProxyError } from "./middleware/common";
+import { mergeFanOutChoices } from "./middleware/fan-out";
 import {
   addKey,
   applyQuotaLimits,
@@ -20,52 +24,11 @@ import {
   ProxyResHandlerWithBody,
   createOnProxyResHandler,
 } from "./middleware/response";
-
-let modelsCache: any = null;
-let modelsCacheTime = 0;
-
-const getModelsResponse = () => {
-  if (new Date().getTime() - modelsCacheTime < 1000 * 60) {
-    return modelsCache;
-  }
-
-  if (!config.anthropicKey) return { object: "list", data: [] };
-
-  const claudeVariants = [
-    "claude-v1",
-    "claude-v1-100k",
-    "claude-instant-v1",
-    "claude-instant-v1-100k",
-    "claude-v1.3",
-    "claude-v1.3-100k",
-    "claude-v1.2",
-    "claude-v1.0",
-    "claude-instant-v1.1",
-    "claude-instant-v1.1-100k",
-    "claude-instant-v1.0",
-    "claude-2", // claude-2 is 100k by default it seems
-    "claude-2.0",
-  ];
-
-  const models = claudeVariants.map((id) => ({
-    id,
-    object: "model",
-    created: new Date().getTime(),
-    owned_by: "anthropic",
-    permission: [],
-    root: "claude",
-    parent: null,
-  }));
-
-  modelsCache = { object: "list", data: models };
-  modelsCacheTime = new Date().getTime();
-
-  return modelsCache;
-};
-
-const handleModelRequest: RequestHandler = (_req, res) => {
-  res.status(200).json(getModelsResponse());
-};
+import {
+  getEmulatedStreamParams,
+  sendEmulatedStream,
+} from "./middleware/response/streaming/client-events";
+import { storeCachedResponse } from "./middleware/response-cache";
 
 /** Only used for non-streaming requests. */
 const anthropicResponseHandler: ProxyResHandlerWithBody = async (
@@ -83,9 +46,16 @@ const anthropicResponseHandler: ProxyResHandlerWithBody = async (
     body.proxy_note = `Prompts are logged on this proxy instance. See ${host} for more information.`;
   }
 
-  if (req.inboundApi === "openai") {
+  if (req.inboundApi === "openai" && req.outboundApi === "anthropic-chat") {
+    req.log.info("Transforming Anthropic Chat response to OpenAI format");
+    body = mergeFanOutChoices(req, body, transformAnthropicChatResponse);
+  } else if (req.inboundApi === "openai") {
     req.log.info("Transforming Anthropic response to OpenAI format");
-    body = transformAnthropicResponse(body, req);
+    body = mergeFanOutChoices(req, body, transformAnthropicResponse);
+  }
+
+  if (req.toolEmulation) {
+    body = extractEmulatedToolCalls(body, req.toolEmulation);
   }
 
   // TODO: Remove once tokenization is stable
@@ -93,6 +63,12 @@ const anthropicResponseHandler: ProxyResHandlerWithBody = async (
     body.proxy_tokenizer_debug_info = req.debug;
   }
 
+  if (req.emulateStreaming) {
+    req.log.info("Replaying Claude response as an emulated stream");
+    storeCachedResponse(req, body);
+    return sendEmulatedStream(req, res, getEmulatedStreamParams(body));
+  }
+
   res.status(200).json(body);
 };
 
@@ -130,6 +106,38 @@ function transformAnthropicResponse(
   };
 }
 
+/**
+ * Transforms a model response from the Anthropic Messages API to match those
+ * from the OpenAI API. Only used for non-streaming requests.
+ */
+function transformAnthropicChatResponse(
+  anthropicBody: Record<string, any>,
+  req: Request
+): Record<string, any> {
+  const totalTokens = (req.promptTokens ?? 0) + (req.outputTokens ?? 0);
+  const content = (anthropicBody.content ?? [])
+    .map((part: { type: string; text?: string }) => part.text ?? "")
+    .join("");
+  return {
+    id: "ant-" + anthropicBody.id,
+    object: "chat.completion",
+    created: Date.now(),
+    model: anthropicBody.model ?? req.body.model,
+    usage: {
+      prompt_tokens: req.promptTokens,
+      completion_tokens: req.outputTokens,
+      total_tokens: totalTokens,
+    },
+    choices: [
+      {
+        message: { role: "assistant", content: content.trim() },
+        finish_reason: anthropicBody.stop_reason,
+        index: 0,
+      },
+    ],
+  };
+}
+
 const anthropicProxy = createQueueMiddleware({
   proxyMiddleware: createProxyMiddleware({
     target: "https://api.anthropic.com",
@@ -151,15 +159,17 @@ const anthropicProxy = createQueueMiddleware({
       proxyRes: createOnProxyResHandler([anthropicResponseHandler]),
       error: handleProxyError,
     },
-    pathRewrite: {
-      // Send OpenAI-compat requests to the real Anthropic endpoint.
-      "^/v1/chat/completions": "/v1/complete",
-    },
+    // Send OpenAI-compat requests to the real Anthropic endpoint.
+    pathRewrite: (path, req) =>
+      path.replace(
+        /^\/v1\/chat\/completions/,
+        req.outboundApi === "anthropic-chat" ? "/v1/messages" : "/v1/complete"
+      ),
   }),
 });
 
 const anthropicRouter = Router();
-anthropicRouter.get("/v1/models", handleModelRequest);
+anthropicRouter.get("/v1/models", createModelListHandler("anthropic"));
 // Native Anthropic chat completion endpoint.
 anthropicRouter.post(
   "/v1/complete",
@@ -171,29 +181,62 @@ anthropicRouter.post(
   }),
   anthropicProxy
 );
+// Native Anthropic Messages API endpoint.
+anthropicRouter.post(
+  "/v1/messages",
+  ipLimiter,
+  createPreprocessorMiddleware({
+    inApi: "anthropic-chat",
+    outApi: "anthropic-chat",
+    service: "anthropic",
+  }),
+  anthropicProxy
+);
 // OpenAI-to-Anthropic compatibility endpoint.
 anthropicRouter.post(
   "/v1/chat/completions",
   ipLimiter,
   createPreprocessorMiddleware(
     { inApi: "openai", outApi: "anthropic", service: "anthropic" },
-    { afterTransform: [maybeReassignModel] }
+    { beforeTransform: [maybeUseMessagesApi] }
   ),
   anthropicProxy
 );
 
-function maybeReassignModel(req: Request) {
-  const model = req.body.model;
-  if (!model.startsWith("gpt-")) return;
+registerFailoverTarget({
+  models: { claude: "claude-2.1" },
+  endpoints: [
+    {
+      path: "/v1/complete",
+      apiFormat: {
+        inApi: "anthropic",
+        outApi: "anthropic",
+        service: "anthropic",
+      },
+    },
+    {
+      path: "/v1/messages",
+      apiFormat: {
+        inApi: "anthropic-chat",
+        outApi: "anthropic-chat",
+        service: "anthropic",
+      },
+    },
+    {
+      path: "/v1/chat/completions",
+      apiFormat: { inApi: "openai", outApi: "anthropic", service: "anthropic" },
+    },
+  ],
+  proxy: anthropicProxy,
+});
 
-  const bigModel = process.env.CLAUDE_BIG_MODEL || "claude-v1-100k";
-  const contextSize = req.promptTokens! + req.outputTokens!;
-  if (contextSize > 8500) {
-    req.log.debug(
-      { model: bigModel, contextSize },
-      "Using Claude 100k model for OpenAI-to-Anthropic request"
-    );
-    req.body.model = bigModel;
+/**
+ * Claude 3 models are only available via the Messages API, so OpenAI-compat
+ * requests for them are translated to that format instead of a text prompt.
+ */
+function maybeUseMessagesApi(req: Request) {
+  if (String(req.body.model).startsWith("claude-3")) {
+    req.outboundApi = "anthropic-chat";
   }
 }
 
@@ -1,17 +1,21 @@
-import { Request, RequestHandler, Router } from "express";
+import { Request, Router } from "express";
 import { createProxyMiddleware } from "http-proxy-middleware";
 import { v4 } from "uuid";
 import { config } from "../config";
+import { extractEmulatedToolCalls } from "../shared/tool-emulation";
 import { logger } from "../logger";
+import { registerFailoverTarget } from "./failover";
+import { createModelListHandler } from "./models";
 import { createQueueMiddleware } from "./queue";
 import { ipLimiter } from "./rate-limit";
 import { handleProxyError } from "./middleware/common";
+import { mergeFanOutChoices } from "./middleware/fan-out";
 import {
   applyQuotaLimits,
   createPreprocessorMiddleware,
   stripHeaders,
   signAwsRequest,
-  finalizeAwsRequest,
+  finalizeSignedRequest,
   createOnProxyReqHandler,
   languageFilter,
   blockZoomerOrigins,
@@ -20,38 +24,12 @@ import {
   ProxyResHandlerWithBody,
   createOnProxyResHandler,
 } from "./middleware/response";
-
-let modelsCache: any = null;
-let modelsCacheTime = 0;
-
-const getModelsResponse = () => {
-  if (new Date().getTime() - modelsCacheTime < 1000 * 60) {
-    return modelsCache;
-  }
-
-  if (!config.awsCredentials) return { object: "list", data: [] };
-
-  const variants = ["anthropic.claude-v1", "anthropic.claude-v2"];
-
-  const models = variants.map((id) => ({
-    id,
-    object: "model",
-    created: new Date().getTime(),
-    owned_by: "anthropic",
-    permission: [],
-    root: "claude",
-    parent: null,
-  }));
-
-  modelsCache = { object: "list", data: models };
-  modelsCacheTime = new Date().getTime();
-
-  return modelsCache;
-};
-
-const handleModelRequest: RequestHandler = (_req, res) => {
-  res.status(200).json(getModelsResponse());
-};
+import {
+  getEmulatedStreamParams,
+  sendEmulatedStream,
+} from "./middleware/response/streaming/client-events";
+import { storeCachedResponse } from "./middleware/response-cache";
+import { getTitanFinishReason } from "./middleware/response/streaming/transformers/aws-titan-to-openai";
 
 /** Only used for non-streaming requests. */
 const awsResponseHandler: ProxyResHandlerWithBody = async (
@@ -69,9 +47,25 @@ const awsResponseHandler: ProxyResHandlerWithBody = async (
     body.proxy_note = `Prompts are logged on this proxy instance. See ${host} for more information.`;
   }
 
-  if (req.inboundApi === "openai") {
+  if (req.inboundApi === "openai" && req.outboundApi === "aws-llama2") {
+    req.log.info("Transforming AWS Llama 2 response to OpenAI format");
+    body = mergeFanOutChoices(req, body, transformAwsLlama2Response);
+  } else if (req.inboundApi === "openai" && req.outboundApi === "aws-titan") {
+    req.log.info("Transforming AWS Titan response to OpenAI format");
+    body = mergeFanOutChoices(req, body, transformAwsTitanResponse);
+  } else if (
+    req.inboundApi === "openai" &&
+    req.outboundApi === "anthropic-chat"
+  ) {
+    req.log.info("Transforming AWS Claude Chat response to OpenAI format");
+    body = mergeFanOutChoices(req, body, transformAwsChatResponse);
+  } else if (req.inboundApi === "openai") {
     req.log.info("Transforming AWS Claude response to OpenAI format");
-    body = transformAwsResponse(body, req);
+    body = mergeFanOutChoices(req, body, transformAwsResponse);
+  }
+
+  if (req.toolEmulation) {
+    body = extractEmulatedToolCalls(body, req.toolEmulation);
   }
 
   // TODO: Remove once tokenization is stable
@@ -82,6 +76,12 @@ const awsResponseHandler: ProxyResHandlerWithBody = async (
   // AWS does not confirm the model in the response, so we have to add it
   body.model = req.body.model;
 
+  if (req.emulateStreaming) {
+    req.log.info("Replaying AWS Claude response as an emulated stream");
+    storeCachedResponse(req, body);
+    return sendEmulatedStream(req, res, getEmulatedStreamParams(body));
+  }
+
   res.status(200).json(body);
 };
 
@@ -119,6 +119,97 @@ function transformAwsResponse(
   };
 }
 
+/**
+ * Transforms a Messages API response from AWS Claude to match those from the
+ * OpenAI API. Only used for non-streaming requests.
+ */
+function transformAwsChatResponse(
+  awsBody: Record<string, any>,
+  req: Request
+): Record<string, any> {
+  const totalTokens = (req.promptTokens ?? 0) + (req.outputTokens ?? 0);
+  const content = (awsBody.content ?? [])
+    .map((part: { type: string; text?: string }) => part.text ?? "")
+    .join("");
+  return {
+    id: "aws-" + v4(),
+    object: "chat.completion",
+    created: Date.now(),
+    model: req.body.model,
+    usage: {
+      prompt_tokens: req.promptTokens,
+      completion_tokens: req.outputTokens,
+      total_tokens: totalTokens,
+    },
+    choices: [
+      {
+        message: { role: "assistant", content: content.trim() },
+        finish_reason: awsBody.stop_reason,
+        index: 0,
+      },
+    ],
+  };
+}
+
+/**
+ * Transforms a Llama 2 response from AWS Bedrock to match those from the
+ * OpenAI API. Only used for non-streaming requests.
+ */
+function transformAwsLlama2Response(
+  awsBody: Record<string, any>,
+  req: Request
+): Record<string, any> {
+  const totalTokens = (req.promptTokens ?? 0) + (req.outputTokens ?? 0);
+  return {
+    id: "aws-" + v4(),
+    object: "chat.completion",
+    created: Date.now(),
+    model: req.body.model,
+    usage: {
+      prompt_tokens: req.promptTokens,
+      completion_tokens: req.outputTokens,
+      total_tokens: totalTokens,
+    },
+    choices: [
+      {
+        message: { role: "assistant", content: awsBody.generation?.trim() },
+        finish_reason: awsBody.stop_reason,
+        index: 0,
+      },
+    ],
+  };
+}
+
+/**
+ * Transforms a Titan Text response from AWS Bedrock to match those from the
+ * OpenAI API. Only used for non-streaming requests.
+ */
+function transformAwsTitanResponse(
+  awsBody: Record<string, any>,
+  req: Request
+): Record<string, any> {
+  const totalTokens = (req.promptTokens ?? 0) + (req.outputTokens ?? 0);
+  const result = awsBody.results?.[0] ?? {};
+  return {
+    id: "aws-" + v4(),
+    object: "chat.completion",
+    created: Date.now(),
+    model: req.body.model,
+    usage: {
+      prompt_tokens: req.promptTokens,
+      completion_tokens: req.outputTokens,
+      total_tokens: totalTokens,
+    },
+    choices: [
+      {
+        message: { role: "assistant", content: result.outputText?.trim() },
+        finish_reason: getTitanFinishReason(result.completionReason),
+        index: 0,
+      },
+    ],
+  };
+}
+
 const awsProxy = createQueueMiddleware({
   beforeProxy: signAwsRequest,
   proxyMiddleware: createProxyMiddleware({
@@ -137,7 +228,7 @@ const awsProxy = createQueueMiddleware({
           languageFilter,
           blockZoomerOrigins,
           stripHeaders,
-          finalizeAwsRequest,
+          finalizeSignedRequest,
         ],
       }),
       proxyRes: createOnProxyResHandler([awsResponseHandler]),
@@ -147,15 +238,27 @@ const awsProxy = createQueueMiddleware({
 });
 
 const awsRouter = Router();
-awsRouter.get("/v1/models", handleModelRequest);
+awsRouter.get("/v1/models", createModelListHandler("aws", "aws-claude"));
 // Native(ish) Anthropic chat completion endpoint.
 awsRouter.post(
   "/v1/complete",
   ipLimiter,
-  createPreprocessorMiddleware(
-    { inApi: "anthropic", outApi: "anthropic", service: "aws" },
-    { afterTransform: [maybeReassignModel] }
-  ),
+  createPreprocessorMiddleware({
+    inApi: "anthropic",
+    outApi: "anthropic",
+    service: "aws",
+  }),
+  awsProxy
+);
+// Native(ish) Anthropic Messages API endpoint.
+awsRouter.post(
+  "/v1/messages",
+  ipLimiter,
+  createPreprocessorMiddleware({
+    inApi: "anthropic-chat",
+    outApi: "anthropic-chat",
+    service: "aws",
+  }),
   awsProxy
 );
 // OpenAI-to-AWS Anthropic compatibility endpoint.
@@ -164,31 +267,94 @@ awsRouter.post(
   ipLimiter,
   createPreprocessorMiddleware(
     { inApi: "openai", outApi: "anthropic", service: "aws" },
-    { afterTransform: [maybeReassignModel] }
+    { beforeTransform: [maybeUseMessagesApi] }
   ),
   awsProxy
 );
 
+registerFailoverTarget({
+  models: { "aws-claude": "anthropic.claude-v2" },
+  endpoints: [
+    {
+      path: "/v1/complete",
+      apiFormat: { inApi: "anthropic", outApi: "anthropic", service: "aws" },
+    },
+    {
+      path: "/v1/messages",
+      apiFormat: {
+        inApi: "anthropic-chat",
+        outApi: "anthropic-chat",
+        service: "aws",
+      },
+    },
+    {
+      path: "/v1/chat/completions",
+      apiFormat: { inApi: "openai", outApi: "anthropic", service: "aws" },
+    },
+  ],
+  proxy: awsProxy,
+});
+
 /**
- * Tries to deal with:
- * - frontends sending AWS model names even when they want to use the OpenAI-
- *   compatible endpoint
- * - frontends sending Anthropic model names that AWS doesn't recognize
- * - frontends sending OpenAI model names because they expect the proxy to
- *   translate them
+ * Claude 3 models are only available via the Messages API, so OpenAI-compat
+ * requests for them are translated to that format instead of a text prompt.
  */
-function maybeReassignModel(req: Request) {
-  const model = req.body.model;
-  // User's client sent an AWS model already
-  if (model.includes("anthropic.claude")) return;
-  // User's client is sending Anthropic-style model names, check for v1
-  if (model.match(/^claude-v?1/)) {
-    req.body.model = "anthropic.claude-v1";
-  } else {
-    // User's client requested v2 or possibly some OpenAI model, default to v2
-    req.body.model = "anthropic.claude-v2";
+function maybeUseMessagesApi(req: Request) {
+  if (String(req.body.model).includes("claude-3")) {
+    req.outboundApi = "anthropic-chat";
   }
-  // TODO: Handle claude-instant
 }
 
+const awsLlama2Router = Router();
+awsLlama2Router.get("/v1/models", createModelListHandler("aws", "aws-llama2"));
+// OpenAI-to-AWS Llama 2 compatibility endpoint.
+awsLlama2Router.post(
+  "/v1/chat/completions",
+  ipLimiter,
+  createPreprocessorMiddleware({
+    inApi: "openai",
+    outApi: "aws-llama2",
+    service: "aws",
+  }),
+  awsProxy
+);
+
+registerFailoverTarget({
+  models: { "aws-llama2": "meta.llama2-70b-chat-v1" },
+  endpoints: [
+    {
+      path: "/v1/chat/completions",
+      apiFormat: { inApi: "openai", outApi: "aws-llama2", service: "aws" },
+    },
+  ],
+  proxy: awsProxy,
+});
+
+const awsTitanRouter = Router();
+awsTitanRouter.get("/v1/models", createModelListHandler("aws", "aws-titan"));
+// OpenAI-to-AWS Titan Text compatibility endpoint.
+awsTitanRouter.post(
+  "/v1/chat/completions",
+  ipLimiter,
+  createPreprocessorMiddleware({
+    inApi: "openai",
+    outApi: "aws-titan",
+    service: "aws",
+  }),
+  awsProxy
+);
+
+registerFailoverTarget({
+  models: { "aws-titan": "amazon.titan-text-express-v1" },
+  endpoints: [
+    {
+      path: "/v1/chat/completions",
+      apiFormat: { inApi: "openai", outApi: "aws-titan", service: "aws" },
+    },
+  ],
+  proxy: awsProxy,
+});
+
 export const aws = awsRouter;
+export const awsLlama2 = awsLlama2Router;
+export const awsTitan = awsTitanRouter;
@@ -0,0 +1,135 @@
+import { Router } from "express";
+import { createProxyMiddleware } from "http-proxy-middleware";
+import { config } from "../config";
+import { logger } from "../logger";
+import { registerFailoverTarget } from "./failover";
+import { createModelListHandler } from "./models";
+import { createQueueMiddleware } from "./queue";
+import { ipLimiter } from "./rate-limit";
+import { handleProxyError } from "./middleware/common";
+import {
+  addAzureKey,
+  applyQuotaLimits,
+  blockZoomerOrigins,
+  createOnProxyReqHandler,
+  createPreprocessorMiddleware,
+  finalizeSignedRequest,
+  languageFilter,
+  RequestPreprocessor,
+} from "./middleware/request";
+import {
+  createOnProxyResHandler,
+  ProxyResHandlerWithBody,
+} from "./middleware/response";
+
+/**
+ * Prefixes the requested model so that the queue, key pool and quota tracking
+ * route the request to Azure rather than to OpenAI. Azure's own model names
+ * (`gpt-35-turbo`) are normalized to OpenAI's.
+ */
+const prefixAzureModel: RequestPreprocessor = (req) => {
+  const model = String(req.body.model ?? "gpt-3.5-turbo")
+    .replace(/^azure-/, "")
+    .replace("gpt-35-turbo", "gpt-3.5-turbo");
+  req.body.model = `azure-${model}`;
+};
+
+/**
+ * Same as `limitCompletions`, but the Azure request body is prepared before the
+ * proxy middleware runs, so it has to happen during preprocessing.
+ */
+const limitAzureCompletions: RequestPreprocessor = (req) => {
+  const originalN = req.body.n || 1;
+  req.body.n = Math.min(originalN, config.maxCompletionChoices);
+  if (originalN !== req.body.n) {
+    req.log.warn(
+      `Limiting completion choices from ${originalN} to ${req.body.n}`
+    );
+  }
+};
+
+const azureOpenaiResponseHandler: ProxyResHandlerWithBody = async (
+  _proxyRes,
+  req,
+  res,
+  body
+) => {
+  if (typeof body !== "object") {
+    throw new Error("Expected body to be an object");
+  }
+
+  if (config.promptLogging) {
+    const host = req.get("host");
+    body.proxy_note = `Prompts are logged on this proxy instance. See ${host} for more information.`;
+  }
+
+  // Azure completes normally when its content filter truncates a response,
+  // so let the user know why the completion was cut short.
+  if (body.choices?.[0]?.finish_reason === "content_filter") {
+    body.proxy_note = `Azure's content filter stopped the completion early.`;
+  }
+
+  if (req.debug) {
+    body.proxy_tokenizer_debug_info = req.debug;
+  }
+
+  res.status(200).json(body);
+};
+
+const azureOpenAIProxy = createQueueMiddleware({
+  beforeProxy: addAzureKey,
+  proxyMiddleware: createProxyMiddleware({
+    target: "will be set by router",
+    router: ({ signedRequest }) => {
+      if (!signedRequest) {
+        throw new Error("Must prepare Azure request before proxying");
+      }
+      return `${signedRequest.protocol}//${signedRequest.hostname}`;
+    },
+    changeOrigin: true,
+    selfHandleResponse: true,
+    logger,
+    on: {
+      proxyReq: createOnProxyReqHandler({
+        pipeline: [
+          applyQuotaLimits,
+          languageFilter,
+          blockZoomerOrigins,
+          finalizeSignedRequest,
+        ],
+      }),
+      proxyRes: createOnProxyResHandler([azureOpenaiResponseHandler]),
+      error: handleProxyError,
+    },
+  }),
+});
+
+const azureOpenAIRouter = Router();
+azureOpenAIRouter.get("/v1/models", createModelListHandler("azure"));
+azureOpenAIRouter.post(
+  "/v1/chat/completions",
+  ipLimiter,
+  createPreprocessorMiddleware(
+    { inApi: "openai", outApi: "openai", service: "azure" },
+    { afterTransform: [prefixAzureModel, limitAzureCompletions] }
+  ),
+  azureOpenAIProxy
+);
+
+registerFailoverTarget({
+  models: {
+    "azure-turbo": "gpt-3.5-turbo",
+    "azure-gpt4": "gpt-4",
+    "azure-gpt4-32k": "gpt-4-32k",
+  },
+  endpoints: [
+    {
+      path: "/v1/chat/completions",
+      apiFormat: { inApi: "openai", outApi: "openai", service: "azure" },
+      options: { afterTransform: [prefixAzureModel, limitAzureCompletions] },
+    },
+  ],
+  proxy: azureOpenAIProxy,
+});
+
+export const azure = azureOpenAIRouter;
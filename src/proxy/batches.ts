@@ -0,0 +1,367 @@
+/**
+ * Batch API, for submitting large sets of requests such as evaluation runs
+ * without having to throttle them client-side.
+ *
+ * `POST /proxy/batches?endpoint=/openai/v1/chat/completions` accepts a JSONL
+ * body (`Content-Type: application/jsonl`) with one request per line, either
+ * as the request body itself or as `{ "custom_id": "", "body": {} }`. Each
+ * batch sends its requests one at a time over loopback, so they go through the
+ * same preprocessing and quota checks as any other request and usage is
+ * charged per request. Batch requests wait at the back of the queue and only
+ * leave it when no interactive requests are waiting for the same model. Each
+ * user may have up to `MAX_ACTIVE_BATCHES` unfinished batches.
+ *
+ * - `GET /proxy/batches/:id` returns the batch's progress and the status of
+ *   each request.
+ * - `GET /proxy/batches/:id/results` downloads the results as JSONL.
+ * - `DELETE /proxy/batches/:id` cancels the requests which haven't run yet.
+ *
+ * Results are kept for `BATCH_TTL` seconds after the batch finishes. Batches
+ * are only kept in memory, so they don't survive a restart; when the server
+ * shuts down, the requests already in progress are given time to finish but
+ * no further requests are sent.
+ */
+import express, { Request, RequestHandler, Response } from "express";
+import type { ClientRequest } from "http";
+import { v4 } from "uuid";
+import { config } from "../config";
+import { logger } from "../logger";
+import { authorize, getProxyToken } from "./gatekeeper";
+import { readLoopbackResponse, sendLoopbackRequest } from "./loopback";
+
+const DEFAULT_ENDPOINT = "/openai/v1/chat/completions";
+const JSONL_TYPES = ["application/jsonl", "application/x-ndjson", "text/plain"];
+
+type BatchItemStatus =
+  | "pending"
+  | "in_progress"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+type BatchItem = {
+  index: number;
+  customId?: string;
+  body: Record<string, any>;
+  status: BatchItemStatus;
+  statusCode?: number;
+  response?: unknown;
+};
+
+type Batch = {
+  id: string;
+  /** The submitter's credentials, used to send each of the batch's requests. */
+  token?: string;
+  /** The submitter's user token, if any. Only they may access the batch. */
+  userToken?: string;
+  ip: string;
+  endpoint: string;
+  createdAt: number;
+  finishedAt?: number;
+  items: BatchItem[];
+  /** The request currently being sent, if any. */
+  active?: ClientRequest;
+};
+
+const log = logger.child({ module: "batches" });
+const batches = new Map<string, Batch>();
+let draining = false;
+
+setInterval(pruneExpiredBatches, 60 * 1000);
+
+/**
+ * Parses JSONL request bodies for batch submissions. The proxy router's JSON
+ * parser leaves these alone as they use a different content type.
+ */
+export const parseBatchBody = express.text({
+  type: JSONL_TYPES,
+  limit: "50mb",
+});
+
+/**
+ * Authorizes batch submissions before their bodies are parsed. Must run before
+ * the gatekeeper, which removes the client's credentials from the request.
+ */
+export const authorizeBatch: RequestHandler = (req, res, next) => {
+  const result = authorize(getProxyToken(req), req.ip);
+  if (!result.authorized) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  if (result.user) {
+    req.user = result.user;
+  }
+  next();
+};
+
+/** Creates a batch from a JSONL body. */
+export const submitBatch: RequestHandler = (req, res) => {
+  pruneExpiredBatches();
+  const userToken = req.user?.token;
+  const activeBatches = [...batches.values()].filter(
+    (batch) =>
+      !batch.finishedAt &&
+      (userToken ? batch.userToken === userToken : batch.ip === req.ip)
+  );
+  if (activeBatches.length >= config.maxActiveBatches) {
+    return sendError(
+      res,
+      429,
+      `You may only run ${config.maxActiveBatches} batch(es) at a time. Wait for your current batches to finish or cancel them.`
+    );
+  }
+
+  const endpoint = String(req.query.endpoint ?? DEFAULT_ENDPOINT);
+  if (!endpoint.startsWith("/") || endpoint.startsWith("/batches")) {
+    return sendError(res, 400, "`endpoint` must be the path of an endpoint.");
+  }
+  if (typeof req.body !== "string") {
+    const types = JSONL_TYPES.join(", ");
+    return sendError(res, 400, `Batches must be sent as one of: ${types}.`);
+  }
+
+  let items: BatchItem[];
+  try {
+    items = parseItems(req.body);
+  } catch (error) {
+    return sendError(res, 400, error.message);
+  }
+  if (items.length === 0) {
+    return sendError(res, 400, "The batch doesn't contain any requests.");
+  }
+  if (items.length > config.maxBatchSize) {
+    return sendError(
+      res,
+      400,
+      `Batches may contain at most ${config.maxBatchSize} requests.`
+    );
+  }
+
+  const batch: Batch = {
+    id: v4(),
+    token: getProxyToken(req),
+    userToken,
+    ip: req.ip,
+    endpoint,
+    createdAt: Date.now(),
+    items,
+  };
+  batches.set(batch.id, batch);
+  log.info(
+    { batch: batch.id, ip: req.ip, endpoint, items: items.length },
+    "Batch submitted."
+  );
+
+  runNextItem(batch);
+  res
+    .status(202)
+    .location(`/proxy/batches/${batch.id}`)
+    .json(getBatchInfo(batch));
+};
+
+export const handleBatchRequest: RequestHandler = (req, res) => {
+  const batch = findBatch(req, res);
+  if (!batch) return;
+
+  res.json({
+    ...getBatchInfo(batch),
+    items: batch.items.map((item) => ({
+      index: item.index,
+      custom_id: item.customId,
+      status: item.status,
+      status_code: item.statusCode,
+    })),
+  });
+};
+
+export const handleBatchResults: RequestHandler = (req, res) => {
+  const batch = findBatch(req, res);
+  if (!batch) return;
+
+  const lines = batch.items.map((item) =>
+    JSON.stringify({
+      index: item.index,
+      custom_id: item.customId,
+      status: item.status,
+      response:
+        item.statusCode === undefined
+          ? undefined
+          : { status_code: item.statusCode, body: item.response },
+    })
+  );
+  res
+    .attachment(`batch-${batch.id}.jsonl`)
+    .type("application/jsonl")
+    .send(lines.join("\n") + "\n");
+};
+
+export const cancelBatch: RequestHandler = (req, res) => {
+  const batch = findBatch(req, res);
+  if (!batch) return;
+
+  if (!batch.finishedAt) {
+    log.info({ batch: batch.id }, "Cancelling batch.");
+    for (const item of batch.items) {
+      if (item.status === "pending" || item.status === "in_progress") {
+        item.status = "cancelled";
+      }
+    }
+    batch.active?.destroy();
+    finishBatch(batch);
+  }
+  res.json(getBatchInfo(batch));
+};
+
+function parseItems(body: string): BatchItem[] {
+  const items: BatchItem[] = [];
+  body.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (!line.trim()) return;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${lineIndex + 1} is not valid JSON.`);
+    }
+    if (typeof parsed !== "object" || parsed === null) {
+      throw new Error(`Line ${lineIndex + 1} is not a JSON object.`);
+    }
+
+    const wrapped = typeof parsed.body === "object" && parsed.body !== null;
+    items.push({
+      index: items.length,
+      customId: wrapped ? parsed.custom_id?.toString() : undefined,
+      body: wrapped ? parsed.body : parsed,
+      status: "pending",
+    });
+  });
+  return items;
+}
+
+/**
+ * Stops sending batch requests and waits up to `gracePeriod` milliseconds for
+ * those in progress to finish, e.g. before the server exits.
+ */
+export async function drainBatches(gracePeriod: number) {
+  draining = true;
+  const deadline = Date.now() + gracePeriod;
+  const isActive = () => [...batches.values()].some((batch) => batch.active);
+  while (isActive() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  const unfinished = [...batches.values()].filter((b) => !b.finishedAt);
+  if (unfinished.length > 0) {
+    log.warn(
+      { batches: unfinished.length },
+      "Discarding unfinished batches on shutdown."
+    );
+  }
+}
+
+/** Sends the batch's next pending request, or finishes the batch. */
+function runNextItem(batch: Batch) {
+  // Requests sent during shutdown would only be rejected.
+  if (draining) return;
+
+  const item = batch.items.find((i) => i.status === "pending");
+  if (!item) return finishBatch(batch);
+
+  item.status = "in_progress";
+  const { request } = sendLoopbackRequest({
+    path: `/proxy${batch.endpoint}`,
+    body: { ...item.body, stream: false },
+    ip: batch.ip,
+    token: batch.token,
+    // Batch requests can wait as long as it takes for the queue to clear.
+    maxQueueTime: Infinity,
+    isBatchRequest: true,
+  });
+  batch.active = request;
+
+  const complete = (statusCode: number, response: unknown) => {
+    // Cancelled while in flight.
+    if (item.status !== "in_progress") return;
+    item.status = statusCode < 400 ? "completed" : "failed";
+    item.statusCode = statusCode;
+    item.response = response;
+    batch.active = undefined;
+    runNextItem(batch);
+  };
+
+  const fail = (error: Error) => {
+    log.warn(
+      { batch: batch.id, item: item.index, error: error.message },
+      "Batch request failed."
+    );
+    complete(502, { error: { type: "proxy_error", message: error.message } });
+  };
+
+  request.on("response", (res) => {
+    readLoopbackResponse(res)
+      .then((response) => complete(res.statusCode ?? 500, response))
+      .catch(fail);
+  });
+  request.on("error", fail);
+}
+
+function finishBatch(batch: Batch) {
+  if (batch.finishedAt) return;
+  batch.finishedAt = Date.now();
+  batch.active = undefined;
+  log.info({ batch: batch.id, ...countItems(batch) }, "Batch finished.");
+}
+
+function findBatch(req: Request, res: Response) {
+  pruneExpiredBatches();
+  const batch = batches.get(req.params.id);
+  if (!batch || (batch.userToken && batch.userToken !== req.user?.token)) {
+    sendError(res, 404, "Batch not found or expired.");
+    return undefined;
+  }
+  return batch;
+}
+
+function getBatchInfo(batch: Batch) {
+  const cancelled = batch.items.some((item) => item.status === "cancelled");
+  const ttl = config.batchTtl * 1000;
+  return {
+    id: batch.id,
+    object: "proxy.batch",
+    endpoint: batch.endpoint,
+    status: batch.finishedAt
+      ? cancelled
+        ? "cancelled"
+        : "completed"
+      : "in_progress",
+    created: Math.floor(batch.createdAt / 1000),
+    finished: batch.finishedAt && Math.floor(batch.finishedAt / 1000),
+    expires_at: batch.finishedAt && Math.floor((batch.finishedAt + ttl) / 1000),
+    counts: countItems(batch),
+    url: `/proxy/batches/${batch.id}`,
+    results_url: `/proxy/batches/${batch.id}/results`,
+  };
+}
+
+function countItems(batch: Batch) {
+  const counts: Record<BatchItemStatus | "total", number> = {
+    total: batch.items.length,
+    pending: 0,
+    in_progress: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  batch.items.forEach((item) => counts[item.status]++);
+  return counts;
+}
+
+function pruneExpiredBatches() {
+  const cutoff = Date.now() - config.batchTtl * 1000;
+  for (const [id, batch] of batches) {
+    if (batch.finishedAt && batch.finishedAt < cutoff) batches.delete(id);
+  }
+}
+
+function sendError(res: Response, status: number, message: string) {
+  res.status(status).json({ error: { type: "proxy_error", message } });
+}
@@ -1,33 +1,37 @@
 import { config } from "../config";
 import { RequestHandler } from "express";
+import type { IncomingHttpHeaders } from "http";
 
 const BLOCKED_REFERERS = config.blockedOrigins?.split(",") || [];
 
+/** Whether the request comes from a blocked origin or referer. */
+export function isBlockedOrigin(headers: IncomingHttpHeaders) {
+  return BLOCKED_REFERERS.some(
+    (block) =>
+      headers.origin?.includes(block) || headers.referer?.includes(block)
+  );
+}
+
 /** Disallow requests from blocked origins and referers. */
 export const checkOrigin: RequestHandler = (req, res, next) => {
-  const blocks = BLOCKED_REFERERS || [];
-  for (const block of blocks) {
-    if (
-      req.headers.origin?.includes(block) ||
-      req.headers.referer?.includes(block)
-    ) {
-      req.log.warn(
-        { origin: req.headers.origin, referer: req.headers.referer },
-        "Blocked request from origin or referer"
-      );
+  if (!isBlockedOrigin(req.headers)) return next();
+
+  req.log.warn(
+    { origin: req.headers.origin, referer: req.headers.referer },
+    "Blocked request from origin or referer"
+  );
 
-      // VenusAI requests incorrectly say they accept HTML despite immediately
-      // trying to parse the response as JSON, so we check the body type instead
-      const hasJsonBody =
-        req.headers["content-type"]?.includes("application/json");
-      if (!req.accepts("html") || hasJsonBody) {
-        return res.status(403).json({
-          error: { type: "blocked_origin", message: config.blockMessage },
-        });
-      } else {
-        const destination = config.blockRedirect || "https://openai.com";
-        return res.status(403).send(
-          `<html>
+  // VenusAI requests incorrectly say they accept HTML despite immediately
+  // trying to parse the response as JSON, so we check the body type instead
+  const hasJsonBody = req.headers["content-type"]?.includes("application/json");
+  if (!req.accepts("html") || hasJsonBody) {
+    return res.status(403).json({
+      error: { type: "blocked_origin", message: config.blockMessage },
+    });
+  } else {
+    const destination = config.blockRedirect || "https://openai.com";
+    return res.status(403).send(
+      `<html>
 <head>
   <title>Redirecting</title>
   <meta http-equiv="refresh" content="3; url=${destination}" />
@@ -37,9 +41,6 @@ export const checkOrigin: RequestHandler = (req, res, next) => {
 <p><strong>Please hold while you are redirected to a more suitable service.</strong></p>
 </body>
 </html>`
-        );
-      }
-    }
+    );
   }
-  next();
 };
@@ -0,0 +1,127 @@
+/**
+ * Coalesces duplicate requests, such as those sent when a frontend submits the
+ * same prompt twice. If a request arrives while an identical request from the
+ * same client is still queued or in flight, the new request isn't sent
+ * upstream; instead, everything written to the original request's response is
+ * mirrored to it, including any parts of a stream that were already sent.
+ */
+import type { Request, Response } from "express";
+import { buildFakeSse } from "../shared/streaming";
+import { getRequestHash, wantsStream } from "./middleware/response-cache";
+
+type InFlightRequest = {
+  req: Request;
+  followers: Response[];
+  /** Everything written to the original response so far. */
+  chunks: (string | Buffer)[];
+};
+
+const inFlight = new Map<string, InFlightRequest>();
+const leaders = new WeakSet<Request>();
+
+/**
+ * Attaches the request to an identical in-flight request from the same client
+ * and returns true, or registers it so that later duplicates can attach to it
+ * and returns false.
+ */
+export function coalesceRequest(req: Request, identifier: string) {
+  // Requests rerouted by failover pass through the queue middleware again.
+  if (leaders.has(req)) return false;
+
+  const key = [identifier, wantsStream(req), getRequestHash(req)].join(":");
+  const existing = inFlight.get(key);
+  if (existing) {
+    attachFollower(existing, req);
+    return true;
+  }
+
+  const entry: InFlightRequest = { req, followers: [], chunks: [] };
+  inFlight.set(key, entry);
+  leaders.add(req);
+  mirrorResponse(entry, () => {
+    if (inFlight.get(key) === entry) inFlight.delete(key);
+  });
+  return false;
+}
+
+function attachFollower(entry: InFlightRequest, req: Request) {
+  const res = req.res!;
+  req.log.info(
+    { leader: entry.req.id, buffered: entry.chunks.length },
+    "Attaching duplicate request to identical in-flight request."
+  );
+
+  entry.followers.push(res);
+  res.on("close", () => {
+    entry.followers = entry.followers.filter((f) => f !== res);
+  });
+
+  const leaderRes = entry.req.res!;
+  if (leaderRes.headersSent) {
+    copyHeaders(leaderRes, res);
+    entry.chunks.forEach((chunk) => res.write(chunk));
+  }
+}
+
+/**
+ * Wraps the original response's write and end methods so that its followers
+ * receive the same status, headers and body.
+ */
+function mirrorResponse(entry: InFlightRequest, onDone: () => void) {
+  const res = entry.req.res!;
+
+  // `end` may be called with only a callback, or nothing at all.
+  const forward = (chunk: unknown) => {
+    if (typeof chunk !== "string" && !Buffer.isBuffer(chunk)) return;
+    entry.chunks.push(chunk);
+    for (const follower of entry.followers) {
+      copyHeaders(res, follower);
+      follower.write(chunk);
+    }
+  };
+
+  const write = res.write.bind(res);
+  res.write = ((...args: Parameters<Response["write"]>) => {
+    forward(args[0]);
+    return write(...args);
+  }) as typeof res.write;
+
+  const end = res.end.bind(res);
+  res.end = ((...args: Parameters<Response["end"]>) => {
+    forward(args[0]);
+    for (const follower of entry.followers) {
+      copyHeaders(res, follower);
+      follower.end();
+    }
+    entry.followers = [];
+    onDone();
+    return end(...args);
+  }) as typeof res.end;
+
+  // If the original client disconnects, its request is abandoned and will
+  // never finish, so its followers have to be told to retry.
+  res.on("close", () => {
+    onDone();
+    const message =
+      "The identical request this one was attached to was cancelled. Please try again.";
+    for (const follower of entry.followers) {
+      if (follower.headersSent) {
+        follower.write(buildFakeSse("proxy error", message, entry.req));
+        follower.end();
+      } else {
+        follower.status(500).json({ error: { type: "proxy_error", message } });
+      }
+    }
+    entry.followers = [];
+  });
+}
+
+function copyHeaders(from: Response, to: Response) {
+  if (to.headersSent) return;
+  to.status(from.statusCode);
+  for (const [name, value] of Object.entries(from.getHeaders())) {
+    if (value !== undefined) to.setHeader(name, value);
+  }
+  to.setHeader("x-proxy-coalesced", "true");
+  to.flushHeaders();
+}
@@ -0,0 +1,232 @@
+/**
+ * Reroutes queued requests to another service when no keys are available for
+ * the model family they requested. Operators configure chains of equivalent
+ * families with `FAILOVER_CHAINS`, and each service router registers the
+ * endpoints which can accept rerouted requests. A rerouted request is prepared
+ * again from the body the client originally sent, as if it had been sent to
+ * the other service's endpoint, and then re-enqueued in that service's queue.
+ *
+ * The same endpoints also receive requests which the model routing table sends
+ * on to another service.
+ */
+import { Handler, Request } from "express";
+import { config } from "../config";
+import { logger } from "../logger";
+import { LLMService } from "../shared/key-management";
+import {
+  getAwsBedrockModelFamily,
+  MODEL_FAMILIES,
+  ModelFamily,
+} from "../shared/models";
+import { classifyErrorAndSend } from "./middleware/common";
+import {
+  getPreprocessors,
+  RequestPreprocessorOptions,
+  setApiFormat,
+} from "./middleware/request";
+import { getAvailableModelFamilies } from "./models";
+
+export type FailoverTarget = {
+  /** Model to request for each family the target can serve. */
+  models: Partial<Record<ModelFamily, string>>;
+  /** The target's endpoints, one per inbound API format it accepts. */
+  endpoints: {
+    /** Path of the endpoint, relative to its service's router. */
+    path: string;
+    apiFormat: Parameters<typeof setApiFormat>[0];
+    options?: RequestPreprocessorOptions;
+  }[];
+  /** The service's queue middleware. */
+  proxy: Handler;
+};
+
+type FailoverEndpoint = FailoverTarget["endpoints"][number];
+
+const log = logger.child({ module: "failover" });
+const targets: FailoverTarget[] = [];
+let chains: ModelFamily[][] | null = null;
+
+export function registerFailoverTarget(target: FailoverTarget) {
+  targets.push(target);
+}
+
+function getFailoverChains() {
+  if (!chains) {
+    chains = config.failoverChains.map((chain) => {
+      const families = chain.split(">").map((f) => f.trim());
+      const unknown = families.filter(
+        (f) => !MODEL_FAMILIES.includes(f as ModelFamily)
+      );
+      if (unknown.length) {
+        log.warn({ chain, unknown }, "Ignoring unknown families in chain.");
+      }
+      return families.filter((f): f is ModelFamily => !unknown.includes(f));
+    });
+  }
+  return chains;
+}
+
+/** Returns the families to try after the given one, in order of preference. */
+function getFallbackFamilies(family: ModelFamily) {
+  const fallbacks = getFailoverChains().flatMap((chain) => {
+    const index = chain.indexOf(family);
+    return index === -1 ? [] : chain.slice(index + 1);
+  });
+  return [...new Set(fallbacks)];
+}
+
+function findTarget(req: Request, family: ModelFamily) {
+  const fallbacks = getFallbackFamilies(family);
+  if (!fallbacks.length) return;
+
+  const available = getAvailableModelFamilies();
+  if (available.has(family)) return;
+
+  for (const fallback of fallbacks.filter((f) => available.has(f))) {
+    for (const target of targets) {
+      const model = target.models[fallback];
+      const endpoint = target.endpoints.find(
+        (e) => e.apiFormat.inApi === req.inboundApi
+      );
+      if (model && endpoint) {
+        return { family: fallback, model, endpoint, proxy: target.proxy };
+      }
+    }
+  }
+}
+
+/**
+ * Finds the endpoint of the given service which accepts the request's format.
+ * AWS registers a target per model family, since each uses its own API format.
+ */
+function findServiceTarget(req: Request, service: LLMService, model: string) {
+  for (const target of targets) {
+    const endpoint = target.endpoints.find(
+      (e) =>
+        e.apiFormat.service === service && e.apiFormat.inApi === req.inboundApi
+    );
+    if (!endpoint) continue;
+    if (
+      service === "aws" &&
+      !(getAwsBedrockModelFamily(model) in target.models)
+    ) {
+      continue;
+    }
+    return { endpoint, proxy: target.proxy };
+  }
+}
+
+/**
+ * Whether the request can be sent on to the given service by the model
+ * routing table. Requests are only sent on once, so that rules can't send
+ * them back and forth.
+ */
+export function canRouteToService(
+  req: Request,
+  service: LLMService,
+  model: string
+) {
+  return (
+    !req.rerouted &&
+    Boolean(req.inboundBody) &&
+    Boolean(findServiceTarget(req, service, model))
+  );
+}
+
+/**
+ * Prepares a request which the model routing table sent to another service as
+ * if it had been sent to that service's endpoint, and returns the service's
+ * queue middleware to pass it to.
+ */
+export async function prepareServiceRoute(req: Request) {
+  const { service, model } = req.serviceRoute!;
+  const target = findServiceTarget(req, service, model)!;
+  req.serviceRoute = undefined;
+  req.log.info(
+    { from: req.service, to: service, model },
+    "Routing request to another service."
+  );
+  await prepareForEndpoint(req, model, target.endpoint);
+  return target.proxy;
+}
+
+/**
+ * Transforms the body the client originally sent for the given endpoint,
+ * running its preprocessors as if the request were new.
+ */
+async function prepareForEndpoint(
+  req: Request,
+  model: string,
+  endpoint: FailoverEndpoint
+) {
+  req.body = JSON.parse(JSON.stringify(req.inboundBody));
+  req.body.model = model;
+  req.url = endpoint.path;
+  req.rerouted = true;
+  req.retryCount = 0;
+  req.fanOut = undefined;
+  req.toolEmulation = undefined;
+  req.emulateStreaming = undefined;
+  req.emulatedStops = undefined;
+
+  const { apiFormat, options } = endpoint;
+  for (const preprocessor of getPreprocessors(apiFormat, options)) {
+    await preprocessor(req);
+  }
+}
+
+/**
+ * If the request's model family has no keys available but another family in
+ * its failover chain does, reroutes the request to that family's service and
+ * returns true. The request is re-enqueued, or rejected if it can't be
+ * prepared for the other service (e.g. because the prompt is too long).
+ */
+export async function maybeFailover(req: Request, family: ModelFamily) {
+  if (!req.inboundBody) return false;
+
+  const target = findTarget(req, family);
+  if (!target) return false;
+
+  const res = req.res!;
+  req.log.info(
+    { from: family, to: target.family, model: target.model },
+    "No keys available for model family; failing over to another service."
+  );
+
+  try {
+    await prepareForEndpoint(req, target.model, target.endpoint);
+  } catch (error) {
+    req.log.warn({ error: error.message }, "Failed to prepare failover.");
+    classifyErrorAndSend(error, req, res);
+    return true;
+  }
+
+  addFailoverNote(req, family, target.family);
+  target.proxy(req, res, (error?: any) => {
+    if (error) classifyErrorAndSend(error, req, res);
+  });
+  return true;
+}
+
+/**
+ * Tells the client which family served the request. Streaming responses have
+ * already started by this point, so the note is sent as an SSE comment.
+ */
+function addFailoverNote(req: Request, from: ModelFamily, to: ModelFamily) {
+  const note = `No keys were available for ${from}, so your request was served by ${to} instead.`;
+  const res = req.res!;
+
+  if (res.headersSent) {
+    if (!req.query.badSseParser) res.write(`: proxy_note: ${note}\n\n`);
+    return;
+  }
+
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (body && typeof body === "object") {
+      const existing = body.proxy_note;
+      body.proxy_note = existing ? `${note} ${existing}` : note;
+    }
+    return json(body);
+  };
+}
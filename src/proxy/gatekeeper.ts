@@ -1,66 +1,97 @@
 import type { Request, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import { config } from "../config";
 import { authenticate, getUser } from "../shared/users/user-store";
+import type { User } from "../shared/users/schema";
 
 const GATEKEEPER = config.gatekeeper;
 const PROXY_KEY = config.proxyKey;
 const ADMIN_KEY = config.adminKey;
 
-function getProxyAuthorizationFromRequest(req: Request): string | undefined {
+/**
+ * Returns the proxy key or user token sent with a request, without removing it
+ * from the request's headers.
+ */
+export function getProxyToken(req: IncomingMessage): string | undefined {
   // Anthropic's API uses x-api-key instead of Authorization.  Some clients will
   // pass the _proxy_ key in this header too, instead of providing it as a
   // Bearer token in the Authorization header.  So we need to check both.
   // Prefer the Authorization header if both are present.
 
   if (req.headers.authorization) {
-    const token = req.headers.authorization?.slice("Bearer ".length);
-    delete req.headers.authorization;
-    return token;
+    return req.headers.authorization.slice("Bearer ".length);
   }
 
   if (req.headers["x-api-key"]) {
-    const token = req.headers["x-api-key"]?.toString();
-    delete req.headers["x-api-key"];
-    return token;
+    return req.headers["x-api-key"].toString();
   }
 
   return undefined;
 }
 
-export const gatekeeper: RequestHandler = (req, res, next) => {
-  const token = getProxyAuthorizationFromRequest(req);
+function getProxyAuthorizationFromRequest(req: Request): string | undefined {
+  const token = getProxyToken(req);
+  delete req.headers.authorization;
+  delete req.headers["x-api-key"];
+  return token;
+}
+
+type AuthorizationResult =
+  | { authorized: true; user?: User }
+  | { authorized: false; status: 401 | 403; error: string };
 
+/**
+ * Checks a proxy key or user token against the gatekeeper's rules. Also used
+ * to authenticate WebSocket connections before they are upgraded.
+ */
+export function authorize(
+  token: string | undefined,
+  ip: string
+): AuthorizationResult {
   // TODO: Generate anonymous users based on IP address for public or proxy_key
   // modes so that all middleware can assume a user of some sort is present.
 
   if (ADMIN_KEY && token === ADMIN_KEY) {
-    return next();
+    return { authorized: true };
   }
 
   if (GATEKEEPER === "none") {
-    return next();
+    return { authorized: true };
   }
 
   if (GATEKEEPER === "proxy_key" && token === PROXY_KEY) {
-    return next();
+    return { authorized: true };
   }
 
   if (GATEKEEPER === "user_token" && token) {
-    const user = authenticate(token, req.ip);
+    const user = authenticate(token, ip);
     if (user) {
-      req.user = user;
-      return next();
+      return { authorized: true, user };
     } else {
       const maybeBannedUser = getUser(token);
       if (maybeBannedUser?.disabledAt) {
-        return res.status(403).json({
+        return {
+          authorized: false,
+          status: 403,
           error: `Forbidden: ${
             maybeBannedUser.disabledReason || "Token disabled"
           }`,
-        });
+        };
       }
     }
   }
 
-  res.status(401).json({ error: "Unauthorized" });
+  return { authorized: false, status: 401, error: "Unauthorized" };
+}
+
+export const gatekeeper: RequestHandler = (req, res, next) => {
+  const token = getProxyAuthorizationFromRequest(req);
+  const result = authorize(token, req.ip);
+  if (!result.authorized) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  if (result.user) {
+    req.user = result.user;
+  }
+  next();
 };
@@ -0,0 +1,166 @@
+import { Request, Router } from "express";
+import * as http from "http";
+import { createProxyMiddleware } from "http-proxy-middleware";
+import { v4 } from "uuid";
+import { config } from "../config";
+import { logger } from "../logger";
+import { registerFailoverTarget } from "./failover";
+import { createModelListHandler } from "./models";
+import { createQueueMiddleware } from "./queue";
+import { ipLimiter } from "./rate-limit";
+import { handleProxyError } from "./middleware/common";
+import { mergeFanOutChoices } from "./middleware/fan-out";
+import {
+  addKey,
+  applyQuotaLimits,
+  blockZoomerOrigins,
+  createOnProxyReqHandler,
+  createPreprocessorMiddleware,
+  finalizeGoogleAIBody,
+  languageFilter,
+  stripHeaders,
+} from "./middleware/request";
+import {
+  createOnProxyResHandler,
+  ProxyResHandlerWithBody,
+} from "./middleware/response";
+
+/** Only used for non-streaming requests. */
+const googleAIResponseHandler: ProxyResHandlerWithBody = async (
+  _proxyRes,
+  req,
+  res,
+  body
+) => {
+  if (typeof body !== "object") {
+    throw new Error("Expected body to be an object");
+  }
+
+  if (config.promptLogging) {
+    const host = req.get("host");
+    body.proxy_note = `Prompts are logged on this proxy instance. See ${host} for more information.`;
+  }
+
+  if (req.inboundApi === "openai") {
+    req.log.info("Transforming Google AI response to OpenAI format");
+    body = mergeFanOutChoices(req, body, transformGoogleAIResponse);
+  }
+
+  // TODO: Remove once tokenization is stable
+  if (req.debug) {
+    body.proxy_tokenizer_debug_info = req.debug;
+  }
+
+  res.status(200).json(body);
+};
+
+/**
+ * Transforms a model response from the Google AI API to match those from the
+ * OpenAI API, for users using Gemini via the OpenAI-compatible endpoint. This
+ * is only used for non-streaming requests as streaming requests are handled
+ * on-the-fly.
+ */
+function transformGoogleAIResponse(
+  googleAIBody: Record<string, any>,
+  req: Request
+): Record<string, any> {
+  const totalTokens = (req.promptTokens ?? 0) + (req.outputTokens ?? 0);
+  const candidate = googleAIBody.candidates?.[0];
+  const parts: { text: string }[] = candidate?.content?.parts ?? [];
+  // Prompts blocked by the safety filter have no candidates at all.
+  const blockReason = googleAIBody.promptFeedback?.blockReason;
+  return {
+    id: "gai-" + v4(),
+    object: "chat.completion",
+    created: Date.now(),
+    model: req.body.model,
+    usage: {
+      prompt_tokens: req.promptTokens,
+      completion_tokens: req.outputTokens,
+      total_tokens: totalTokens,
+    },
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: parts.map((p) => p.text).join(""),
+        },
+        finish_reason: blockReason
+          ? "content_filter"
+          : candidate?.finishReason?.toLowerCase() ?? null,
+        index: 0,
+      },
+    ],
+    ...(googleAIBody.proxy_note ? { proxy_note: googleAIBody.proxy_note } : {}),
+  };
+}
+
+function reassignPathForGoogleAIModel(
+  proxyReq: http.ClientRequest,
+  req: Request
+) {
+  // Google AI specifies the model in the URL path, not the request body, and
+  // uses a separate method for streaming.
+
+  // POST https://generativelanguage.googleapis.com/v1beta/{model=models/*}:generateContent
+  // POST https://generativelanguage.googleapis.com/v1beta/{model=models/*}:streamGenerateContent?alt=sse
+
+  const method = req.isStreaming
+    ? "streamGenerateContent?alt=sse"
+    : "generateContent";
+  proxyReq.path = proxyReq.path.replace(
+    /^\/v1\/chat\/completions/,
+    `/v1beta/models/${req.body.model}:${method}`
+  );
+}
+
+const googleAIProxy = createQueueMiddleware({
+  proxyMiddleware: createProxyMiddleware({
+    target: "https://generativelanguage.googleapis.com",
+    changeOrigin: true,
+    selfHandleResponse: true,
+    logger,
+    on: {
+      proxyReq: createOnProxyReqHandler({
+        beforeRewrite: [reassignPathForGoogleAIModel],
+        pipeline: [
+          applyQuotaLimits,
+          addKey,
+          languageFilter,
+          blockZoomerOrigins,
+          stripHeaders,
+          finalizeGoogleAIBody,
+        ],
+      }),
+      proxyRes: createOnProxyResHandler([googleAIResponseHandler]),
+      error: handleProxyError,
+    },
+  }),
+});
+
+const googleAIRouter = Router();
+googleAIRouter.get("/v1/models", createModelListHandler("google-ai"));
+// OpenAI-to-Google AI compatibility endpoint.
+googleAIRouter.post(
+  "/v1/chat/completions",
+  ipLimiter,
+  createPreprocessorMiddleware({
+    inApi: "openai",
+    outApi: "google-ai",
+    service: "google-ai",
+  }),
+  googleAIProxy
+);
+
+registerFailoverTarget({
+  models: { "gemini-pro": "gemini-pro" },
+  endpoints: [
+    {
+      path: "/v1/chat/completions",
+      apiFormat: { inApi: "openai", outApi: "google-ai", service: "google-ai" },
+    },
+  ],
+  proxy: googleAIProxy,
+});
+
+export const googleAI = googleAIRouter;
@@ -0,0 +1,268 @@
+/**
+ * Async job mode, for clients which can't keep a connection open while their
+ * request waits in the queue, such as those on flaky mobile connections.
+ *
+ * A request sent with `X-Proxy-Async: true` is answered immediately with a job
+ * ID, and is replayed against the proxy over loopback so that it keeps its
+ * place in the queue whatever happens to the client's connection. The result
+ * is fetched with `GET /proxy/jobs/:id`:
+ * - for non-streaming requests, this returns `202` with the job's status until
+ *   the job finishes, then the response exactly as the endpoint sent it.
+ * - for streaming requests, this replays the stream from the beginning and
+ *   follows it until the job finishes, so clients can simply reconnect if
+ *   their connection drops.
+ *
+ * `DELETE /proxy/jobs/:id` cancels a job. Results are kept for `ASYNC_JOB_TTL`
+ * seconds after the job finishes. Jobs are only kept in memory, so they and
+ * their results don't survive a restart.
+ */
+import type { Request, RequestHandler, Response } from "express";
+import { v4 } from "uuid";
+import { config } from "../config";
+import { logger } from "../logger";
+import { authorize, getProxyToken } from "./gatekeeper";
+import { sendLoopbackRequest } from "./loopback";
+import { getQueueStatus } from "./queue";
+
+const ASYNC_HEADER = "x-proxy-async";
+
+type JobStatus = "queued" | "processing" | "completed" | "failed";
+
+type Job = {
+  id: string;
+  /** The submitter's user token, if any. Only they may access the job. */
+  userToken?: string;
+  stream: boolean;
+  createdAt: number;
+  finishedAt?: number;
+  statusCode?: number;
+  contentType?: string;
+  /** Everything the endpoint has sent so far. */
+  chunks: Buffer[];
+  /** Clients following the job's response as it is received. */
+  listeners: Set<Response>;
+  /** Clients waiting for the endpoint to start responding. */
+  waiting: Set<Response>;
+  getProxiedRequest: () => Request | undefined;
+  cancel: () => void;
+};
+
+const log = logger.child({ module: "jobs" });
+const jobs = new Map<string, Job>();
+
+setInterval(pruneExpiredJobs, 60 * 1000);
+
+/**
+ * Submits requests sent with `X-Proxy-Async: true` as jobs. Must run before the
+ * gatekeeper, which removes the client's credentials from the request.
+ */
+export const submitAsyncJob: RequestHandler = (req, res, next) => {
+  if (req.method !== "POST" || req.headers[ASYNC_HEADER] !== "true") {
+    return next();
+  }
+
+  pruneExpiredJobs();
+  const result = authorize(getProxyToken(req), req.ip);
+  if (!result.authorized) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  const { stream } = req.body;
+  const { request, getProxiedRequest } = sendLoopbackRequest({
+    path: req.originalUrl,
+    body: req.body,
+    ip: req.ip,
+    // Otherwise the loopback request would be submitted as a job too.
+    headers: { ...req.headers, [ASYNC_HEADER]: undefined },
+    maxQueueTime: config.asyncJobQueueTimeout * 1000,
+  });
+  const job: Job = {
+    id: v4(),
+    userToken: result.user?.token,
+    stream: stream === "true" || stream === true,
+    createdAt: Date.now(),
+    chunks: [],
+    listeners: new Set(),
+    waiting: new Set(),
+    getProxiedRequest,
+    cancel: () => request.destroy(),
+  };
+  jobs.set(job.id, job);
+
+  request.on("response", (proxyRes) => {
+    job.statusCode = proxyRes.statusCode ?? 500;
+    job.contentType = proxyRes.headers["content-type"];
+    job.waiting.forEach((res) => relayJob(job, res));
+    job.waiting.clear();
+
+    proxyRes.on("data", (chunk: Buffer) => {
+      // Heartbeats are only useful to clients which are currently connected.
+      if (!chunk.toString().startsWith(": queue heartbeat")) {
+        job.chunks.push(chunk);
+      }
+      job.listeners.forEach((res) => res.write(chunk));
+    });
+    proxyRes.on("end", () => finishJob(job));
+    proxyRes.on("error", () => finishJob(job));
+  });
+  request.on("error", (error) => {
+    if (job.finishedAt) return;
+    if (job.statusCode === undefined) {
+      job.statusCode = 502;
+      job.contentType = "application/json";
+      const body = { error: { type: "proxy_error", message: error.message } };
+      job.chunks.push(Buffer.from(JSON.stringify(body)));
+      job.waiting.forEach((res) => relayJob(job, res));
+      job.waiting.clear();
+    }
+    log.warn({ job: job.id, error: error.message }, "Async job failed.");
+    finishJob(job);
+  });
+
+  log.info(
+    { job: job.id, ip: req.ip, path: req.originalUrl },
+    "Job submitted."
+  );
+  res.status(202).location(`/proxy/jobs/${job.id}`).json(getJobInfo(job));
+};
+
+export const handleJobRequest: RequestHandler = (req, res) => {
+  const job = findJob(req, res);
+  if (!job) return;
+
+  if (job.stream) {
+    if (job.statusCode === undefined) {
+      job.waiting.add(res);
+      res.on("close", () => job.waiting.delete(res));
+    } else {
+      relayJob(job, res);
+    }
+  } else if (job.finishedAt) {
+    relayJob(job, res);
+  } else {
+    res.status(202).json(getJobInfo(job));
+  }
+};
+
+export const cancelJob: RequestHandler = (req, res) => {
+  const job = findJob(req, res);
+  if (!job) return;
+
+  if (!job.finishedAt) {
+    log.info({ job: job.id }, "Cancelling async job.");
+    job.cancel();
+    finishJob(job);
+  }
+  jobs.delete(job.id);
+  res.status(204).end();
+};
+
+function findJob(req: Request, res: Response) {
+  pruneExpiredJobs();
+  const job = jobs.get(req.params.id);
+  if (!job || (job.userToken && job.userToken !== req.user?.token)) {
+    res.status(404).json({
+      error: { type: "proxy_error", message: "Job not found or expired." },
+    });
+    return undefined;
+  }
+  return job;
+}
+
+/**
+ * Sends the job's response so far to a client, then keeps it updated until
+ * the job finishes.
+ */
+function relayJob(job: Job, res: Response) {
+  res.status(job.statusCode!);
+  if (job.contentType) res.setHeader("content-type", job.contentType);
+  if (job.contentType?.includes("text/event-stream")) {
+    res.setHeader("cache-control", "no-cache");
+    res.setHeader("x-accel-buffering", "no");
+  }
+  res.setHeader("x-proxy-job-id", job.id);
+  res.flushHeaders();
+  job.chunks.forEach((chunk) => res.write(chunk));
+
+  if (job.finishedAt) {
+    res.end();
+  } else {
+    job.listeners.add(res);
+    res.on("close", () => job.listeners.delete(res));
+  }
+}
+
+function finishJob(job: Job) {
+  if (job.finishedAt) return;
+  job.finishedAt = Date.now();
+  job.listeners.forEach((res) => res.end());
+  job.listeners.clear();
+  // Cancelled before the endpoint responded.
+  job.waiting.forEach((res) =>
+    res.status(410).json({
+      error: { type: "proxy_error", message: "The job was cancelled." },
+    })
+  );
+  job.waiting.clear();
+  log.info(
+    { job: job.id, status: job.statusCode, chunks: job.chunks.length },
+    "Async job finished."
+  );
+}
+
+function getJobInfo(job: Job) {
+  const ttl = config.asyncJobTtl * 1000;
+  const info: Record<string, unknown> = {
+    id: job.id,
+    object: "proxy.job",
+    status: getJobStatus(job),
+    created: Math.floor(job.createdAt / 1000),
+    url: `/proxy/jobs/${job.id}`,
+  };
+  const proxied = job.getProxiedRequest();
+  const queueStatus = proxied ? getQueueStatus(proxied) : undefined;
+  if (queueStatus) {
+    info.queue_position = queueStatus.position;
+    info.estimated_wait = Math.round(queueStatus.estimatedWait / 1000);
+  }
+  if (job.finishedAt) {
+    info.expires_at = Math.floor((job.finishedAt + ttl) / 1000);
+  }
+  return info;
+}
+
+function getJobStatus(job: Job): JobStatus {
+  if (job.finishedAt) {
+    return (job.statusCode ?? 500) < 400 ? "completed" : "failed";
+  }
+  const proxied = job.getProxiedRequest();
+  if (!proxied || getQueueStatus(proxied)) return "queued";
+  return "processing";
+}
+
+/**
+ * Waits up to `gracePeriod` milliseconds for submitted jobs to finish, e.g.
+ * before the server exits. Queued jobs are rejected by the draining queue.
+ */
+export async function drainJobs(gracePeriod: number) {
+  const deadline = Date.now() + gracePeriod;
+  const isRunning = () => [...jobs.values()].some((job) => !job.finishedAt);
+  while (isRunning() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  const unfinished = [...jobs.values()].filter((job) => !job.finishedAt);
+  if (unfinished.length > 0) {
+    log.warn(
+      { jobs: unfinished.length },
+      "Discarding unfinished async jobs on shutdown."
+    );
+  }
+}
+
+function pruneExpiredJobs() {
+  const cutoff = Date.now() - config.asyncJobTtl * 1000;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && job.finishedAt < cutoff) jobs.delete(id);
+  }
+}
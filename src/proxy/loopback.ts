@@ -0,0 +1,143 @@
+/**
+ * Replays requests against the proxy's own HTTP endpoints over loopback. Used
+ * by transports which don't hold an HTTP connection open for the client, such
+ * as WebSockets and async jobs, so that their requests go through exactly the
+ * same authentication, preprocessing and queueing as any other request.
+ */
+import type { Request, RequestHandler } from "express";
+import http from "http";
+import type { AddressInfo } from "net";
+import { v4 } from "uuid";
+
+/** Links loopback requests to the caller which sent them. */
+const BIND_HEADER = "x-proxy-loopback-request";
+
+type Binding = {
+  /** The proxy's side of the request, once it has been received. */
+  req?: Request;
+  maxQueueTime?: number;
+  isBatchRequest?: boolean;
+};
+
+type LoopbackRequestOptions = {
+  /** Path of the endpoint, including the `/proxy` prefix. */
+  path: string;
+  body: Record<string, any>;
+  /** IP address of the client the request is sent on behalf of. */
+  ip: string;
+  /** The client's proxy key or user token, unless included in `headers`. */
+  token?: string;
+  /** Headers from the client's request to pass on. */
+  headers?: http.IncomingHttpHeaders;
+  /** Overrides how long the request may wait in the queue, in milliseconds. */
+  maxQueueTime?: number;
+  /** Whether the request is part of a batch and should be deprioritized. */
+  isBatchRequest?: boolean;
+};
+
+/** Headers which apply to the client's connection rather than the request. */
+const CONNECTION_HEADERS = [
+  "host",
+  "connection",
+  "content-length",
+  "content-type",
+  "transfer-encoding",
+  "expect",
+];
+
+const bindings = new Map<string, Binding>();
+let port: number;
+
+export function initLoopback(server: http.Server) {
+  server.on("listening", () => {
+    port = (server.address() as AddressInfo).port;
+  });
+}
+
+/**
+ * Links a loopback request to its caller so that the caller can look up the
+ * request's queue position. Must run before the request is enqueued.
+ */
+export const bindLoopbackRequest: RequestHandler = (req, _res, next) => {
+  const id = req.headers[BIND_HEADER]?.toString();
+  delete req.headers[BIND_HEADER];
+  const binding = id ? bindings.get(id) : undefined;
+  if (binding) {
+    binding.req = req;
+    req.maxQueueTime = binding.maxQueueTime;
+    req.isBatchRequest = binding.isBatchRequest;
+  }
+  next();
+};
+
+/**
+ * Sends a JSON request to one of the proxy's endpoints. The caller handles the
+ * response via the returned `ClientRequest`'s events and can destroy it to
+ * abort the request. The proxy treats this like the client disconnecting,
+ * removing the request from the queue or aborting it upstream.
+ */
+export function sendLoopbackRequest(options: LoopbackRequestOptions) {
+  const bindId = v4();
+  bindings.set(bindId, {
+    maxQueueTime: options.maxQueueTime,
+    isBatchRequest: options.isBatchRequest,
+  });
+
+  const body = JSON.stringify(options.body);
+  const request = http.request({
+    host: "127.0.0.1",
+    port,
+    path: options.path,
+    method: "POST",
+    headers: {
+      ...getForwardedHeaders(options),
+      "content-type": "application/json",
+      "content-length": Buffer.byteLength(body),
+      [BIND_HEADER]: bindId,
+    },
+  });
+  request.on("close", () => bindings.delete(bindId));
+  request.end(body);
+
+  return {
+    request,
+    /** Returns the proxy's side of the request, once it has been received. */
+    getProxiedRequest: () => bindings.get(bindId)?.req,
+  };
+}
+
+/**
+ * Reads a loopback response to the end, parsing it as JSON if possible. Used
+ * for non-streaming responses.
+ */
+export function readLoopbackResponse(res: http.IncomingMessage) {
+  return new Promise<unknown>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    res.on("data", (chunk: Buffer) => chunks.push(chunk));
+    res.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(JSON.parse(text));
+      } catch (error) {
+        resolve(text);
+      }
+    });
+    res.on("error", reject);
+  });
+}
+
+/**
+ * Builds the headers for a loopback request. The client's IP address is passed
+ * in `X-Forwarded-For` so that the proxy's per-IP limits still apply.
+ */
+function getForwardedHeaders(options: LoopbackRequestOptions) {
+  const headers: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    if (value !== undefined && !CONNECTION_HEADERS.includes(name)) {
+      headers[name] = value;
+    }
+  }
+  if (options.token) headers.authorization = `Bearer ${options.token}`;
+  headers["x-forwarded-for"] = options.ip;
+  return headers;
+}
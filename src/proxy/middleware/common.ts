@@ -10,6 +10,7 @@ const OPENAI_CHAT_COMPLETION_ENDPOINT = "/v1/chat/completions";
 const OPENAI_TEXT_COMPLETION_ENDPOINT = "/v1/completions";
 const OPENAI_EMBEDDINGS_ENDPOINT = "/v1/embeddings";
 const ANTHROPIC_COMPLETION_ENDPOINT = "/v1/complete";
+const ANTHROPIC_MESSAGES_ENDPOINT = "/v1/messages";
 
 /** Returns true if we're making a request to a completion endpoint. */
 export function isCompletionRequest(req: Request) {
@@ -20,6 +21,7 @@ export function isCompletionRequest(req: Request) {
       OPENAI_CHAT_COMPLETION_ENDPOINT,
       OPENAI_TEXT_COMPLETION_ENDPOINT,
       ANTHROPIC_COMPLETION_ENDPOINT,
+      ANTHROPIC_MESSAGES_ENDPOINT,
     ].some((endpoint) => req.path.startsWith(endpoint))
   );
 }
@@ -116,6 +118,12 @@ function classifyError(err: Error): {
         type: "organization_account_disabled",
         code: "policy_violation",
       };
+    case "UserInputError":
+      return {
+        status: 400,
+        userMessage: err.message,
+        type: "proxy_validation_error",
+      };
     case "QuotaExceededError":
       return {
         status: 429,
@@ -171,13 +179,54 @@ export function getCompletionFromBody(req: Request, body: Record<string, any>) {
         return "";
       }
       return body.completion.trim();
+    case "anthropic-chat":
+      if (!Array.isArray(body.content)) {
+        req.log.error(
+          { body: JSON.stringify(body) },
+          "Received empty Anthropic chat completion"
+        );
+        return "";
+      }
+      return body.content
+        .map((part: { type: string; text?: string }) => part.text ?? "")
+        .join("")
+        .trim();
     case "google-palm":
       return body.candidates[0].output;
+    case "google-ai":
+      // Blocked prompts return no candidates, only `promptFeedback`.
+      return (body.candidates?.[0]?.content?.parts ?? [])
+        .map((part: { text?: string }) => part.text ?? "")
+        .join("");
+    case "aws-llama2":
+      return body.generation;
+    case "aws-titan":
+      return body.results?.[0]?.outputText ?? "";
     default:
       assertNever(format);
   }
 }
 
+/**
+ * Like `getCompletionFromBody`, but returns every choice for APIs which can
+ * return more than one.
+ */
+export function getCompletionsFromBody(
+  req: Request,
+  body: Record<string, any>
+): string[] {
+  switch (req.outboundApi) {
+    case "openai":
+      return body.choices.map(
+        (c: { message: { content: string | null } }) => c.message.content ?? ""
+      );
+    case "openai-text":
+      return body.choices.map((c: { text: string }) => c.text);
+    default:
+      return [getCompletionFromBody(req, body)];
+  }
+}
+
 export function getModelFromBody(req: Request, body: Record<string, any>) {
   const format = req.outboundApi;
   switch (format) {
@@ -185,10 +234,14 @@ export function getModelFromBody(req: Request, body: Record<string, any>) {
     case "openai-text":
       return body.model;
     case "anthropic":
+    case "anthropic-chat":
       // Anthropic confirms the model in the response, but AWS Claude doesn't.
       return body.model || req.body.model;
     case "google-palm":
-      // Google doesn't confirm the model in the response.
+    case "google-ai":
+    case "aws-llama2":
+    case "aws-titan":
+      // Google and AWS don't confirm the model in the response.
       return req.body.model;
     default:
       assertNever(format);
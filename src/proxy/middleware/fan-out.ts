@@ -0,0 +1,178 @@
+/**
+ * Support for requesting multiple completions (OpenAI's `n` parameter) from
+ * APIs which can only return one completion per request. The prepared upstream
+ * request is captured when it is sent for the first choice and then replayed
+ * once for each extra choice, using the same key. The extra responses are
+ * merged into the client's response as additional `choices`.
+ */
+import { Request } from "express";
+import http from "http";
+import https from "https";
+import type { ProxyResHandlerWithBody } from "./response";
+import type { OpenAIChatCompletionStreamEvent } from "./response/streaming";
+
+export type FanOut = {
+  /** Total number of choices requested by the client. */
+  choices: number;
+  /** The upstream request as it was sent for the first choice. */
+  upstream?: UpstreamRequest;
+  /** Raw upstream response bodies for the extra choices that succeeded. */
+  bodies: Record<string, any>[];
+};
+
+type UpstreamRequest = {
+  url: string;
+  method: string;
+  headers: http.OutgoingHttpHeaders;
+  body: string | Buffer;
+};
+
+type OpenAITransformer = (
+  body: Record<string, any>,
+  req: Request
+) => Record<string, any>;
+
+/**
+ * Records the outgoing proxy request so that it can be replayed for the extra
+ * choices. Must run after the request has been finalized.
+ */
+export function captureUpstreamRequest(
+  proxyReq: http.ClientRequest,
+  req: Request
+) {
+  if (!req.fanOut) return;
+  req.fanOut.upstream = {
+    url: `${proxyReq.protocol}//${proxyReq.host}${proxyReq.path}`,
+    method: proxyReq.method,
+    // Compressed responses are decoded by the proxy's response handlers, which
+    // the replayed requests don't go through.
+    headers: { ...proxyReq.getHeaders(), "accept-encoding": "identity" },
+    body: (req as any).rawBody ?? req.signedRequest?.body ?? "",
+  };
+}
+
+/**
+ * Requests the extra choices for a non-streaming request once the first choice
+ * has been received successfully. Extra choices which fail are logged and
+ * left out of the response rather than failing the whole request.
+ */
+export const collectFanOutChoices: ProxyResHandlerWithBody = async (
+  _proxyRes,
+  req
+) => {
+  if (!req.fanOut) return;
+
+  const responses = await sendFanOutRequests(req);
+  const results = await Promise.allSettled(responses.map(readJsonBody));
+  req.fanOut.bodies = results.flatMap((result) => {
+    if (result.status === "fulfilled") return [result.value];
+    req.log.warn({ error: result.reason }, "Discarding invalid extra choice.");
+    return [];
+  });
+  req.log.info(
+    { requested: req.fanOut.choices, received: req.fanOut.bodies.length + 1 },
+    "Collected extra completion choices."
+  );
+};
+
+/**
+ * Streams the extra choices to the client alongside the first one. `pipe` is
+ * called with each extra response stream and its choice index, and resolves
+ * with the aggregated response body once the stream ends.
+ */
+export async function streamFanOutChoices(
+  req: Request,
+  signal: AbortSignal,
+  pipe: (
+    stream: http.IncomingMessage,
+    choiceIndex: number
+  ) => Promise<Record<string, any>>
+) {
+  if (!req.fanOut) return;
+
+  const responses = await sendFanOutRequests(req, signal);
+  const results = await Promise.allSettled(
+    responses.map((stream, i) => pipe(stream, i + 1))
+  );
+  req.fanOut.bodies = results.flatMap((result) => {
+    if (result.status === "fulfilled") return [result.value];
+    req.log.warn({ error: result.reason }, "Extra choice stream failed.");
+    return [];
+  });
+}
+
+/**
+ * Transforms the upstream response and any extra choices to OpenAI format
+ * and merges the choices into a single completion.
+ */
+export function mergeFanOutChoices(
+  req: Request,
+  body: Record<string, any>,
+  transform: OpenAITransformer
+) {
+  const completion = transform(body, req);
+  if (!req.fanOut?.bodies.length) return completion;
+
+  const extraChoices = req.fanOut.bodies.map((b) => transform(b, req).choices);
+  completion.choices = [completion.choices, ...extraChoices]
+    .flat()
+    .map((choice, index) => ({ ...choice, index }));
+  return completion;
+}
+
+/** Reassigns the choice index of a transformed SSE event. */
+export function withChoiceIndex(
+  event: OpenAIChatCompletionStreamEvent,
+  index: number
+): OpenAIChatCompletionStreamEvent {
+  return { ...event, choices: event.choices.map((c) => ({ ...c, index })) };
+}
+
+async function sendFanOutRequests(req: Request, signal?: AbortSignal) {
+  const { choices, upstream } = req.fanOut!;
+  if (!upstream) {
+    throw new Error("Upstream request was not captured for fan-out.");
+  }
+
+  const results = await Promise.allSettled(
+    Array.from({ length: choices - 1 }, () =>
+      sendUpstreamRequest(upstream, signal)
+    )
+  );
+  return results.flatMap((result) => {
+    if (result.status === "rejected") {
+      req.log.warn({ error: result.reason }, "Extra choice request failed.");
+      return [];
+    }
+    const { statusCode } = result.value;
+    if (statusCode! >= 400) {
+      req.log.warn({ statusCode }, "Extra choice request returned an error.");
+      result.value.resume();
+      return [];
+    }
+    return [result.value];
+  });
+}
+
+function sendUpstreamRequest(
+  { url, method, headers, body }: UpstreamRequest,
+  signal?: AbortSignal
+) {
+  return new Promise<http.IncomingMessage>((resolve, reject) => {
+    const client = url.startsWith("https:") ? https : http;
+    const upstreamReq = client.request(url, { method, headers, signal });
+    upstreamReq.on("response", resolve).on("error", reject);
+    // Written separately from `end()` so that Node doesn't add a
+    // content-length header, which would break AWS request signatures.
+    upstreamReq.write(body);
+    upstreamReq.end();
+  });
+}
+
+async function readJsonBody(stream: http.IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString());
+}
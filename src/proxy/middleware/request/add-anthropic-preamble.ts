@@ -11,7 +11,11 @@ export const addAnthropicPreamble: ProxyRequestMiddleware = (
   _proxyReq,
   req
 ) => {
-  if (!isCompletionRequest(req) || req.key?.service !== "anthropic") {
+  if (
+    !isCompletionRequest(req) ||
+    req.key?.service !== "anthropic" ||
+    req.outboundApi !== "anthropic"
+  ) {
     return;
   }
 
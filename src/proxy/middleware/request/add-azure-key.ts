@@ -0,0 +1,56 @@
+import { HttpRequest } from "@smithy/protocol-http";
+import { AzureOpenAIKey, keyPool } from "../../../shared/key-management";
+import { AZURE_API_VERSION } from "../../../shared/key-management/azure/checker";
+import { RequestPreprocessor } from ".";
+
+/**
+ * Assigns an Azure OpenAI key to the request and prepares the outgoing request.
+ * Azure credentials determine both the host (the resource) and the path (the
+ * deployment), so unlike other services this has to happen before the proxy
+ * middleware selects a target.
+ */
+export const addAzureKey: RequestPreprocessor = (req) => {
+  const model = req.body.model;
+  if (!model?.startsWith("azure-")) {
+    throw new Error("Expected Azure model to be prefixed with `azure-`");
+  }
+
+  req.key = keyPool.get(model);
+  req.isStreaming = req.body.stream === true || req.body.stream === "true";
+
+  const [resource, deployment, apiKey] = (req.key as AzureOpenAIKey).key.split(
+    ":"
+  );
+  if (!resource || !deployment || !apiKey) {
+    req.log.error(
+      { key: req.key.hash },
+      "AZURE_CREDENTIALS isn't correctly formatted; refer to the docs"
+    );
+    throw new Error("The key assigned to this request is invalid.");
+  }
+
+  req.log.info(
+    { key: req.key.hash, model, deployment },
+    "Assigned Azure OpenAI key to request"
+  );
+
+  // The deployment determines the model, so Azure doesn't need the (prefixed)
+  // model name we use for routing.
+  const { model: _model, ...strippedParams } = req.body;
+  const body = JSON.stringify(strippedParams);
+  const host = `${resource}.openai.azure.com`;
+
+  req.signedRequest = new HttpRequest({
+    method: "POST",
+    protocol: "https:",
+    hostname: host,
+    path: `/openai/deployments/${deployment}/chat/completions?api-version=${AZURE_API_VERSION}`,
+    headers: {
+      ["host"]: host,
+      ["content-type"]: "application/json",
+      ["content-length"]: String(Buffer.byteLength(body)),
+      ["api-key"]: apiKey,
+    },
+    body,
+  });
+};
@@ -34,25 +34,27 @@ export const addKey: ProxyRequestMiddleware = (proxyReq, req) => {
     throw new Error("You must specify a model with your request.");
   }
 
+  // The model routing table has already replaced the requested model with one
+  // the outbound API accepts, even when translating between API formats.
   if (req.inboundApi === req.outboundApi) {
     assignedKey = keyPool.get(req.body.model);
   } else {
     switch (req.outboundApi) {
-      // If we are translating between API formats we may need to select a model
-      // for the user, because the provided model is for the inbound API.
-      case "anthropic":
-        assignedKey = keyPool.get("claude-v1");
-        break;
       case "google-palm":
-        assignedKey = keyPool.get("text-bison-001");
+        assignedKey = keyPool.get(req.body.model);
         delete req.body.stream;
         break;
+      case "anthropic":
+      case "anthropic-chat":
+      case "google-ai":
       case "openai-text":
-        assignedKey = keyPool.get("gpt-3.5-turbo-instruct");
-        break;
       case "openai":
+        assignedKey = keyPool.get(req.body.model);
+        break;
+      case "aws-llama2":
+      case "aws-titan":
         throw new Error(
-          "OpenAI Chat as an API translation target is not supported"
+          "add-key should not be used for AWS security credentials. Use sign-aws-request instead."
         );
       default:
         assertNever(req.outboundApi);
@@ -74,6 +76,11 @@ export const addKey: ProxyRequestMiddleware = (proxyReq, req) => {
   switch (assignedKey.service) {
     case "anthropic":
       proxyReq.setHeader("X-API-Key", assignedKey.key);
+      // The Messages API rejects requests without a version header.
+      const needsVersion = !req.get("anthropic-version");
+      if (req.outboundApi === "anthropic-chat" && needsVersion) {
+        proxyReq.setHeader("anthropic-version", "2023-06-01");
+      }
       break;
     case "openai":
       const key: OpenAIKey = assignedKey as OpenAIKey;
@@ -89,10 +96,25 @@ export const addKey: ProxyRequestMiddleware = (proxyReq, req) => {
         `?key=${assignedKey.key}`
       );
       break;
+    case "google-ai":
+      // Streaming requests already have a query string (`?alt=sse`).
+      const separator = proxyReq.path.includes("?") ? "&" : "?";
+      proxyReq.path += `${separator}key=${assignedKey.key}`;
+      break;
+    case "openai-compatible":
+      // Self-hosted backends may not require a key.
+      if (assignedKey.key) {
+        proxyReq.setHeader("Authorization", `Bearer ${assignedKey.key}`);
+      }
+      break;
     case "aws":
       throw new Error(
         "add-key should not be used for AWS security credentials. Use sign-aws-request instead."
       );
+    case "azure":
+      throw new Error(
+        "add-key should not be used for Azure OpenAI keys. Use add-azure-key instead."
+      );
     default:
       assertNever(assignedKey.service);
   }
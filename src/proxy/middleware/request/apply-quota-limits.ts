@@ -16,7 +16,11 @@ export const applyQuotaLimits: ProxyRequestMiddleware = (_proxyReq, req) => {
     return;
   }
 
-  const requestedTokens = (req.promptTokens ?? 0) + (req.outputTokens ?? 0);
+  // Fanned-out requests send the prompt upstream once per choice.
+  const choices = req.fanOut?.choices ?? req.body.n ?? 1;
+  const promptCopies = req.fanOut ? choices : 1;
+  const requestedTokens =
+    (req.promptTokens ?? 0) * promptCopies + (req.outputTokens ?? 0) * choices;
   if (!hasAvailableQuota(req.user.token, req.body.model, requestedTokens)) {
     throw new QuotaExceededError(
       "You have exceeded your proxy token quota for this model.",
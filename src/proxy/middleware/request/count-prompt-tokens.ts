@@ -1,48 +1,108 @@
+import { Request } from "express";
 import { RequestPreprocessor } from "./index";
-import { countTokens, OpenAIPromptMessage } from "../../../shared/tokenization";
+import { APIFormat } from "../../../shared/key-management";
+import {
+  AnthropicChatPrompt,
+  countTokens,
+  OpenAIPromptMessage,
+} from "../../../shared/tokenization";
 import { assertNever } from "../../../shared/utils";
+import { GoogleAIChatMessage } from "./transform-outbound-payload";
 
 /**
  * Given a request with an already-transformed body, counts the number of
  * tokens and assigns the count to the request.
  */
 export const countPromptTokens: RequestPreprocessor = async (req) => {
-  const service = req.outboundApi;
+  const { result, outputTokens } = await countRequestTokens(
+    req,
+    req.outboundApi
+  );
+
+  req.promptTokens = result.token_count;
+  req.outputTokens = outputTokens;
+
+  // TODO: Remove once token counting is stable
+  req.log.debug({ result: result }, "Counted prompt tokens.");
+  req.debug = req.debug ?? {};
+  req.debug = { ...req.debug, ...result };
+};
+
+/**
+ * Counts the prompt tokens of a request body in the given API format, and
+ * returns the requested number of output tokens.
+ */
+export async function countRequestTokens(req: Request, service: APIFormat) {
   let result;
+  let outputTokens: number | undefined;
 
   switch (service) {
     case "openai": {
-      req.outputTokens = req.body.max_tokens;
-      const prompt: OpenAIPromptMessage[] = req.body.messages;
+      outputTokens = req.body.max_tokens;
+      const prompt: OpenAIPromptMessage[] = [...req.body.messages];
+      // Function definitions count towards the prompt, but their exact
+      // tokenization isn't documented so this is an approximation.
+      const functions = req.body.tools ?? req.body.functions;
+      if (functions) {
+        prompt.push({ role: "system", content: JSON.stringify(functions) });
+      }
       result = await countTokens({ req, prompt, service });
       break;
     }
     case "openai-text": {
-      req.outputTokens = req.body.max_tokens;
+      outputTokens = req.body.max_tokens;
       const prompt: string = req.body.prompt;
       result = await countTokens({ req, prompt, service });
       break;
     }
     case "anthropic": {
-      req.outputTokens = req.body.max_tokens_to_sample;
+      outputTokens = req.body.max_tokens_to_sample;
       const prompt: string = req.body.prompt;
       result = await countTokens({ req, prompt, service });
       break;
     }
+    case "anthropic-chat": {
+      outputTokens = req.body.max_tokens;
+      const prompt: AnthropicChatPrompt = {
+        system: req.body.system,
+        messages: req.body.messages,
+      };
+      result = await countTokens({ req, prompt, service });
+      break;
+    }
     case "google-palm": {
-      req.outputTokens = req.body.maxOutputTokens;
+      outputTokens = req.body.maxOutputTokens;
       const prompt: string = req.body.prompt.text;
       result = await countTokens({ req, prompt, service });
       break;
     }
+    case "google-ai": {
+      outputTokens = req.body.generationConfig.maxOutputTokens;
+      const prompt: string = flattenGoogleAIContents(req.body.contents);
+      result = await countTokens({ req, prompt, service });
+      break;
+    }
+    case "aws-llama2": {
+      outputTokens = req.body.max_gen_len;
+      const prompt: string = req.body.prompt;
+      result = await countTokens({ req, prompt, service });
+      break;
+    }
+    case "aws-titan": {
+      outputTokens = req.body.textGenerationConfig.maxTokenCount;
+      const prompt: string = req.body.inputText;
+      result = await countTokens({ req, prompt, service });
+      break;
+    }
     default:
       assertNever(service);
   }
 
-  req.promptTokens = result.token_count;
+  return { result, outputTokens };
+}
 
-  // TODO: Remove once token counting is stable
-  req.log.debug({ result: result }, "Counted prompt tokens.");
-  req.debug = req.debug ?? {};
-  req.debug = { ...req.debug, ...result };
-};
\ No newline at end of file
+function flattenGoogleAIContents(contents: GoogleAIChatMessage[]) {
+  return contents
+    .map((c) => `${c.role}: ${c.parts.map((p) => p.text).join("")}`)
+    .join("\n\n");
+}
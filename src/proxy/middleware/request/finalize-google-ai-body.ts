@@ -0,0 +1,16 @@
+import type { ProxyRequestMiddleware } from ".";
+
+/**
+ * Google AI takes the model from the URL path and streams from a separate
+ * endpoint, and it rejects unknown fields, so `model` and `stream` are left
+ * out of the serialized body. They stay on `req.body` because response
+ * middleware and retries still need them. Must be the last rewriter.
+ */
+export const finalizeGoogleAIBody: ProxyRequestMiddleware = (proxyReq, req) => {
+  const { model, stream, ...body } = req.body;
+  const updatedBody = JSON.stringify(body);
+  proxyReq.setHeader("Content-Type", "application/json");
+  proxyReq.setHeader("Content-Length", Buffer.byteLength(updatedBody));
+  (req as any).rawBody = Buffer.from(updatedBody);
+  proxyReq.write(updatedBody);
+};
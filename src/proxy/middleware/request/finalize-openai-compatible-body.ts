@@ -0,0 +1,23 @@
+import { OPENAI_COMPATIBLE_MODEL_PREFIX } from "../../../shared/key-management/openai-compatible/provider";
+import type { ProxyRequestMiddleware } from ".";
+
+/**
+ * Like `finalizeBody`, but removes the routing prefix from the model name so
+ * the backend receives the model name it knows. The prefix stays on `req.body`
+ * because response middleware and retries still need it. Must be the last
+ * rewriter.
+ */
+export const finalizeOpenAICompatibleBody: ProxyRequestMiddleware = (
+  proxyReq,
+  req
+) => {
+  const model = String(req.body.model).replace(
+    OPENAI_COMPATIBLE_MODEL_PREFIX,
+    ""
+  );
+  const updatedBody = JSON.stringify({ ...req.body, model });
+  proxyReq.setHeader("Content-Type", "application/json");
+  proxyReq.setHeader("Content-Length", Buffer.byteLength(updatedBody));
+  (req as any).rawBody = Buffer.from(updatedBody);
+  proxyReq.write(updatedBody);
+};
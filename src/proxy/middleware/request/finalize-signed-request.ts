@@ -1,16 +1,19 @@
 import type { ProxyRequestMiddleware } from ".";
 
 /**
- * For AWS requests, the body is signed earlier in the request pipeline, before
- * the proxy middleware. This function just assigns the path and headers to the
- * proxy request.
+ * For AWS and Azure requests, the request is prepared earlier in the pipeline,
+ * before the proxy middleware, because the target host depends on the assigned
+ * key. This function just assigns the path and headers to the proxy request.
  */
-export const finalizeAwsRequest: ProxyRequestMiddleware = (proxyReq, req) => {
+export const finalizeSignedRequest: ProxyRequestMiddleware = (
+  proxyReq,
+  req
+) => {
   if (!req.signedRequest) {
     throw new Error("Expected req.signedRequest to be set");
   }
 
-  // The path depends on the selected model and the assigned key's region.
+  // The path depends on the selected model and the assigned key.
   proxyReq.path = req.signedRequest.path;
 
   // Amazon doesn't want extra headers, so we need to remove all of them and
@@ -6,12 +6,17 @@ export { createOnProxyReqHandler } from "./rewrite";
 export {
   createPreprocessorMiddleware,
   createEmbeddingsPreprocessorMiddleware,
+  getPreprocessors,
 } from "./preprocess";
+export type { RequestPreprocessorOptions } from "./preprocess";
 
 // Express middleware (runs before http-proxy-middleware, can be async)
 export { applyQuotaLimits } from "./apply-quota-limits";
 export { validateContextSize } from "./validate-context-size";
 export { countPromptTokens } from "./count-prompt-tokens";
+export { routeModel } from "./route-model";
+export { trimContext } from "./trim-context";
+export { addAzureKey } from "./add-azure-key";
 export { setApiFormat } from "./set-api-format";
 export { signAwsRequest } from "./sign-aws-request";
 export { transformOutboundPayload } from "./transform-outbound-payload";
@@ -21,7 +26,9 @@ export { addKey, addKeyForEmbeddingsRequest } from "./add-key";
 export { addAnthropicPreamble } from "./add-anthropic-preamble";
 export { blockZoomerOrigins } from "./block-zoomer-origins";
 export { finalizeBody } from "./finalize-body";
-export { finalizeAwsRequest } from "./finalize-aws-request";
+export { finalizeSignedRequest } from "./finalize-signed-request";
+export { finalizeGoogleAIBody } from "./finalize-google-ai-body";
+export { finalizeOpenAICompatibleBody } from "./finalize-openai-compatible-body";
 export { languageFilter } from "./language-filter";
 export { limitCompletions } from "./limit-completions";
 export { stripHeaders } from "./strip-headers";
@@ -54,6 +61,3 @@ export type RequestPreprocessor = (req: Request) => void | Promise<void>;
  * request queue middleware.
  */
 export type ProxyRequestMiddleware = ProxyReqCallback<ClientRequest, Request>;
-
-export const forceModel = (model: string) => (req: Request) =>
-  void (req.body.model = model);
@@ -1,9 +1,14 @@
 import { Request } from "express";
 import { config } from "../../../config";
 import { logger } from "../../../logger";
+import {
+  AnthropicChatMessage,
+  OpenAIPromptMessage,
+} from "../../../shared/tokenization";
 import { assertNever } from "../../../shared/utils";
 import { isCompletionRequest } from "../common";
 import { ProxyRequestMiddleware } from ".";
+import { GoogleAIChatMessage } from "./transform-outbound-payload";
 
 const DISALLOWED_REGEX =
   /[\u2E80-\u2E99\u2E9B-\u2EF3\u2F00-\u2FD5\u3005\u3007\u3021-\u3029\u3038-\u303B\u3400-\u4DB5\u4E00-\u9FD5\uF900-\uFA6D\uFA70-\uFAD9]/;
@@ -42,14 +47,35 @@ function getPromptFromRequest(req: Request) {
   switch (service) {
     case "anthropic":
       return body.prompt;
+    case "anthropic-chat":
+      return [
+        body.system ?? "",
+        ...body.messages.map((m: AnthropicChatMessage) =>
+          typeof m.content === "string"
+            ? m.content
+            : m.content.map((p) => (p.type === "text" ? p.text : "")).join("")
+        ),
+      ].join("\n");
     case "openai":
       return body.messages
-        .map((m: { content: string }) => m.content)
+        .map((m: OpenAIPromptMessage) =>
+          typeof m.content === "string"
+            ? m.content
+            : m.content.map((p) => (p.type === "text" ? p.text : "")).join("")
+        )
         .join("\n");
     case "openai-text":
       return body.prompt;
     case "google-palm":
       return body.prompt.text;
+    case "google-ai":
+      return body.contents
+        .map((c: GoogleAIChatMessage) => c.parts.map((p) => p.text).join(""))
+        .join("\n");
+    case "aws-llama2":
+      return body.prompt;
+    case "aws-titan":
+      return body.inputText;
     default:
       assertNever(service);
   }
@@ -1,16 +1,19 @@
+import { config } from "../../../config";
 import { isCompletionRequest } from "../common";
 import { ProxyRequestMiddleware } from ".";
 
 /**
- * Don't allow multiple completions to be requested to prevent abuse.
- * OpenAI-only, Anthropic provides no such parameter.
+ * Don't allow more completions than configured to be requested to prevent
+ * abuse. OpenAI-only, Anthropic provides no such parameter.
  **/
 export const limitCompletions: ProxyRequestMiddleware = (_proxyReq, req) => {
   if (isCompletionRequest(req) && req.outboundApi === "openai") {
     const originalN = req.body?.n || 1;
-    req.body.n = 1;
+    req.body.n = Math.min(originalN, config.maxCompletionChoices);
     if (originalN !== req.body.n) {
-      req.log.warn(`Limiting completion choices from ${originalN} to 1`);
+      req.log.warn(
+        `Limiting completion choices from ${originalN} to ${req.body.n}`
+      );
     }
   }
 };
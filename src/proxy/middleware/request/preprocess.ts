@@ -1,19 +1,25 @@
 import { RequestHandler } from "express";
+import { config } from "../../../config";
+import { hasServiceRoutes } from "../../../shared/model-routing";
 import { initializeSseStream } from "../../../shared/streaming";
+import { prepareServiceRoute } from "../../failover";
 import { classifyErrorAndSend } from "../common";
 import {
   RequestPreprocessor,
   validateContextSize,
   countPromptTokens,
+  routeModel,
   setApiFormat,
+  trimContext,
   transformOutboundPayload,
 } from ".";
 import { ZodIssue } from "zod";
 
-type RequestPreprocessorOptions = {
+export type RequestPreprocessorOptions = {
   /**
    * Functions to run before the request body is transformed between API
-   * formats. Use this to change the behavior of the transformation, such as for
+   * formats. The model routing table has already been applied by this point.
+   * Use this to change the behavior of the transformation, such as for
    * endpoints which can accept multiple API formats.
    */
   beforeTransform?: RequestPreprocessor[];
@@ -31,17 +37,43 @@ type RequestPreprocessorOptions = {
  */
 export const createPreprocessorMiddleware = (
   apiFormat: Parameters<typeof setApiFormat>[0],
-  { beforeTransform, afterTransform }: RequestPreprocessorOptions = {}
+  options: RequestPreprocessorOptions = {}
 ): RequestHandler => {
   const preprocessors: RequestPreprocessor[] = [
+    saveInboundBody,
+    ...getPreprocessors(apiFormat, options),
+  ];
+  return async (...args) => executePreprocessors(preprocessors, args);
+};
+
+/**
+ * Returns the preprocessors which prepare a request for the given API format.
+ * Also used to prepare requests again when they fail over to another service.
+ */
+export function getPreprocessors(
+  apiFormat: Parameters<typeof setApiFormat>[0],
+  { beforeTransform, afterTransform }: RequestPreprocessorOptions = {}
+): RequestPreprocessor[] {
+  return [
     setApiFormat(apiFormat),
+    routeModel,
+    trimContext,
     ...(beforeTransform ?? []),
     transformOutboundPayload,
     countPromptTokens,
     ...(afterTransform ?? []),
     validateContextSize,
   ];
-  return async (...args) => executePreprocessors(preprocessors, args);
+}
+
+/**
+ * Keeps a copy of the request body as the client sent it, so that it can be
+ * transformed again if the request is sent on to another service.
+ */
+const saveInboundBody: RequestPreprocessor = (req) => {
+  if (config.failoverChains.length || hasServiceRoutes()) {
+    req.inboundBody = JSON.parse(JSON.stringify(req.body));
+  }
 };
 
 /**
@@ -64,6 +96,11 @@ async function executePreprocessors(
   try {
     for (const preprocessor of preprocessors) {
       await preprocessor(req);
+      // Requests routed to another service are handed to its queue instead.
+      if (req.serviceRoute) {
+        const proxy = await prepareServiceRoute(req);
+        return proxy(req, res, next);
+      }
     }
     next();
   } catch (error) {
@@ -1,6 +1,7 @@
 import { Request } from "express";
 import { ClientRequest } from "http";
 import httpProxy from "http-proxy";
+import { captureUpstreamRequest } from "../fan-out";
 import { ProxyRequestMiddleware } from "./index";
 
 type ProxyReqCallback = httpProxy.ProxyReqCallback<ClientRequest, Request>;
@@ -33,6 +34,7 @@ export const createOnProxyReqHandler = ({
       for (const rewriter of pipeline) {
         rewriter(proxyReq, req, res, options);
       }
+      captureUpstreamRequest(proxyReq, req);
     } catch (error) {
       req.log.error(error, "Error while executing proxy request rewriter");
       proxyReq.destroy(error);
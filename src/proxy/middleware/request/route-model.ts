@@ -0,0 +1,62 @@
+import { Request } from "express";
+import { UserInputError } from "../../../shared/errors";
+import { findModelRoute } from "../../../shared/model-routing";
+import { canRouteToService } from "../../failover";
+import { RequestPreprocessor } from ".";
+import { countRequestTokens } from "./count-prompt-tokens";
+
+/**
+ * Replaces the requested model with the one selected by the model routing
+ * table. Runs before the request body is transformed so that the selected
+ * model can affect the transformation, such as Claude 3 models requiring the
+ * Messages API.
+ *
+ * Requests routed to another service are marked with `serviceRoute` and sent
+ * on by the preprocessor middleware, which stops preparing them for this one.
+ */
+export const routeModel: RequestPreprocessor = async (req) => {
+  const requested = String(req.body.model ?? "");
+  const route = await findModelRoute(
+    {
+      service: req.service!,
+      inboundApi: req.inboundApi,
+      outboundApi: req.outboundApi,
+      model: requested,
+      userType: req.user?.type,
+      canRouteTo: (service, model) => canRouteToService(req, service, model),
+    },
+    () => estimateContextTokens(req)
+  );
+  if (route?.reject) {
+    throw new UserInputError(`${route.reject} (requested: ${requested})`);
+  }
+  if (route?.toService && route.toService !== req.service) {
+    req.serviceRoute = { service: route.toService, model: route.to! };
+    return;
+  }
+  if (!route?.to || route.to === requested) return;
+
+  req.log.debug(
+    { requested, model: route.to, route },
+    "Reassigning model using routing table"
+  );
+  req.body.model = route.to;
+};
+
+/**
+ * The body hasn't been transformed or validated yet, so tokens are counted in
+ * the inbound format and malformed requests are left for the transformation
+ * step to reject.
+ */
+async function estimateContextTokens(req: Request) {
+  try {
+    const { result, outputTokens } = await countRequestTokens(
+      req,
+      req.inboundApi
+    );
+    return result.token_count + (outputTokens ?? 0);
+  } catch (error) {
+    req.log.debug({ error }, "Could not count tokens for model routing");
+    return undefined;
+  }
+}
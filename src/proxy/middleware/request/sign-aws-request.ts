@@ -4,7 +4,12 @@ import { SignatureV4 } from "@smithy/signature-v4";
 import { HttpRequest } from "@smithy/protocol-http";
 import { keyPool } from "../../../shared/key-management";
 import { RequestPreprocessor } from ".";
-import { AnthropicV1CompleteSchema } from "./transform-outbound-payload";
+import {
+  AnthropicV1CompleteSchema,
+  AnthropicV1MessagesSchema,
+  AwsLlama2Schema,
+  AwsTitanTextSchema,
+} from "./transform-outbound-payload";
 
 const AMZ_HOST =
   process.env.AMZ_HOST || "bedrock-runtime.%REGION%.amazonaws.com";
@@ -14,25 +19,12 @@ const AMZ_HOST =
  * request object in place to fix the path.
  */
 export const signAwsRequest: RequestPreprocessor = async (req) => {
-  req.key = keyPool.get("anthropic.claude-v2");
-
   const { model, stream } = req.body;
+  req.key = keyPool.get(model);
+
   req.isStreaming = stream === true || stream === "true";
 
-  let preamble = req.body.prompt.startsWith("\n\nHuman:") ? "" : "\n\nHuman:";
-  req.body.prompt = preamble + req.body.prompt;
-
-  // AWS supports only a subset of Anthropic's parameters and is more strict
-  // about unknown parameters.
-  // TODO: This should happen in transform-outbound-payload.ts
-  const strippedParams = AnthropicV1CompleteSchema.pick({
-    prompt: true,
-    max_tokens_to_sample: true,
-    stop_sequences: true,
-    temperature: true,
-    top_k: true,
-    top_p: true,
-  }).parse(req.body);
+  const strippedParams = getStrippedParams(req);
 
   const credential = getCredentialParts(req);
   const host = AMZ_HOST.replace("%REGION%", credential.region);
@@ -63,6 +55,49 @@ export const signAwsRequest: RequestPreprocessor = async (req) => {
   req.signedRequest = await sign(newRequest, getCredentialParts(req));
 };
 
+/**
+ * AWS supports only a subset of Anthropic's parameters and is more strict
+ * about unknown parameters.
+ * TODO: This should happen in transform-outbound-payload.ts
+ */
+function getStrippedParams(req: express.Request) {
+  if (req.outboundApi === "aws-llama2") {
+    return AwsLlama2Schema.omit({ model: true, stream: true }).parse(req.body);
+  }
+
+  if (req.outboundApi === "aws-titan") {
+    return AwsTitanTextSchema.omit({ model: true, stream: true }).parse(
+      req.body
+    );
+  }
+
+  if (req.outboundApi === "anthropic-chat") {
+    const params = AnthropicV1MessagesSchema.pick({
+      messages: true,
+      system: true,
+      max_tokens: true,
+      stop_sequences: true,
+      temperature: true,
+      top_k: true,
+      top_p: true,
+    }).parse(req.body);
+    // Bedrock takes the Messages API version in the body, not a header.
+    return { ...params, anthropic_version: "bedrock-2023-05-31" };
+  }
+
+  let preamble = req.body.prompt.startsWith("\n\nHuman:") ? "" : "\n\nHuman:";
+  req.body.prompt = preamble + req.body.prompt;
+
+  return AnthropicV1CompleteSchema.pick({
+    prompt: true,
+    max_tokens_to_sample: true,
+    stop_sequences: true,
+    temperature: true,
+    top_k: true,
+    top_p: true,
+  }).parse(req.body);
+}
+
 type Credential = {
   accessKeyId: string;
   secretAccessKey: string;
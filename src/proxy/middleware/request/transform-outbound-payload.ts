@@ -1,13 +1,30 @@
 import { Request } from "express";
 import { z } from "zod";
 import { config } from "../../../config";
-import { OpenAIPromptMessage } from "../../../shared/tokenization";
+import { UserInputError } from "../../../shared/errors";
+import {
+  OpenAIFunctionDefinition,
+  renderToolCalls,
+  renderToolDefinitions,
+  renderToolResult,
+  TOOL_CALLS_STOP_SEQUENCE,
+} from "../../../shared/tool-emulation";
+import {
+  AnthropicChatMessage,
+  OpenAIContentPart,
+  OpenAIPromptMessage,
+} from "../../../shared/tokenization";
 import { isCompletionRequest } from "../common";
 import { RequestPreprocessor } from ".";
 import { APIFormat } from "../../../shared/key-management";
 
 const CLAUDE_OUTPUT_MAX = config.maxOutputTokensAnthropic;
 const OPENAI_OUTPUT_MAX = config.maxOutputTokensOpenAI;
+const GOOGLE_AI_OUTPUT_MAX = config.maxOutputTokensGoogleAI;
+// Maximum number of stop sequences each API accepts. Any others are enforced
+// by the proxy; see `limitStopSequences`.
+const OPENAI_MAX_STOPS = 4;
+const GOOGLE_MAX_STOPS = 5;
 
 // https://console.anthropic.com/docs/api/reference#-v1-complete
 export const AnthropicV1CompleteSchema = z.object({
@@ -28,14 +45,93 @@ export const AnthropicV1CompleteSchema = z.object({
   metadata: z.any().optional(),
 });
 
+const AnthropicV1MessageContentSchema = z.union([
+  z.string(),
+  z.array(
+    z.union([
+      z.object({ type: z.literal("text"), text: z.string() }),
+      z.object({
+        type: z.literal("image"),
+        source: z.object({
+          type: z.literal("base64"),
+          media_type: z.string().max(100),
+          data: z.string(),
+        }),
+      }),
+    ])
+  ),
+]);
+
+// https://docs.anthropic.com/claude/reference/messages_post
+export const AnthropicV1MessagesSchema = z.object({
+  model: z.string(),
+  messages: z.array(
+    z.object({
+      role: z.enum(["user", "assistant"]),
+      content: AnthropicV1MessageContentSchema,
+    }),
+    {
+      required_error:
+        "No `messages` found. Are you sending a text completion request to the Claude Messages endpoint?",
+    }
+  ),
+  system: z.string().optional(),
+  max_tokens: z.coerce
+    .number()
+    .int()
+    .transform((v) => Math.min(v, CLAUDE_OUTPUT_MAX)),
+  stop_sequences: z.array(z.string()).optional(),
+  stream: z.boolean().optional().default(false),
+  temperature: z.coerce.number().optional().default(1),
+  top_k: z.coerce.number().optional(),
+  top_p: z.coerce.number().optional(),
+  metadata: z.any().optional(),
+});
+
+const OpenAIFunctionSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  parameters: z.record(z.any()).optional(),
+});
+
+const OpenAIFunctionCallSchema = z.object({
+  name: z.string(),
+  arguments: z.string(),
+});
+
+const OpenAIV1ContentPartSchema = z.union([
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({
+    type: z.literal("image_url"),
+    image_url: z.object({
+      url: z.string(),
+      detail: z.enum(["low", "high", "auto"]).optional(),
+    }),
+  }),
+]);
+
 // https://platform.openai.com/docs/api-reference/chat/create
 const OpenAIV1ChatCompletionSchema = z.object({
   model: z.string(),
   messages: z.array(
     z.object({
-      role: z.enum(["system", "user", "assistant"]),
-      content: z.string(),
+      role: z.enum(["system", "user", "assistant", "function", "tool"]),
+      // Null for assistant messages which only call functions.
+      content: z
+        .union([z.string(), z.array(OpenAIV1ContentPartSchema)])
+        .nullable(),
       name: z.string().optional(),
+      function_call: OpenAIFunctionCallSchema.optional(),
+      tool_calls: z
+        .array(
+          z.object({
+            id: z.string(),
+            type: z.literal("function"),
+            function: OpenAIFunctionCallSchema,
+          })
+        )
+        .optional(),
+      tool_call_id: z.string().optional(),
     }),
     {
       required_error:
@@ -47,10 +143,14 @@ const OpenAIV1ChatCompletionSchema = z.object({
   temperature: z.number().optional().default(1),
   top_p: z.number().optional().default(1),
   n: z
-    .literal(1, {
-      errorMap: () => ({
-        message: "You may only request a single completion at a time.",
-      }),
+    .number()
+    .int()
+    .min(1)
+    .max(config.maxCompletionChoices, {
+      message:
+        config.maxCompletionChoices === 1
+          ? "You may only request a single completion at a time."
+          : `You may request at most ${config.maxCompletionChoices} completions at a time.`,
     })
     .optional(),
   stream: z.boolean().optional().default(false),
@@ -65,7 +165,27 @@ const OpenAIV1ChatCompletionSchema = z.object({
   presence_penalty: z.number().optional().default(0),
   logit_bias: z.any().optional(),
   user: z.string().optional(),
+  functions: z.array(OpenAIFunctionSchema).optional(),
+  function_call: z
+    .union([z.enum(["none", "auto"]), z.object({ name: z.string() })])
+    .optional(),
+  tools: z
+    .array(
+      z.object({ type: z.literal("function"), function: OpenAIFunctionSchema })
+    )
+    .optional(),
+  tool_choice: z
+    .union([
+      z.enum(["none", "auto"]),
+      z.object({
+        type: z.literal("function"),
+        function: z.object({ name: z.string() }),
+      }),
+    ])
+    .optional(),
 });
+type OpenAIChatCompletion = z.infer<typeof OpenAIV1ChatCompletionSchema>;
+export type OpenAIChatMessage = OpenAIChatCompletion["messages"][0];
 
 const OpenAIV1TextCompletionSchema = z
   .object({
@@ -82,10 +202,18 @@ const OpenAIV1TextCompletionSchema = z
     logprobs: z.number().int().nullish().default(null),
     echo: z.boolean().optional().default(false),
     best_of: z.literal(1).optional(),
-    stop: z.union([z.string(), z.array(z.string()).max(4)]).optional(),
+    stop: z.union([z.string(), z.array(z.string())]).optional(),
     suffix: z.string().optional(),
   })
-  .merge(OpenAIV1ChatCompletionSchema.omit({ messages: true }));
+  .merge(
+    OpenAIV1ChatCompletionSchema.omit({
+      messages: true,
+      functions: true,
+      function_call: true,
+      tools: true,
+      tool_choice: true,
+    })
+  );
 
 // https://developers.generativeai.google/api/rest/generativelanguage/models/generateText
 const PalmV1GenerateTextSchema = z.object({
@@ -105,11 +233,103 @@ const PalmV1GenerateTextSchema = z.object({
   stopSequences: z.array(z.string()).max(5).optional(),
 });
 
+// https://ai.google.dev/api/rest/v1beta/models/generateContent
+export const GoogleAIV1GenerateContentSchema = z.object({
+  // Not part of the Google AI request body; the model is specified in the URL
+  // path and streaming is a separate endpoint. Both are stripped before the
+  // request is sent.
+  model: z.string(),
+  stream: z.boolean().optional().default(false),
+  contents: z.array(
+    z.object({
+      role: z.enum(["user", "model"]),
+      parts: z.array(z.object({ text: z.string() })),
+    })
+  ),
+  safetySettings: z
+    .array(z.object({ category: z.string(), threshold: z.string() }))
+    .optional(),
+  generationConfig: z.object({
+    temperature: z.number().optional(),
+    maxOutputTokens: z.coerce
+      .number()
+      .int()
+      .optional()
+      .default(GOOGLE_AI_OUTPUT_MAX)
+      .transform((v) => Math.min(v, GOOGLE_AI_OUTPUT_MAX)),
+    candidateCount: z.literal(1).optional(),
+    topP: z.number().optional(),
+    topK: z.number().optional(),
+    stopSequences: z.array(z.string()).max(5).optional(),
+  }),
+});
+export type GoogleAIChatMessage = z.infer<
+  typeof GoogleAIV1GenerateContentSchema
+>["contents"][0];
+
+// https://docs.aws.amazon.com/bedrock/latest/userguide/model-parameters-meta.html
+export const AwsLlama2Schema = z.object({
+  // Not part of the Bedrock request body; the model is specified in the URL
+  // path and streaming is a separate endpoint. Both are stripped before the
+  // request is signed.
+  model: z.string(),
+  stream: z.boolean().optional().default(false),
+  prompt: z.string(),
+  max_gen_len: z.coerce
+    .number()
+    .int()
+    .optional()
+    .default(512)
+    .transform((v) => Math.min(v, 2048)),
+  temperature: z.number().optional(),
+  top_p: z.number().optional(),
+});
+
+// https://docs.aws.amazon.com/bedrock/latest/userguide/model-parameters-titan-text.html
+export const AwsTitanTextSchema = z.object({
+  // See above.
+  model: z.string(),
+  stream: z.boolean().optional().default(false),
+  inputText: z.string(),
+  textGenerationConfig: z.object({
+    maxTokenCount: z.coerce
+      .number()
+      .int()
+      .optional()
+      .default(512)
+      .transform((v) => Math.min(v, 8192)),
+    stopSequences: z.array(z.string()).optional(),
+    temperature: z.number().optional(),
+    topP: z.number().optional(),
+  }),
+});
+
+const GOOGLE_AI_SAFETY_SETTINGS = [
+  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_NONE" },
+];
+
+const PALM_SAFETY_SETTINGS = [
+  { category: "HARM_CATEGORY_UNSPECIFIED", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_DEROGATORY", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_TOXICITY", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_VIOLENCE", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_SEXUAL", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_MEDICAL", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_DANGEROUS", threshold: "BLOCK_NONE" },
+];
+
 const VALIDATORS: Record<APIFormat, z.ZodSchema<any>> = {
   anthropic: AnthropicV1CompleteSchema,
+  "anthropic-chat": AnthropicV1MessagesSchema,
   openai: OpenAIV1ChatCompletionSchema,
   "openai-text": OpenAIV1TextCompletionSchema,
   "google-palm": PalmV1GenerateTextSchema,
+  "google-ai": GoogleAIV1GenerateContentSchema,
+  "aws-llama2": AwsLlama2Schema,
+  "aws-titan": AwsTitanTextSchema,
 };
 
 /** Transforms an incoming request body to one that matches the target API. */
@@ -132,6 +352,13 @@ export const transformOutboundPayload: RequestPreprocessor = async (req) => {
       throw result.error;
     }
     req.body = result.data;
+    if (req.outboundApi === "openai-text" && req.body.stop) {
+      req.body.stop = limitStopSequences(
+        req,
+        toArray(req.body.stop),
+        OPENAI_MAX_STOPS
+      );
+    }
     return;
   }
 
@@ -140,16 +367,46 @@ export const transformOutboundPayload: RequestPreprocessor = async (req) => {
     return;
   }
 
+  if (req.inboundApi === "openai" && req.outboundApi === "anthropic-chat") {
+    req.body = openaiToAnthropicChat(req);
+    return;
+  }
+
   if (req.inboundApi === "openai" && req.outboundApi === "google-palm") {
     req.body = openaiToPalm(req);
     return;
   }
 
+  if (req.inboundApi === "openai" && req.outboundApi === "google-ai") {
+    req.body = openaiToGoogleAI(req);
+    return;
+  }
+
   if (req.inboundApi === "openai" && req.outboundApi === "openai-text") {
     req.body = openaiToOpenaiText(req);
     return;
   }
 
+  if (req.inboundApi === "openai" && req.outboundApi === "aws-llama2") {
+    req.body = openaiToAwsLlama2(req);
+    return;
+  }
+
+  if (req.inboundApi === "openai" && req.outboundApi === "aws-titan") {
+    req.body = openaiToAwsTitan(req);
+    return;
+  }
+
+  if (req.inboundApi === "anthropic" && req.outboundApi === "openai") {
+    req.body = anthropicToOpenai(req);
+    return;
+  }
+
+  if (req.inboundApi === "anthropic" && req.outboundApi === "google-palm") {
+    req.body = anthropicToPalm(req);
+    return;
+  }
+
   throw new Error(
     `'${req.inboundApi}' -> '${req.outboundApi}' request proxying is not supported. Make sure your client is configured to use the correct API.`
   );
@@ -169,13 +426,21 @@ function openaiToAnthropic(req: Request) {
   req.headers["anthropic-version"] = "2023-06-01";
 
   const { messages, ...rest } = result.data;
-  const prompt = openAIMessagesToClaudePrompt(messages);
+  const functions = getEmulatedFunctions(req, result.data);
+  prepareFanOut(req, rest.n);
+  const prompt = openAIMessagesToClaudePrompt(
+    flattenContentParts(req, flattenToolMessages(messages)),
+    functions
+  );
 
   let stops = rest.stop
     ? Array.isArray(rest.stop)
       ? rest.stop
       : [rest.stop]
     : [];
+  if (functions) {
+    stops.push(TOOL_CALLS_STOP_SEQUENCE);
+  }
   // Recommended by Anthropic
   stops.push("\n\nHuman:");
   // Helps with jailbreak prompts that send fake system messages and multi-bot
@@ -185,42 +450,98 @@ function openaiToAnthropic(req: Request) {
   stops = [...new Set(stops)];
 
   return {
-    // Model may be overridden in `calculate-context-size.ts` to avoid having
-    // a circular dependency (`calculate-context-size.ts` needs an already-
-    // transformed request body to count tokens, but this function would like
-    // to know the count to select a model).
-    model: process.env.CLAUDE_SMALL_MODEL || "claude-v1",
+    // Already selected by the model routing table.
+    model: body.model,
     prompt: prompt,
     max_tokens_to_sample: rest.max_tokens,
     stop_sequences: stops,
-    stream: rest.stream,
+    stream: functions ? false : rest.stream,
     temperature: rest.temperature,
     top_p: rest.top_p,
   };
 }
 
-function openaiToOpenaiText(req: Request) {
+function openaiToAnthropicChat(
+  req: Request
+): z.infer<typeof AnthropicV1MessagesSchema> {
   const { body } = req;
   const result = OpenAIV1ChatCompletionSchema.safeParse(body);
   if (!result.success) {
     req.log.warn(
       { issues: result.error.issues, body },
-      "Invalid OpenAI-to-OpenAI-text request"
+      "Invalid OpenAI-to-Anthropic Chat request"
     );
     throw result.error;
   }
 
+  req.headers["anthropic-version"] = "2023-06-01";
+
   const { messages, ...rest } = result.data;
-  const prompt = flattenOpenAiChatMessages(messages);
+  const functions = getEmulatedFunctions(req, result.data);
+  prepareFanOut(req, rest.n);
+  // Claude can only read images sent inline as base64.
+  const promptMessages = removeUnsupportedImages(
+    req,
+    flattenToolMessages(messages),
+    (url) => BASE64_IMAGE_REGEX.test(url)
+  );
+  if (functions) {
+    promptMessages.unshift({
+      role: "system",
+      content: renderToolDefinitions(functions),
+    });
+  }
+  const { system, messages: claudeMessages } =
+    openAIMessagesToClaudeChatPrompt(promptMessages);
 
   let stops = rest.stop
     ? Array.isArray(rest.stop)
       ? rest.stop
       : [rest.stop]
     : [];
-  stops.push("\n\nUser:");
+  if (functions) {
+    stops.push(TOOL_CALLS_STOP_SEQUENCE);
+  }
+  // The Messages API manages turns itself, but multi-bot chats may still
+  // prefix bot messages with "System: Respond as <bot name>".
+  stops.push("\n\nSystem:");
   stops = [...new Set(stops)];
 
+  return {
+    model: rest.model,
+    messages: claudeMessages,
+    ...(system ? { system } : {}),
+    max_tokens: rest.max_tokens,
+    stop_sequences: stops,
+    stream: functions ? false : rest.stream,
+    temperature: rest.temperature,
+    top_p: rest.top_p,
+  };
+}
+
+function openaiToOpenaiText(req: Request) {
+  const { body } = req;
+  const result = OpenAIV1ChatCompletionSchema.safeParse(body);
+  if (!result.success) {
+    req.log.warn(
+      { issues: result.error.issues, body },
+      "Invalid OpenAI-to-OpenAI-text request"
+    );
+    throw result.error;
+  }
+
+  const { messages, ...rest } = result.data;
+  rejectFunctions(req, result.data);
+  const prompt = flattenOpenAiChatMessages(
+    flattenContentParts(req, flattenToolMessages(messages))
+  );
+
+  const stops = limitStopSequences(
+    req,
+    ["\n\nUser:", ...toArray(rest.stop)],
+    OPENAI_MAX_STOPS
+  );
+
   const transformed = { ...rest, prompt: prompt, stop: stops };
   return OpenAIV1TextCompletionSchema.parse(transformed);
 }
@@ -240,40 +561,219 @@ function openaiToPalm(req: Request): z.infer<typeof PalmV1GenerateTextSchema> {
   }
 
   const { messages, ...rest } = result.data;
-  const prompt = flattenOpenAiChatMessages(messages);
-
-  let stops = rest.stop
-    ? Array.isArray(rest.stop)
-      ? rest.stop
-      : [rest.stop]
-    : [];
-
-  stops.push("\n\nUser:");
-  stops = [...new Set(stops)];
+  rejectFunctions(req, result.data);
+  prepareFanOut(req, rest.n);
+  const prompt = flattenOpenAiChatMessages(
+    flattenContentParts(req, flattenToolMessages(messages))
+  );
 
-  z.array(z.string()).max(5).parse(stops);
+  const stops = limitStopSequences(
+    req,
+    ["\n\nUser:", ...toArray(rest.stop)],
+    GOOGLE_MAX_STOPS
+  );
 
   return {
     prompt: { text: prompt },
     maxOutputTokens: rest.max_tokens,
     stopSequences: stops,
-    model: "text-bison-001",
+    model: body.model,
     topP: rest.top_p,
     temperature: rest.temperature,
-    safetySettings: [
-      { category: "HARM_CATEGORY_UNSPECIFIED", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_DEROGATORY", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_TOXICITY", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_VIOLENCE", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_SEXUAL", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_MEDICAL", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_DANGEROUS", threshold: "BLOCK_NONE" },
+    safetySettings: PALM_SAFETY_SETTINGS,
+  };
+}
+
+function openaiToGoogleAI(
+  req: Request
+): z.infer<typeof GoogleAIV1GenerateContentSchema> {
+  const { body } = req;
+  const result = OpenAIV1ChatCompletionSchema.safeParse(body);
+  if (!result.success) {
+    req.log.warn(
+      { issues: result.error.issues, body },
+      "Invalid OpenAI-to-Google AI request"
+    );
+    throw result.error;
+  }
+
+  const { messages, ...rest } = result.data;
+  rejectFunctions(req, result.data);
+  prepareFanOut(req, rest.n);
+  const contents = openAIMessagesToGoogleAIContents(
+    flattenContentParts(req, flattenToolMessages(messages))
+  );
+
+  const stops = limitStopSequences(req, toArray(rest.stop), GOOGLE_MAX_STOPS);
+
+  return GoogleAIV1GenerateContentSchema.parse({
+    model: body.model,
+    stream: rest.stream,
+    contents,
+    safetySettings: GOOGLE_AI_SAFETY_SETTINGS,
+    generationConfig: {
+      // `rest.max_tokens` is limited to OpenAI's maximum, so the requested
+      // value is passed on to be limited to Google AI's instead.
+      maxOutputTokens: body.max_tokens ?? undefined,
+      stopSequences: stops,
+      topP: rest.top_p,
+      temperature: rest.temperature,
+    },
+  });
+}
+
+function openaiToAwsLlama2(req: Request): z.infer<typeof AwsLlama2Schema> {
+  const { body } = req;
+  const result = OpenAIV1ChatCompletionSchema.safeParse(body);
+  if (!result.success) {
+    req.log.warn(
+      { issues: result.error.issues, body },
+      "Invalid OpenAI-to-AWS Llama 2 request"
+    );
+    throw result.error;
+  }
+
+  const { messages, ...rest } = result.data;
+  rejectFunctions(req, result.data);
+  prepareFanOut(req, rest.n);
+  // Llama 2 on Bedrock doesn't accept stop sequences at all.
+  limitStopSequences(req, toArray(rest.stop), 0);
+
+  return AwsLlama2Schema.parse({
+    model: rest.model,
+    stream: rest.stream,
+    prompt: openAIMessagesToLlama2Prompt(
+      flattenContentParts(req, flattenToolMessages(messages))
+    ),
+    max_gen_len: rest.max_tokens,
+    temperature: rest.temperature,
+    top_p: rest.top_p,
+  });
+}
+
+function openaiToAwsTitan(req: Request): z.infer<typeof AwsTitanTextSchema> {
+  const { body } = req;
+  const result = OpenAIV1ChatCompletionSchema.safeParse(body);
+  if (!result.success) {
+    req.log.warn(
+      { issues: result.error.issues, body },
+      "Invalid OpenAI-to-AWS Titan request"
+    );
+    throw result.error;
+  }
+
+  const { messages, ...rest } = result.data;
+  rejectFunctions(req, result.data);
+  prepareFanOut(req, rest.n);
+  // Titan only accepts a fixed set of stop sequences, so the user's own stop
+  // sequences can't be passed through.
+  limitStopSequences(req, toArray(rest.stop), 0);
+
+  return AwsTitanTextSchema.parse({
+    model: rest.model,
+    stream: rest.stream,
+    inputText: openAIMessagesToTitanPrompt(
+      flattenContentParts(req, flattenToolMessages(messages))
+    ),
+    textGenerationConfig: {
+      maxTokenCount: rest.max_tokens,
+      stopSequences: ["User:"],
+      temperature: rest.temperature,
+      topP: rest.top_p,
+    },
+  });
+}
+
+function anthropicToOpenai(
+  req: Request
+): z.infer<typeof OpenAIV1ChatCompletionSchema> {
+  const { body } = req;
+  const result = AnthropicV1CompleteSchema.safeParse(body);
+  if (!result.success) {
+    req.log.warn(
+      { issues: result.error.issues, body },
+      "Invalid Anthropic-to-OpenAI request"
+    );
+    throw result.error;
+  }
+
+  const { prompt, max_tokens_to_sample, stop_sequences, ...rest } = result.data;
+  const messages = claudePromptToOpenAIMessages(prompt);
+
+  // Turn markers are meaningless to the OpenAI chat API.
+  const stops = limitStopSequences(
+    req,
+    (stop_sequences ?? []).filter((s) => !s.match(/^\n\n(Human|Assistant):$/)),
+    OPENAI_MAX_STOPS
+  );
+
+  return OpenAIV1ChatCompletionSchema.parse({
+    // Already selected by the model routing table.
+    model: rest.model,
+    messages,
+    max_tokens: max_tokens_to_sample,
+    stop: stops.length ? stops : undefined,
+    stream: rest.stream,
+    temperature: rest.temperature,
+    top_p: rest.top_p,
+  });
+}
+
+function anthropicToPalm(
+  req: Request
+): z.infer<typeof PalmV1GenerateTextSchema> {
+  const { body } = req;
+  const result = AnthropicV1CompleteSchema.safeParse(body);
+  if (!result.success) {
+    req.log.warn(
+      { issues: result.error.issues, body },
+      "Invalid Anthropic-to-Palm request"
+    );
+    throw result.error;
+  }
+
+  const { prompt, max_tokens_to_sample, stop_sequences, ...rest } = result.data;
+  const messages = claudePromptToOpenAIMessages(prompt);
+  const palmPrompt = flattenOpenAiChatMessages(messages);
+
+  // The flattened prompt uses "User:" rather than "Human:" for user turns.
+  const stops = limitStopSequences(
+    req,
+    [
+      "\n\nUser:",
+      ...(stop_sequences ?? []).map((s) =>
+        s === "\n\nHuman:" ? "\n\nUser:" : s
+      ),
     ],
+    GOOGLE_MAX_STOPS
+  );
+
+  return {
+    prompt: { text: palmPrompt },
+    maxOutputTokens: max_tokens_to_sample,
+    stopSequences: stops,
+    model: body.model,
+    topP: rest.top_p,
+    topK: rest.top_k,
+    temperature: rest.temperature,
+    safetySettings: PALM_SAFETY_SETTINGS,
   };
 }
 
-export function openAIMessagesToClaudePrompt(messages: OpenAIPromptMessage[]) {
+/**
+ * Converts OpenAI chat messages to a Claude text prompt. If `functions` are
+ * provided, they are described in a leading system turn so that Claude can
+ * call them using the tool emulation format.
+ */
+export function openAIMessagesToClaudePrompt(
+  messages: TextPromptMessage[],
+  functions?: OpenAIFunctionDefinition[]
+) {
+  const toolsPrompt = functions
+    ? `\n\nSystem: ${renderToolDefinitions(functions)}`
+    : "";
   return (
+    toolsPrompt +
     messages
       .map((m) => {
         let role: string = m.role;
@@ -290,11 +790,391 @@ export function openAIMessagesToClaudePrompt(messages: OpenAIPromptMessage[]) {
           m.content
         }`;
       })
-      .join("") + "\n\nAssistant:"
+      .join("") +
+    "\n\nAssistant:"
   );
 }
 
-function flattenOpenAiChatMessages(messages: OpenAIPromptMessage[]) {
+/**
+ * Parses a Claude text prompt back into OpenAI chat messages by splitting it
+ * on `\n\nHuman:`, `\n\nAssistant:` and `\n\nSystem:` turn markers. Any
+ * text before the first marker is treated as a system message, and the empty
+ * trailing `Assistant:` turn used to prime Claude is dropped.
+ */
+export function claudePromptToOpenAIMessages(
+  prompt: string
+): TextPromptMessage[] {
+  const [preamble, ...turns] = prompt.split(/\n\n(Human|Assistant|System):/);
+  const messages: TextPromptMessage[] = [];
+
+  if (preamble.trim()) {
+    messages.push({ role: "system", content: preamble.trim() });
+  }
+
+  for (let i = 0; i < turns.length; i += 2) {
+    const marker = turns[i];
+    const content = turns[i + 1].trim();
+    const role =
+      marker === "Human"
+        ? "user"
+        : marker === "Assistant"
+        ? "assistant"
+        : "system";
+    messages.push({ role, content });
+  }
+
+  const last = messages[messages.length - 1];
+  if (last?.role === "assistant" && !last.content) {
+    messages.pop();
+  }
+
+  return messages;
+}
+
+/**
+ * Converts OpenAI chat messages to the Anthropic Messages API format. Claude
+ * only accepts a single system prompt and strictly alternating user/assistant
+ * turns starting with the user, so:
+ * - system messages before the first user/assistant message become the
+ *   `system` prompt
+ * - any later system messages are sent as user turns with a `System:` prefix
+ * - consecutive messages from the same role are merged into one turn
+ */
+export function openAIMessagesToClaudeChatPrompt(
+  messages: OpenAIPromptMessage[]
+): { system: string; messages: AnthropicChatMessage[] } {
+  const firstNonSystem = messages.findIndex((m) => m.role !== "system");
+  const leadingSystem =
+    firstNonSystem === -1 ? messages : messages.slice(0, firstNonSystem);
+  const rest = firstNonSystem === -1 ? [] : messages.slice(firstNonSystem);
+
+  const system = leadingSystem
+    .map((m) => getTextContent(m.content))
+    .join("\n\n")
+    .trim();
+
+  const claudeMessages = rest.reduce<AnthropicChatMessage[]>((acc, m) => {
+    const role = m.role === "assistant" ? "assistant" : "user";
+    let prefix = m.name?.trim() ? `(as ${m.name}) ` : "";
+    if (m.role === "system") {
+      prefix = `System: ${prefix}`;
+    }
+    const content = toClaudeContent(m.content, prefix);
+
+    const last = acc[acc.length - 1];
+    if (last?.role !== role) {
+      acc.push({ role, content });
+    } else if (
+      typeof last.content === "string" &&
+      typeof content === "string"
+    ) {
+      last.content += `\n\n${content}`;
+    } else {
+      last.content = [
+        ...toClaudeParts(last.content),
+        ...toClaudeParts(content),
+      ];
+    }
+    return acc;
+  }, []);
+
+  // Claude requires the conversation to start with a user turn.
+  if (claudeMessages[0]?.role !== "user") {
+    claudeMessages.unshift({ role: "user", content: "(continue)" });
+  }
+
+  return { system, messages: claudeMessages };
+}
+
+/**
+ * Converts OpenAI chat messages to Google AI `contents`. Gemini has no system
+ * role and requires turns to alternate between `user` and `model`, starting
+ * with `user`, so system messages are sent as user turns and consecutive
+ * turns from the same role are merged.
+ */
+export function openAIMessagesToGoogleAIContents(
+  messages: TextPromptMessage[]
+): GoogleAIChatMessage[] {
+  const contents = messages.reduce<GoogleAIChatMessage[]>((acc, m) => {
+    const role = m.role === "assistant" ? "model" : "user";
+    let text = m.name?.trim() ? `(as ${m.name}) ${m.content}` : m.content;
+    if (m.role === "system") {
+      text = `System: ${text}`;
+    }
+
+    const last = acc[acc.length - 1];
+    if (last?.role === role) {
+      last.parts[0].text += `\n\n${text}`;
+    } else {
+      acc.push({ role, parts: [{ text }] });
+    }
+    return acc;
+  }, []);
+
+  if (contents[0]?.role !== "user") {
+    contents.unshift({ role: "user", parts: [{ text: "(continue)" }] });
+  }
+
+  return contents;
+}
+
+/**
+ * Converts OpenAI chat messages to Llama 2's chat prompt template. Leading
+ * system messages become the `<<SYS>>` block of the first instruction; later
+ * system messages are sent as user turns. If the conversation ends with an
+ * assistant message, it is left open so that the model continues it.
+ */
+export function openAIMessagesToLlama2Prompt(messages: TextPromptMessage[]) {
+  const withName = (m: TextPromptMessage) =>
+    m.name?.trim() ? `(as ${m.name}) ${m.content}` : m.content;
+
+  const firstTurn = messages.findIndex((m) => m.role !== "system");
+  const systemMessages =
+    firstTurn === -1 ? messages : messages.slice(0, firstTurn);
+  const system = systemMessages.map(withName).join("\n\n");
+
+  type Turn = { role: "user" | "assistant"; text: string };
+  const turns = messages
+    .slice(systemMessages.length)
+    .reduce<Turn[]>((acc, m) => {
+      const role = m.role === "assistant" ? "assistant" : "user";
+      const text = m.role === "system" ? `System: ${withName(m)}` : withName(m);
+      const last = acc[acc.length - 1];
+      if (last?.role === role) {
+        last.text += `\n\n${text}`;
+      } else {
+        acc.push({ role, text });
+      }
+      return acc;
+    }, []);
+  if (turns[0]?.role !== "user") {
+    turns.unshift({ role: "user", text: "(continue)" });
+  }
+
+  let prompt = "";
+  for (let i = 0; i < turns.length; i += 2) {
+    let instruction = turns[i].text;
+    if (i === 0 && system) {
+      instruction = `<<SYS>>\n${system}\n<</SYS>>\n\n${instruction}`;
+    }
+    prompt += `<s>[INST] ${instruction} [/INST]`;
+    const reply = turns[i + 1];
+    if (reply) {
+      const isLast = i + 2 >= turns.length;
+      prompt += ` ${reply.text}${isLast ? "" : " </s>"}`;
+    }
+  }
+  return prompt;
+}
+
+/**
+ * Converts OpenAI chat messages to the `User:`/`Bot:` transcript format that
+ * Titan Text models are trained on.
+ */
+export function openAIMessagesToTitanPrompt(messages: TextPromptMessage[]) {
+  return (
+    messages
+      .map((m) => {
+        const text = m.name?.trim() ? `(as ${m.name}) ${m.content}` : m.content;
+        if (m.role === "assistant") return `Bot: ${text}`;
+        if (m.role === "system") return text;
+        return `User: ${text}`;
+      })
+      .join("\n") + "\nBot:"
+  );
+}
+
+/**
+ * Converts function calls and function/tool results in OpenAI chat messages to
+ * text in the tool emulation format, for backends without native function
+ * calling.
+ */
+function flattenToolMessages(
+  messages: OpenAIChatMessage[]
+): OpenAIPromptMessage[] {
+  // Tool results only reference the call's ID, not the name of the tool.
+  const toolNames = new Map<string, string>();
+  messages.forEach(
+    (m) => m.tool_calls?.forEach((c) => toolNames.set(c.id, c.function.name))
+  );
+
+  return messages.map((m) => {
+    if (m.role === "function" || m.role === "tool") {
+      const name =
+        m.name ?? toolNames.get(m.tool_call_id ?? "") ?? "unknown_tool";
+      const result = getTextContent(m.content ?? "");
+      return { role: "user", content: renderToolResult(name, result) };
+    }
+
+    const calls =
+      m.tool_calls?.map((c) => c.function) ??
+      (m.function_call ? [m.function_call] : []);
+    const content = calls.length
+      ? [getTextContent(m.content ?? ""), renderToolCalls(calls)]
+          .filter(Boolean)
+          .join("\n\n")
+      : m.content ?? "";
+    return { role: m.role, content, ...(m.name ? { name: m.name } : {}) };
+  });
+}
+
+/** OpenAI chat message whose content parts have been flattened to text. */
+type TextPromptMessage = OpenAIPromptMessage & { content: string };
+
+const BASE64_IMAGE_REGEX = /^data:(image\/[\w+.-]+);base64,(.*)$/;
+
+function getTextContent(content: OpenAIPromptMessage["content"]) {
+  if (typeof content === "string") return content;
+  return content
+    .map((p) => (p.type === "text" ? p.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Removes image parts which `isSupported` rejects from OpenAI chat messages.
+ * Unless the proxy is configured to drop them, unsupported images cause the
+ * request to be rejected instead.
+ */
+function removeUnsupportedImages(
+  req: Request,
+  messages: OpenAIPromptMessage[],
+  isSupported: (url: string) => boolean
+): OpenAIPromptMessage[] {
+  let dropped = 0;
+  const result = messages.map((m) => {
+    if (typeof m.content === "string") return m;
+    const content = m.content.filter((p) => {
+      if (p.type !== "image_url" || isSupported(p.image_url.url)) return true;
+      dropped++;
+      return false;
+    });
+    return { ...m, content };
+  });
+
+  if (dropped && !config.dropUnsupportedImages) {
+    throw new UserInputError(
+      `This request contains images which can't be sent to '${req.outboundApi}' models.`
+    );
+  } else if (dropped) {
+    req.log.warn({ dropped }, "Removed unsupported images from request.");
+  }
+  return result;
+}
+
+/** Converts multimodal messages to text for backends without image support. */
+function flattenContentParts(
+  req: Request,
+  messages: OpenAIPromptMessage[]
+): TextPromptMessage[] {
+  return removeUnsupportedImages(req, messages, () => false).map((m) => ({
+    ...m,
+    content: getTextContent(m.content),
+  }));
+}
+
+/**
+ * Converts OpenAI message content to Claude message content. Only base64
+ * images are expected here; others are removed by `removeUnsupportedImages`.
+ */
+function toClaudeContent(
+  content: OpenAIPromptMessage["content"],
+  prefix: string
+): AnthropicChatMessage["content"] {
+  if (typeof content === "string") return prefix + content;
+
+  const parts = content.map((p) => toClaudePart(p));
+  if (parts.every((p) => p.type === "text")) {
+    return prefix + getTextContent(content);
+  }
+  if (prefix) {
+    parts.unshift({ type: "text", text: prefix.trim() });
+  }
+  return parts;
+}
+
+function toClaudePart(
+  part: OpenAIContentPart
+): Exclude<AnthropicChatMessage["content"], string>[number] {
+  if (part.type === "text") return { type: "text", text: part.text };
+  const [, media_type, data] = part.image_url.url.match(BASE64_IMAGE_REGEX)!;
+  return { type: "image", source: { type: "base64", media_type, data } };
+}
+
+function toClaudeParts(content: AnthropicChatMessage["content"]) {
+  return typeof content === "string"
+    ? [{ type: "text" as const, text: content }]
+    : content;
+}
+
+/**
+ * Returns the functions to describe to Claude, if the client declared any,
+ * and prepares the request for tool call emulation. Tool calls can only be
+ * parsed from a complete completion, so streaming requests are sent upstream
+ * as normal requests and replayed to the client as an emulated stream.
+ */
+function getEmulatedFunctions(
+  req: Request,
+  data: OpenAIChatCompletion
+): OpenAIFunctionDefinition[] | undefined {
+  const { tools, functions, tool_choice, function_call } = data;
+  const declared = tools?.map((t) => t.function) ?? functions;
+  const choice = tool_choice ?? function_call;
+  if (!declared?.length || choice === "none") return;
+
+  req.toolEmulation = tools ? "tools" : "functions";
+  req.emulateStreaming = data.stream;
+
+  // Claude can't be forced to call a function, but we can at least hide the
+  // others from it.
+  let forced: string | undefined;
+  if (typeof choice === "object") {
+    forced = "function" in choice ? choice.function.name : choice.name;
+  }
+  return forced ? declared.filter((f) => f.name === forced) : declared;
+}
+
+/**
+ * Other APIs can only return a single completion, so requests for multiple
+ * choices are sent upstream once per choice.
+ */
+function prepareFanOut(req: Request, n = 1) {
+  if (n > 1) {
+    req.fanOut = { choices: n, bodies: [] };
+  }
+}
+
+function toArray(stop: string | string[] | undefined) {
+  return stop ? (Array.isArray(stop) ? stop : [stop]) : [];
+}
+
+/**
+ * Returns the stop sequences to send upstream, up to the API's limit. The
+ * proxy enforces the rest itself by truncating the completion, so earlier stop
+ * sequences are preferred for sending upstream.
+ */
+function limitStopSequences(req: Request, stops: string[], max: number) {
+  const unique = [...new Set(stops)];
+  if (unique.length > max) {
+    req.emulatedStops = unique.slice(max);
+    req.log.debug(
+      { emulated: req.emulatedStops },
+      "Emulating stop sequences beyond the upstream API's limit."
+    );
+  }
+  return unique.slice(0, max);
+}
+
+/** Function calling is only emulated for Claude. */
+function rejectFunctions(req: Request, data: OpenAIChatCompletion) {
+  if (data.tools?.length || data.functions?.length) {
+    throw new UserInputError(
+      `Function calling is not supported for '${req.outboundApi}' models.`
+    );
+  }
+}
+
+function flattenOpenAiChatMessages(messages: TextPromptMessage[]) {
   // Temporary to allow experimenting with prompt strategies
   const PROMPT_VERSION: number = 1;
   switch (PROMPT_VERSION) {
@@ -0,0 +1,133 @@
+import { Request } from "express";
+import { config } from "../../../config";
+import { countTokens, OpenAIPromptMessage } from "../../../shared/tokenization";
+import { RequestPreprocessor } from ".";
+import { countRequestTokens } from "./count-prompt-tokens";
+import type { OpenAIChatMessage } from "./transform-outbound-payload";
+import {
+  getModelMaxContextSize,
+  getProxyMaxContextSize,
+  UNKNOWN_MODEL_MAX_CONTEXT,
+} from "./validate-context-size";
+
+const TRIM_CONTEXT_HEADER = "x-proxy-trim-context";
+/**
+ * Other services tokenize prompts differently and the transformation adds
+ * some formatting, so some headroom is left when the prompt will be sent in
+ * another format.
+ */
+const TRANSFORMED_PROMPT_HEADROOM = 0.05;
+
+/**
+ * Drops the oldest non-system messages from OpenAI chat requests which would
+ * otherwise exceed the model's context size, if enabled via `CONTEXT_TRIMMING`
+ * or the `X-Proxy-Trim-Context` header. The number of removed messages is
+ * reported in the `X-Proxy-Trimmed-Messages` response header.
+ *
+ * Runs before the request body is transformed, so tokens are counted in the
+ * OpenAI format; `validateContextSize` still rejects the request if the
+ * transformed prompt turns out to be too large. OpenAI counts each message's
+ * tokens separately, so the tokens saved by dropping messages are the sum of
+ * the dropped messages' counts.
+ */
+export const trimContext: RequestPreprocessor = async (req) => {
+  const header = req.headers[TRIM_CONTEXT_HEADER]?.toString();
+  // Not meant for the upstream API.
+  delete req.headers[TRIM_CONTEXT_HEADER];
+
+  const enabled = header ? header === "true" : config.contextTrimming;
+  if (!enabled || req.inboundApi !== "openai") return;
+  if (!Array.isArray(req.body.messages)) return;
+
+  const max = getTrimTarget(req);
+  const { result, outputTokens } = await countRequestTokens(req, "openai");
+  const excess = result.token_count + (outputTokens ?? 0) - max;
+  if (excess <= 0) return;
+
+  const messages: OpenAIChatMessage[] = req.body.messages;
+  const history = messages.filter((m) => m.role !== "system");
+  // savedTokens[n] is the number of tokens saved by dropping the oldest n
+  // non-system messages.
+  const savedTokens = [0];
+  for (const message of history) {
+    const tokens = await countMessageTokens(req, message);
+    savedTokens.push(savedTokens[savedTokens.length - 1] + tokens);
+  }
+  const fits = (count: number) =>
+    savedTokens[getDroppedCount(history, count)] >= excess;
+
+  // Always keep at least the latest non-system message.
+  let low = 1;
+  let high = Math.max(history.length - 1, 0);
+  if (high === 0 || !fits(high)) {
+    // Can't be trimmed enough; leave it to validateContextSize to reject.
+    return;
+  }
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (fits(mid)) high = mid;
+    else low = mid + 1;
+  }
+
+  req.body.messages = dropMessages(messages, high);
+  const removed = messages.length - req.body.messages.length;
+  req.log.info({ removed, max }, "Trimmed oldest messages to fit context.");
+  req.res!.setHeader("x-proxy-trimmed-messages", String(removed));
+};
+
+function getTrimTarget(req: Request) {
+  const max = Math.min(
+    getProxyMaxContextSize(req.outboundApi),
+    getModelMaxContextSize(req.body.model) ?? UNKNOWN_MODEL_MAX_CONTEXT
+  );
+  return req.outboundApi === "openai"
+    ? max
+    : Math.floor(max * (1 - TRANSFORMED_PROMPT_HEADROOM));
+}
+
+/** Counts the tokens a single message adds to an OpenAI chat prompt. */
+async function countMessageTokens(req: Request, message: OpenAIChatMessage) {
+  const service = "openai";
+  // The tokenizer skips the null content of messages which only call tools.
+  const prompt = [message as OpenAIPromptMessage];
+  const [withMessage, without] = await Promise.all([
+    countTokens({ req, service, prompt }),
+    countTokens({ req, service, prompt: [] }),
+  ]);
+  return withMessage.token_count - without.token_count;
+}
+
+/**
+ * Returns how many of the non-system messages `dropMessages` removes when
+ * asked to drop the given number, including orphaned tool results.
+ */
+function getDroppedCount(history: OpenAIChatMessage[], count: number) {
+  let dropped = count;
+  while (
+    dropped < history.length &&
+    ["tool", "function"].includes(history[dropped].role)
+  ) {
+    dropped++;
+  }
+  return dropped;
+}
+
+/**
+ * Removes the given number of the oldest non-system messages. Tool results
+ * left without the assistant message which called the tool are also removed.
+ */
+function dropMessages(messages: OpenAIChatMessage[], count: number) {
+  let toDrop = count;
+  let orphaned = false;
+  return messages.filter((message) => {
+    if (message.role === "system") return true;
+    if (toDrop > 0) {
+      toDrop--;
+      orphaned = true;
+      return false;
+    }
+    if (orphaned && ["tool", "function"].includes(message.role)) return false;
+    orphaned = false;
+    return true;
+  });
+}
@@ -1,12 +1,19 @@
 import { Request } from "express";
 import { z } from "zod";
 import { config } from "../../../config";
+import { APIFormat } from "../../../shared/key-management";
+import { OPENAI_COMPATIBLE_MODEL_PREFIX } from "../../../shared/key-management/openai-compatible/provider";
 import { assertNever } from "../../../shared/utils";
 import { RequestPreprocessor } from ".";
 
 const CLAUDE_MAX_CONTEXT = config.maxContextTokensAnthropic;
 const OPENAI_MAX_CONTEXT = config.maxContextTokensOpenAI;
 const BISON_MAX_CONTEXT = 8100;
+const GEMINI_PRO_MAX_CONTEXT = 32768;
+const LLAMA2_MAX_CONTEXT = 4096;
+const TITAN_MAX_CONTEXT = 8192;
+/** Limit assumed for models whose context size isn't known. */
+export const UNKNOWN_MODEL_MAX_CONTEXT = 100000;
 
 /**
  * Assigns `req.promptTokens` and `req.outputTokens` based on the request body
@@ -22,48 +29,13 @@ export const validateContextSize: RequestPreprocessor = async (req) => {
   const contextTokens = promptTokens + outputTokens;
   const model = req.body.model;
 
-  let proxyMax: number;
-  switch (req.outboundApi) {
-    case "openai":
-    case "openai-text":
-      proxyMax = OPENAI_MAX_CONTEXT;
-      break;
-    case "anthropic":
-      proxyMax = CLAUDE_MAX_CONTEXT;
-      break;
-    case "google-palm":
-      proxyMax = BISON_MAX_CONTEXT;
-      break;
-    default:
-      assertNever(req.outboundApi);
-  }
-  proxyMax ||= Number.MAX_SAFE_INTEGER;
-
-  let modelMax: number;
-  if (model.match(/gpt-3.5-turbo-16k/)) {
-    modelMax = 16384;
-  } else if (model.match(/gpt-3.5-turbo/)) {
-    modelMax = 4096;
-  } else if (model.match(/gpt-4-32k/)) {
-    modelMax = 32768;
-  } else if (model.match(/gpt-4/)) {
-    modelMax = 8192;
-  } else if (model.match(/^claude-(?:instant-)?v1(?:\.\d)?-100k/)) {
-    modelMax = 100000;
-  } else if (model.match(/^claude-(?:instant-)?v1(?:\.\d)?$/)) {
-    modelMax = 9000;
-  } else if (model.match(/^claude-2/)) {
-    modelMax = 100000;
-  } else if (model.match(/^text-bison-\d{3}$/)) {
-    modelMax = BISON_MAX_CONTEXT;
-  } else if (model.match(/^anthropic\.claude/)) {
-    // Not sure if AWS Claude has the same context limit as Anthropic Claude.
-    modelMax = 100000;
-  } else {
+  const proxyMax = getProxyMaxContextSize(req.outboundApi);
+  let modelMax = getModelMaxContextSize(model);
+  if (!modelMax) {
     // Don't really want to throw here because I don't want to have to update
     // this ASAP every time a new model is released.
     req.log.warn({ model }, "Unknown model, using 100k token limit.");
-    modelMax = 100000;
+    modelMax = UNKNOWN_MODEL_MAX_CONTEXT;
   }
 
   const finalMax = Math.min(proxyMax, modelMax);
@@ -87,6 +59,82 @@ export const validateContextSize: RequestPreprocessor = async (req) => {
   req.debug.max_proxy_tokens = proxyMax;
 };
 
+/**
+ * Returns the proxy-wide context size limit for requests in the given format,
+ * or `Number.MAX_SAFE_INTEGER` if there is no limit.
+ */
+export function getProxyMaxContextSize(format: APIFormat) {
+  let proxyMax: number;
+  switch (format) {
+    case "openai":
+    case "openai-text":
+      proxyMax = OPENAI_MAX_CONTEXT;
+      break;
+    case "anthropic":
+    case "anthropic-chat":
+      proxyMax = CLAUDE_MAX_CONTEXT;
+      break;
+    case "google-palm":
+      proxyMax = BISON_MAX_CONTEXT;
+      break;
+    case "google-ai":
+      proxyMax = GEMINI_PRO_MAX_CONTEXT;
+      break;
+    case "aws-llama2":
+      proxyMax = LLAMA2_MAX_CONTEXT;
+      break;
+    case "aws-titan":
+      proxyMax = TITAN_MAX_CONTEXT;
+      break;
+    default:
+      assertNever(format);
+  }
+  return proxyMax || Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Returns the context size of the given model, `Number.MAX_SAFE_INTEGER` for
+ * self-hosted models of unknown size, or undefined for unrecognized models.
+ */
+export function getModelMaxContextSize(model: string): number | undefined {
+  if (model.startsWith(OPENAI_COMPATIBLE_MODEL_PREFIX)) {
+    // Arbitrary self-hosted models; only the proxy-wide limit applies and the
+    // backend will reject prompts that are too long.
+    return Number.MAX_SAFE_INTEGER;
+  } else if (model.match(/gpt-3.5-turbo-16k/)) {
+    return 16384;
+  } else if (model.match(/gpt-3.5-turbo/)) {
+    return 4096;
+  } else if (model.match(/gpt-4-32k/)) {
+    return 32768;
+  } else if (model.match(/gpt-4/)) {
+    return 8192;
+  } else if (model.match(/^claude-(?:instant-)?v1(?:\.\d)?-100k/)) {
+    return 100000;
+  } else if (model.match(/^claude-(?:instant-)?v1(?:\.\d)?$/)) {
+    return 9000;
+  } else if (model.match(/^claude-(?:2\.1|3)/)) {
+    return 200000;
+  } else if (model.match(/^claude-2/)) {
+    return 100000;
+  } else if (model.match(/^text-bison-\d{3}$/)) {
+    return BISON_MAX_CONTEXT;
+  } else if (model.match(/^gemini-pro/)) {
+    return GEMINI_PRO_MAX_CONTEXT;
+  } else if (model.match(/^anthropic\.claude-3/)) {
+    return 200000;
+  } else if (model.match(/^anthropic\.claude/)) {
+    // Not sure if AWS Claude has the same context limit as Anthropic Claude.
+    return 100000;
+  } else if (model.match(/^meta\.llama2/)) {
+    return LLAMA2_MAX_CONTEXT;
+  } else if (model.match(/^amazon\.titan-text-lite/)) {
+    return 4096;
+  } else if (model.match(/^amazon\.titan-text-express/)) {
+    return TITAN_MAX_CONTEXT;
+  }
+}
+
 function assertRequestHasTokenCounts(
   req: Request
 ): asserts req is Request & { promptTokens: number; outputTokens: number } {
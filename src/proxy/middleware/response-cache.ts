@@ -0,0 +1,176 @@
+/**
+ * Serves repeated deterministic requests from the response cache. A request is
+ * cacheable if it asks for a single completion at a temperature of 0; its key
+ * is derived from the prepared outbound body, so requests which differ only in
+ * ways the upstream API never sees share a cached response. Responses are only
+ * served to the user or IP which requested them unless `RESPONSE_CACHE_SHARED`
+ * is enabled. Cache hits are charged the tokens the original request used.
+ */
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { config } from "../../config";
+import { getResponseCache } from "../../shared/response-cache";
+import {
+  incrementPromptCount,
+  incrementTokenCount,
+} from "../../shared/users/user-store";
+import { assertNever } from "../../shared/utils";
+import { isCompletionRequest } from "./common";
+import {
+  getEmulatedStreamParams,
+  sendEmulatedStream,
+} from "./response/streaming/client-events";
+
+/** Body fields which only affect how the response is delivered. */
+const DELIVERY_FIELDS = ["stream", "stream_options"];
+
+function getTemperature(req: Request) {
+  const body = req.body;
+  switch (req.outboundApi) {
+    case "google-ai":
+      return body.generationConfig?.temperature;
+    case "aws-titan":
+      return body.textGenerationConfig?.temperature;
+    case "openai":
+    case "openai-text":
+    case "anthropic":
+    case "anthropic-chat":
+    case "google-palm":
+    case "aws-llama2":
+      return body.temperature;
+    default:
+      assertNever(req.outboundApi);
+  }
+}
+
+export function wantsStream(req: Request) {
+  const { stream } = req.body;
+  return stream === true || stream === "true" || Boolean(req.emulateStreaming);
+}
+
+function isCacheable(req: Request) {
+  if (!config.responseCache || !isCompletionRequest(req)) return false;
+  if (getTemperature(req) !== 0 || req.fanOut) return false;
+  // Cached responses can only be replayed as events the proxy knows how to
+  // generate itself.
+  if (wantsStream(req) && !["openai", "anthropic"].includes(req.inboundApi)) {
+    return false;
+  }
+  return true;
+}
+
+/** Serializes a value with object keys sorted, so key order doesn't matter. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as any)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hashes the prepared outbound request, ignoring body fields which only affect
+ * how the response is delivered.
+ */
+export function getRequestHash(req: Request) {
+  const body = { ...req.body };
+  DELIVERY_FIELDS.forEach((field) => delete body[field]);
+  return crypto
+    .createHash("sha256")
+    .update(
+      stableStringify({
+        service: req.service,
+        inboundApi: req.inboundApi,
+        outboundApi: req.outboundApi,
+        toolEmulation: req.toolEmulation ?? null,
+        model: req.body.model,
+        body,
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Responds to the request from the cache if possible and returns true. On a
+ * cache miss, marks the request so that its response is cached once it has
+ * been sent to the client.
+ */
+export async function serveCachedResponse(
+  req: Request,
+  res: Response,
+  identifier: string
+) {
+  if (!isCacheable(req)) return false;
+
+  const hash = getRequestHash(req);
+  const key = config.responseCacheShared ? hash : `${identifier}:${hash}`;
+  const cached = await getResponseCache().get(key);
+  if (!cached) {
+    req.cacheKey = key;
+    res.setHeader("x-proxy-cache", "miss");
+    if (!wantsStream(req)) cacheJsonResponse(req, res);
+    return false;
+  }
+
+  req.log.info(
+    { key, age: Math.round((Date.now() - cached.createdAt) / 1000) },
+    "Serving response from cache."
+  );
+  res.setHeader("x-proxy-cache", "hit");
+  // Cached responses don't use a key, but count against the user's quota as
+  // if the request had been sent upstream.
+  if (req.user) {
+    const tokensUsed = (req.promptTokens ?? 0) + cached.outputTokens;
+    incrementPromptCount(req.user.token);
+    incrementTokenCount(req.user.token, req.body.model, tokensUsed);
+  }
+
+  const { body } = cached;
+  if (!wantsStream(req)) {
+    res.status(200).json(body);
+  } else if (req.inboundApi === "anthropic") {
+    const finishReason = ["max_tokens", "length"].includes(body.stop_reason)
+      ? "length"
+      : "stop";
+    sendEmulatedStream(req, res, [{ content: body.completion, finishReason }]);
+  } else {
+    sendEmulatedStream(req, res, getEmulatedStreamParams(body));
+  }
+  return true;
+}
+
+/**
+ * Caches the completion sent to the client, in the format the client requested
+ * it in. Does nothing unless the request missed the cache earlier. Must be
+ * called after the completion's tokens have been counted.
+ */
+export function storeCachedResponse(req: Request, body: Record<string, any>) {
+  const key = req.cacheKey;
+  if (!key || !body || typeof body !== "object" || body.error) return;
+
+  // Later middleware may still add notes to the client's copy of the body.
+  const value = {
+    body: JSON.parse(JSON.stringify(body)),
+    outputTokens: req.outputTokens ?? 0,
+    createdAt: Date.now(),
+  };
+  getResponseCache()
+    .set(key, value)
+    .then(() => req.log.debug({ key }, "Cached response."))
+    .catch((error) =>
+      req.log.warn({ error, key }, "Failed to cache response.")
+    );
+}
+
+function cacheJsonResponse(req: Request, res: Response) {
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (res.statusCode === 200) storeCachedResponse(req, body);
+    return json(body);
+  };
+}
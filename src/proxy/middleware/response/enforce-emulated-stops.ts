@@ -0,0 +1,105 @@
+import { Request } from "express";
+import { truncateAtStopSequence } from "../../../shared/stop-sequences";
+import { assertNever } from "../../../shared/utils";
+import { ProxyResHandlerWithBody } from ".";
+
+/**
+ * Truncates completions at any stop sequences the upstream API couldn't accept
+ * itself. Must run before tokens are counted so that usage reflects the
+ * truncated completion. Streamed completions are instead truncated as they
+ * are transformed by `SSEMessageTransformer`.
+ */
+export const enforceEmulatedStops: ProxyResHandlerWithBody = async (
+  _proxyRes,
+  req,
+  _res,
+  body
+) => {
+  if (!req.emulatedStops?.length || typeof body !== "object") return;
+
+  for (const b of [body, ...(req.fanOut?.bodies ?? [])]) {
+    truncateBody(req, b, req.emulatedStops);
+  }
+};
+
+function truncateBody(
+  req: Request,
+  body: Record<string, any>,
+  stops: string[]
+) {
+  // Returns the truncated text, or undefined if no stop sequence was found.
+  const truncate = (text: unknown) => {
+    if (typeof text !== "string") return undefined;
+    const truncated = truncateAtStopSequence(text, stops);
+    return truncated === text ? undefined : truncated;
+  };
+
+  const format = req.outboundApi;
+  switch (format) {
+    case "openai":
+      for (const choice of body.choices ?? []) {
+        const text = truncate(choice.message?.content);
+        if (text === undefined) continue;
+        choice.message.content = text;
+        choice.finish_reason = "stop";
+      }
+      break;
+    case "openai-text":
+      for (const choice of body.choices ?? []) {
+        const text = truncate(choice.text);
+        if (text === undefined) continue;
+        choice.text = text;
+        choice.finish_reason = "stop";
+      }
+      break;
+    case "anthropic": {
+      const text = truncate(body.completion);
+      if (text === undefined) break;
+      body.completion = text;
+      body.stop_reason = "stop_sequence";
+      break;
+    }
+    case "anthropic-chat": {
+      const parts: { type: string; text?: string }[] = body.content ?? [];
+      const index = parts.findIndex((p) => truncate(p.text) !== undefined);
+      if (index === -1) break;
+      parts[index].text = truncate(parts[index].text);
+      body.content = parts.slice(0, index + 1);
+      body.stop_reason = "stop_sequence";
+      break;
+    }
+    case "google-palm":
+      for (const candidate of body.candidates ?? []) {
+        const text = truncate(candidate.output);
+        if (text !== undefined) candidate.output = text;
+      }
+      break;
+    case "google-ai":
+      for (const candidate of body.candidates ?? []) {
+        const parts: { text?: string }[] = candidate.content?.parts ?? [];
+        const index = parts.findIndex((p) => truncate(p.text) !== undefined);
+        if (index === -1) continue;
+        parts[index].text = truncate(parts[index].text);
+        candidate.content.parts = parts.slice(0, index + 1);
+        candidate.finishReason = "STOP";
+      }
+      break;
+    case "aws-llama2": {
+      const text = truncate(body.generation);
+      if (text === undefined) break;
+      body.generation = text;
+      body.stop_reason = "stop";
+      break;
+    }
+    case "aws-titan":
+      for (const result of body.results ?? []) {
+        const text = truncate(result.outputText);
+        if (text === undefined) continue;
+        result.outputText = text;
+        result.completionReason = "FINISH";
+      }
+      break;
+    default:
+      assertNever(format);
+  }
+}
@@ -1,4 +1,5 @@
 import express from "express";
+import * as http from "http";
 import { pipeline } from "stream";
 import { promisify } from "util";
 import {
@@ -11,7 +12,9 @@ import { decodeResponseBody, RawResponseBodyHandler, RetryableError } from ".";
 import { SSEStreamAdapter } from "./streaming/sse-stream-adapter";
 import { SSEMessageTransformer } from "./streaming/sse-message-transformer";
 import { EventAggregator } from "./streaming/event-aggregator";
+import { formatEventForClient } from "./streaming/client-events";
 import { keyPool } from "../../../shared/key-management";
+import { streamFanOutChoices, withChoiceIndex } from "../fan-out";
 
 const pipelineAsync = promisify(pipeline);
 
@@ -56,32 +59,69 @@ export const handleStreamedResponse: RawResponseBodyHandler = async (
     initializeSseStream(res);
   }
 
-  const prefersNativeEvents = req.inboundApi === req.outboundApi;
-  const contentType = proxyRes.headers["content-type"];
+  // Emulated stop sequences can only be enforced on transformed events.
+  const prefersNativeEvents =
+    req.inboundApi === req.outboundApi && !req.emulatedStops;
 
-  const adapter = new SSEStreamAdapter({ contentType });
-  const aggregator = new EventAggregator({ format: req.outboundApi });
-  const transformer = new SSEMessageTransformer({
-    inputFormat: req.outboundApi,
-    inputApiVersion: String(req.headers["anthropic-version"]),
-    logger: req.log,
-    requestId: String(req.id),
-    requestedModel: req.body.model,
-  })
-    .on("originalMessage", (msg: string) => {
-      if (prefersNativeEvents) res.write(msg);
+  // Streams one upstream response to the client and resolves with the
+  // aggregated response body. When the request is fanned out, the events of
+  // each choice's stream are interleaved as they arrive, distinguished by
+  // their choice index.
+  const pipeToClient = async (
+    stream: http.IncomingMessage,
+    choiceIndex: number
+  ) => {
+    const contentType = stream.headers["content-type"];
+    const adapter = new SSEStreamAdapter({ contentType });
+    const aggregator = new EventAggregator({ format: req.outboundApi });
+    // Cached responses are stored in the format the client asked for, so that
+    // they can be replayed to clients requesting the same completion.
+    const cacheAggregator =
+      req.cacheKey && choiceIndex === 0
+        ? new EventAggregator({ format: req.inboundApi })
+        : null;
+    const transformer = new SSEMessageTransformer({
+      inputFormat: req.outboundApi,
+      inputApiVersion: String(req.headers["anthropic-version"]),
+      logger: req.log,
+      requestId: String(req.id),
+      requestedModel: req.body.model,
+      stopSequences: req.emulatedStops,
     })
-    .on("data", (msg) => {
-      if (!prefersNativeEvents) res.write(`data: ${JSON.stringify(msg)}\n\n`);
-      aggregator.addEvent(msg);
-    });
+      .on("originalMessage", (msg: string) => {
+        if (prefersNativeEvents) res.write(msg);
+      })
+      .on("data", (msg) => {
+        if (!prefersNativeEvents && !res.writableEnded) {
+          const event = choiceIndex ? withChoiceIndex(msg, choiceIndex) : msg;
+          res.write(formatEventForClient(event, req));
+        }
+        aggregator.addEvent(msg);
+        cacheAggregator?.addEvent(msg);
+      });
 
+    await pipelineAsync(stream, adapter, transformer);
+    if (cacheAggregator) {
+      req.streamedCacheBody = cacheAggregator.getFinalResponse();
+    }
+    return aggregator.getFinalResponse();
+  };
+
+  const fanOutAbort = new AbortController();
   try {
-    await pipelineAsync(proxyRes, adapter, transformer);
+    const [body] = await Promise.all([
+      pipeToClient(proxyRes, 0),
+      streamFanOutChoices(req, fanOutAbort.signal, pipeToClient),
+    ]);
     req.log.debug({ key: hash }, `Finished proxying SSE stream.`);
+    if (req.emulatedStops && req.inboundApi === "openai-text") {
+      // Replaces the upstream's own terminator, which isn't transformed.
+      res.write("data: [DONE]\n\n");
+    }
     res.end();
-    return aggregator.getFinalResponse();
+    return body;
   } catch (err) {
+    fanOutAbort.abort();
     if (err instanceof RetryableError) {
       keyPool.markRateLimited(req.key!);
       req.log.warn(
@@ -14,10 +14,13 @@ import {
 } from "../../../shared/users/user-store";
 import { assertNever } from "../../../shared/utils";
 import {
-  getCompletionFromBody,
+  getCompletionsFromBody,
   isCompletionRequest,
   writeErrorResponse,
 } from "../common";
+import { collectFanOutChoices } from "../fan-out";
+import { storeCachedResponse } from "../response-cache";
+import { enforceEmulatedStops } from "./enforce-emulated-stops";
 import { handleStreamedResponse } from "./handle-streamed-response";
 import { logPrompt } from "./log-prompt";
 
@@ -97,12 +100,15 @@ export const createOnProxyResHandler = (apiMiddleware: ProxyResMiddleware) => {
           trackRateLimit,
           countResponseTokens,
           incrementUsage,
+          cacheStreamedResponse,
           logPrompt
         );
       } else {
         middlewareStack.push(
           trackRateLimit,
           handleUpstreamErrors,
+          collectFanOutChoices,
+          enforceEmulatedStops,
           countResponseTokens,
           incrementUsage,
           copyHttpHeaders,
@@ -285,12 +291,19 @@ const handleUpstreamErrors: ProxyResHandlerWithBody = async (
     switch (service) {
       case "openai":
       case "google-palm":
+      case "openai-compatible":
         errorPayload.proxy_note = `Upstream service rejected the request as invalid. Your prompt may be too long for ${req.body?.model}.`;
         break;
+      case "google-ai":
+        handleGoogleAIBadRequestError(req, tryAgainMessage, errorPayload);
+        break;
       case "anthropic":
       case "aws":
         maybeHandleMissingPreambleError(req, errorPayload);
         break;
+      case "azure":
+        handleAzureBadRequestError(req, errorPayload);
+        break;
       default:
         assertNever(service);
     }
@@ -328,6 +341,18 @@ const handleUpstreamErrors: ProxyResHandlerWithBody = async (
       case "aws":
         handleAwsRateLimitError(req, errorPayload);
         break;
+      case "google-ai":
+        handleGoogleAIRateLimitError(req, errorPayload);
+        break;
+      case "azure":
+        handleAzureRateLimitError(req, errorPayload);
+        break;
+      case "openai-compatible":
+        // We don't know what the backend's rate limit errors look like, so
+        // assume they are all transient.
+        keyPool.markRateLimited(req.key!);
+        reenqueueRequest(req);
+        throw new RetryableError("Rate-limited request re-enqueued.");
       case "google-palm":
         throw new Error("Rate limit handling not implemented for PaLM");
       default:
@@ -353,9 +378,24 @@ const handleUpstreamErrors: ProxyResHandlerWithBody = async (
       case "google-palm":
         errorPayload.proxy_note = `The requested Google PaLM model might not exist, or the key might not be provisioned for it.`;
         break;
+      case "google-ai":
+        errorPayload.proxy_note = `The requested Google AI model might not exist, or the key might not be provisioned for it.`;
+        break;
       case "aws":
         errorPayload.proxy_note = `The requested AWS resource might not exist, or the key might not have access to it.`;
         break;
+      case "azure":
+        if (errorPayload.error?.code === "DeploymentNotFound") {
+          // The deployment was deleted or the credential was misconfigured.
+          keyPool.disable(req.key!, "revoked");
+          errorPayload.proxy_note = `The Azure deployment assigned to your prompt no longer exists. ${tryAgainMessage}`;
+        } else {
+          errorPayload.proxy_note = `The requested Azure resource might not exist, or the key might not have access to it.`;
+        }
+        break;
+      case "openai-compatible":
+        errorPayload.proxy_note = `The requested model might not be served by the upstream backend, or OPENAI_COMPATIBLE_URL may be misconfigured.`;
+        break;
       default:
         assertNever(service);
     }
@@ -427,6 +467,80 @@ function handleAnthropicRateLimitError(
   }
 }
 
+function handleGoogleAIBadRequestError(
+  req: Request,
+  tryAgainMessage: string,
+  errorPayload: ProxiedErrorPayload
+) {
+  // Google reports invalid keys as a 400 rather than a 401.
+  const isInvalidKey = errorPayload.error?.details?.some(
+    (d: { reason?: string }) => d.reason === "API_KEY_INVALID"
+  );
+  if (isInvalidKey) {
+    keyPool.disable(req.key!, "revoked");
+    errorPayload.proxy_note = `API key is invalid or revoked. ${tryAgainMessage}`;
+  } else {
+    errorPayload.proxy_note = `Upstream service rejected the request as invalid. Your prompt may be too long for ${req.body?.model}.`;
+  }
+}
+
+function handleGoogleAIRateLimitError(
+  req: Request,
+  errorPayload: ProxiedErrorPayload
+) {
+  const status = errorPayload.error?.status;
+  switch (status) {
+    case "RESOURCE_EXHAUSTED":
+      keyPool.markRateLimited(req.key!);
+      reenqueueRequest(req);
+      throw new RetryableError("Google AI rate-limited request re-enqueued.");
+    default:
+      errorPayload.proxy_note = `Unrecognized rate limit error from Google AI. (${status})`;
+  }
+}
+
+/**
+ * Azure runs its own content filter on both prompts and completions. Filtered
+ * prompts are rejected with a 400 error whose `innererror` lists the
+ * categories that triggered the filter.
+ */
+function handleAzureBadRequestError(
+  req: Request,
+  errorPayload: ProxiedErrorPayload
+) {
+  if (errorPayload.error?.code !== "content_filter") {
+    errorPayload.proxy_note = `Upstream service rejected the request as invalid. Your prompt may be too long for ${req.body?.model}.`;
+    return;
+  }
+
+  const results = errorPayload.error?.innererror?.content_filter_result ?? {};
+  const categories = Object.entries(results)
+    .filter(([, result]) => (result as { filtered?: boolean })?.filtered)
+    .map(([category]) => category);
+  req.log.warn(
+    { key: req.key?.hash, categories },
+    "Azure content filter rejected the prompt."
+  );
+  const reason = categories.length ? ` (${categories.join(", ")})` : "";
+  errorPayload.proxy_note = `Azure's content filter rejected your prompt${reason}. This is not a problem with the proxy or the key; rephrase your prompt and try again.`;
+}
+
+function handleAzureRateLimitError(
+  req: Request,
+  errorPayload: ProxiedErrorPayload
+) {
+  const code = errorPayload.error?.code;
+  switch (code) {
+    case "429":
+      // Per-deployment tokens-per-minute or requests-per-minute limit.
+      keyPool.markRateLimited(req.key!);
+      reenqueueRequest(req);
+      throw new RetryableError("Azure rate-limited request re-enqueued.");
+    default:
+      errorPayload.proxy_note = `Unrecognized rate limit error from Azure. (${code})`;
+  }
+}
+
 function handleAwsRateLimitError(
   req: Request,
   errorPayload: ProxiedErrorPayload
@@ -483,7 +597,9 @@ function handleOpenAIRateLimitError(
 const incrementUsage: ProxyResHandlerWithBody = async (_proxyRes, req) => {
   if (isCompletionRequest(req)) {
     const model = req.body.model;
-    const tokensUsed = req.promptTokens! + req.outputTokens!;
+    // Fanned-out requests send the prompt upstream once per choice.
+    const promptCopies = 1 + (req.fanOut?.bodies.length ?? 0);
+    const tokensUsed = req.promptTokens! * promptCopies + req.outputTokens!;
     keyPool.incrementUsage(req.key!, model, tokensUsed);
     if (req.user) {
       incrementPromptCount(req.user.token);
@@ -505,8 +621,17 @@ const countResponseTokens: ProxyResHandlerWithBody = async (
   try {
     assertJsonResponse(body);
     const service = req.outboundApi;
-    const completion = getCompletionFromBody(req, body);
-    const tokens = await countTokens({ req, completion, service });
+    // Every choice counts, including those requested separately by fan-out.
+    const completions = [body, ...(req.fanOut?.bodies ?? [])].flatMap((b) =>
+      getCompletionsFromBody(req, b)
+    );
+    const counts = await Promise.all(
+      completions.map((completion) => countTokens({ req, completion, service }))
+    );
+    const tokens = {
+      ...counts[0],
+      token_count: counts.reduce((sum, c) => sum + c.token_count, 0),
+    };
 
     req.log.debug(
       { service, tokens, prevOutputTokens: req.outputTokens },
@@ -527,6 +652,15 @@ const countResponseTokens: ProxyResHandlerWithBody = async (
   }
 };
 
+const cacheStreamedResponse: ProxyResHandlerWithBody = async (
+  _proxyRes,
+  req
+) => {
+  if (req.streamedCacheBody) {
+    storeCachedResponse(req, req.streamedCacheBody);
+  }
+};
+
 const trackRateLimit: ProxyResHandlerWithBody = async (proxyRes, req) => {
   keyPool.updateRateLimits(req.key!, proxyRes.headers);
 };
@@ -536,6 +670,11 @@ const copyHttpHeaders: ProxyResHandlerWithBody = async (
   _req,
   res
 ) => {
+  // Emulated streams already opened an SSE response while in the queue.
+  if (res.headersSent) {
+    return;
+  }
+
   Object.keys(proxyRes.headers).forEach((key) => {
     // Omit content-encoding because we will always decode the response body
     if (key === "content-encoding") {
@@ -7,6 +7,11 @@ import {
   isCompletionRequest,
 } from "../common";
 import { ProxyResHandlerWithBody } from ".";
+import {
+  AnthropicChatMessage,
+  OpenAIPromptMessage,
+} from "../../../shared/tokenization";
+import { GoogleAIChatMessage } from "../request/transform-outbound-payload";
 import { assertNever } from "../../../shared/utils";
 
 /** If prompt logging is enabled, enqueues the prompt for logging. */
@@ -42,7 +47,8 @@ export const logPrompt: ProxyResHandlerWithBody = async (
 };
 
 type OaiMessage = {
-  role: "user" | "assistant" | "system";
+  // OpenAI requests may also contain `function` and `tool` messages.
+  role: string;
   content: string;
 };
 
@@ -52,18 +58,58 @@ const getPromptForRequest = (req: Request): string | OaiMessage[] => {
   // format.
   switch (req.outboundApi) {
     case "openai":
-      return req.body.messages;
+      return flattenOpenAIChatMessages(req.body.messages);
     case "openai-text":
       return req.body.prompt;
     case "anthropic":
       return req.body.prompt;
+    case "anthropic-chat":
+      return flattenAnthropicChatMessages(req.body.system, req.body.messages);
     case "google-palm":
       return req.body.prompt.text;
+    case "google-ai":
+      return req.body.contents.map((c: GoogleAIChatMessage) => ({
+        role: c.role === "model" ? "assistant" : "user",
+        content: c.parts.map((p) => p.text).join("\n"),
+      }));
+    case "aws-llama2":
+      return req.body.prompt;
+    case "aws-titan":
+      return req.body.inputText;
     default:
       assertNever(req.outboundApi);
   }
 };
 
+const flattenOpenAIChatMessages = (
+  messages: OpenAIPromptMessage[]
+): OaiMessage[] =>
+  messages.map((m) => ({
+    role: m.role,
+    content:
+      typeof m.content === "string" || !m.content
+        ? m.content ?? ""
+        : m.content
+            .map((p) => (p.type === "text" ? p.text : "(( Attached Image ))"))
+            .join("\n"),
+  }));
+
+const flattenAnthropicChatMessages = (
+  system: string | undefined,
+  messages: AnthropicChatMessage[]
+): OaiMessage[] => {
+  const flattened: OaiMessage[] = messages.map((m) => ({
+    role: m.role,
+    content:
+      typeof m.content === "string"
+        ? m.content
+        : m.content
+            .map((p) => (p.type === "text" ? p.text : "(( Attached Image ))"))
+            .join("\n"),
+  }));
+  return system ? [{ role: "system", content: system }, ...flattened] : flattened;
+};
+
 const flattenMessages = (messages: string | OaiMessage[]): string => {
   if (typeof messages === "string") {
     return messages.trim();
@@ -0,0 +1,31 @@
+import { OpenAIChatCompletionStreamEvent } from "../index";
+
+export type AwsLlama2CompletionResponse = {
+  generation: string;
+  stop_reason: string | null;
+};
+
+/**
+ * Given a list of OpenAI chat completion events, compiles them into a single
+ * finalized AWS Llama 2 response so that non-streaming middleware can operate
+ * on it as if it were a blocking response.
+ */
+export function mergeEventsForAwsLlama2(
+  events: OpenAIChatCompletionStreamEvent[]
+): AwsLlama2CompletionResponse {
+  let merged: AwsLlama2CompletionResponse = {
+    generation: "",
+    stop_reason: null,
+  };
+  merged = events.reduce((acc, event, i) => {
+    // The first event will only contain role assignment and response metadata
+    if (i === 0) return acc;
+
+    acc.stop_reason = event.choices[0].finish_reason;
+    if (event.choices[0].delta.content) {
+      acc.generation += event.choices[0].delta.content;
+    }
+    return acc;
+  }, merged);
+  return merged;
+}
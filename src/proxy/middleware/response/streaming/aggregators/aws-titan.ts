@@ -0,0 +1,32 @@
+import { OpenAIChatCompletionStreamEvent } from "../index";
+
+export type AwsTitanCompletionResponse = {
+  results: { outputText: string; completionReason: string | null }[];
+};
+
+/**
+ * Given a list of OpenAI chat completion events, compiles them into a single
+ * finalized AWS Titan Text response so that non-streaming middleware can
+ * operate on it as if it were a blocking response. The finish reason is kept
+ * in OpenAI's format.
+ */
+export function mergeEventsForAwsTitan(
+  events: OpenAIChatCompletionStreamEvent[]
+): AwsTitanCompletionResponse {
+  const result: AwsTitanCompletionResponse["results"][0] = {
+    outputText: "",
+    completionReason: null,
+  };
+
+  events.forEach((event, i) => {
+    // The first event will only contain role assignment and response metadata
+    if (i === 0) return;
+
+    result.completionReason = event.choices[0].finish_reason;
+    if (event.choices[0].delta.content) {
+      result.outputText += event.choices[0].delta.content;
+    }
+  });
+
+  return { results: [result] };
+}
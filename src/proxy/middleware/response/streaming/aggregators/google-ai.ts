@@ -0,0 +1,36 @@
+import { OpenAIChatCompletionStreamEvent } from "../index";
+
+export type GoogleAICompletionResponse = {
+  candidates: {
+    content: { parts: { text: string }[]; role: "model" };
+    finishReason: string | null;
+    index: number;
+  }[];
+};
+
+/**
+ * Given a list of OpenAI chat completion events, compiles them into a single
+ * finalized Google AI generateContent response so that non-streaming
+ * middleware can operate on it as if it were a blocking response.
+ */
+export function mergeEventsForGoogleAI(
+  events: OpenAIChatCompletionStreamEvent[]
+): GoogleAICompletionResponse {
+  const candidate: GoogleAICompletionResponse["candidates"][0] = {
+    content: { parts: [{ text: "" }], role: "model" },
+    finishReason: null,
+    index: 0,
+  };
+
+  events.forEach((event, i) => {
+    // The first event will only contain role assignment and response metadata
+    if (i === 0) return;
+
+    candidate.finishReason = event.choices[0].finish_reason;
+    if (event.choices[0].delta.content) {
+      candidate.content.parts[0].text += event.choices[0].delta.content;
+    }
+  });
+
+  return { candidates: [candidate] };
+}
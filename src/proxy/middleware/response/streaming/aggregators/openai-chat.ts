@@ -6,7 +6,16 @@ export type OpenAiChatCompletionResponse = {
   created: number;
   model: string;
   choices: {
-    message: { role: string; content: string };
+    message: {
+      role: string;
+      content: string | null;
+      function_call?: { name: string; arguments: string };
+      tool_calls?: {
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }[];
+    };
     finish_reason: string | null;
     index: number;
   }[];
@@ -15,7 +24,8 @@ export type OpenAiChatCompletionResponse = {
 /**
  * Given a list of OpenAI chat completion events, compiles them into a single
  * finalized OpenAI chat completion response so that non-streaming middleware
- * can operate on it as if it were a blocking response.
+ * can operate on it as if it were a blocking response. Events for multiple
+ * choices (`n` > 1) are merged by choice index.
  */
 export function mergeEventsForOpenAIChat(
   events: OpenAIChatCompletionStreamEvent[]
@@ -28,28 +38,44 @@ export function mergeEventsForOpenAIChat(
     choices: [],
   };
   merged = events.reduce((acc, event, i) => {
-    // The first event will only contain role assignment and response metadata
     if (i === 0) {
       acc.id = event.id;
       acc.object = event.object;
       acc.created = event.created;
       acc.model = event.model;
-      acc.choices = [
-        {
-          index: 0,
-          message: {
-            role: event.choices[0].delta.role ?? "assistant",
-            content: "",
-          },
-          finish_reason: null,
-        },
-      ];
-      return acc;
     }
 
-    acc.choices[0].finish_reason = event.choices[0].finish_reason;
-    if (event.choices[0].delta.content) {
-      acc.choices[0].message.content += event.choices[0].delta.content;
+    for (const { index, delta, finish_reason } of event.choices) {
+      // The first event for each choice only contains the role assignment
+      const choice = (acc.choices[index] ??= {
+        index,
+        message: { role: delta.role ?? "assistant", content: "" },
+        finish_reason: null,
+      });
+      const { message } = choice;
+      choice.finish_reason = finish_reason;
+      if (delta.content) {
+        message.content = (message.content ?? "") + delta.content;
+      }
+
+      // Function names and arguments are streamed in fragments which must be
+      // concatenated. Tool call fragments are matched up by their index.
+      if (delta.function_call) {
+        message.function_call ??= { name: "", arguments: "" };
+        message.function_call.name += delta.function_call.name ?? "";
+        message.function_call.arguments += delta.function_call.arguments ?? "";
+      }
+      delta.tool_calls?.forEach((fragment) => {
+        message.tool_calls ??= [];
+        const call = (message.tool_calls[fragment.index] ??= {
+          id: "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        call.id ||= fragment.id ?? "";
+        call.function.name += fragment.function?.name ?? "";
+        call.function.arguments += fragment.function?.arguments ?? "";
+      });
     }
 
     return acc;
@@ -29,26 +29,25 @@ export function mergeEventsForOpenAIText(
     choices: [],
   };
   merged = events.reduce((acc, event, i) => {
-    // The first event will only contain role assignment and response metadata
     if (i === 0) {
       acc.id = event.id;
       acc.object = event.object;
       acc.created = event.created;
       acc.model = event.model;
-      acc.choices = [
-        {
-          text: "",
-          index: 0,
-          finish_reason: null,
-          logprobs: null,
-        },
-      ];
-      return acc;
     }
 
-    acc.choices[0].finish_reason = event.choices[0].finish_reason;
-    if (event.choices[0].delta.content) {
-      acc.choices[0].text += event.choices[0].delta.content;
+    // Events for multiple choices (`n` > 1) are merged by choice index.
+    for (const { index, delta, finish_reason } of event.choices) {
+      const choice = (acc.choices[index] ??= {
+        text: "",
+        index,
+        finish_reason: null,
+        logprobs: null,
+      });
+      choice.finish_reason = finish_reason;
+      if (delta.content) {
+        choice.text += delta.content;
+      }
     }
 
     return acc;
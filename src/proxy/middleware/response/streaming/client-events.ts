@@ -0,0 +1,131 @@
+import { Request, Response } from "express";
+import { initializeSseStream } from "../../../../shared/streaming";
+import { OpenAIToolCall } from "../../../../shared/tool-emulation";
+import { OpenAIChatCompletionStreamEvent, openAIToAnthropic } from "./index";
+
+/**
+ * Serializes a transformed OpenAI chat.completion.chunk into the SSE format
+ * the client is expecting.
+ */
+export function formatEventForClient(
+  event: OpenAIChatCompletionStreamEvent,
+  req: Request
+) {
+  if (req.inboundApi === "anthropic") {
+    return openAIToAnthropic(event);
+  }
+  if (req.inboundApi === "openai-text") {
+    return `data: ${JSON.stringify(openAIChatToOpenAIText(event))}\n\n`;
+  }
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Converts a chat.completion.chunk back into a text_completion event. Only
+ * needed when events for text completion clients must be transformed, e.g.
+ * to enforce emulated stop sequences.
+ */
+function openAIChatToOpenAIText(event: OpenAIChatCompletionStreamEvent) {
+  return {
+    id: event.id,
+    object: "text_completion",
+    created: event.created,
+    model: event.model,
+    choices: event.choices.map((choice) => ({
+      text: choice.delta.content ?? "",
+      index: choice.index,
+      logprobs: null,
+      finish_reason: choice.finish_reason,
+    })),
+  };
+}
+
+export type EmulatedChoice = {
+  content: string | null;
+  finishReason: string | null;
+  toolCalls?: OpenAIToolCall[];
+  functionCall?: OpenAIToolCall["function"];
+};
+
+/**
+ * Gets the parameters for `sendEmulatedStream` from a finished OpenAI-format
+ * chat completion.
+ */
+export function getEmulatedStreamParams(
+  completion: Record<string, any>
+): EmulatedChoice[] {
+  return completion.choices.map((choice: Record<string, any>) => ({
+    content: choice.message.content,
+    finishReason: choice.finish_reason,
+    toolCalls: choice.message.tool_calls,
+    functionCall: choice.message.function_call,
+  }));
+}
+
+/**
+ * Replays a finished completion to the client as a sequence of SSE events,
+ * for APIs which can't stream responses themselves. The SSE stream is usually
+ * already open because the queue sends heartbeats while the request waits.
+ * If there are multiple choices, their events are interleaved.
+ */
+export function sendEmulatedStream(
+  req: Request,
+  res: Response,
+  choices: EmulatedChoice[]
+) {
+  if (!res.headersSent) {
+    initializeSseStream(res);
+  }
+
+  const base = {
+    id: "chatcmpl-" + req.id,
+    object: "chat.completion.chunk" as const,
+    created: Date.now(),
+    model: req.body.model,
+  };
+  const eventsByChoice = choices.map((choice, index) =>
+    getEmulatedChoiceEvents(choice).map(
+      (event): OpenAIChatCompletionStreamEvent => ({
+        ...base,
+        choices: [{ index, ...event }],
+      })
+    )
+  );
+
+  const rounds = Math.max(...eventsByChoice.map((events) => events.length));
+  for (let i = 0; i < rounds; i++) {
+    for (const events of eventsByChoice) {
+      if (events[i]) res.write(formatEventForClient(events[i], req));
+    }
+  }
+  if (req.inboundApi === "openai") {
+    res.write("data: [DONE]\n\n");
+  }
+  res.end();
+}
+
+function getEmulatedChoiceEvents({
+  content,
+  finishReason,
+  toolCalls,
+  functionCall,
+}: EmulatedChoice) {
+  const deltas: OpenAIChatCompletionStreamEvent["choices"][0]["delta"][] = [
+    { role: "assistant", content: "" },
+  ];
+  if (content) {
+    deltas.push({ content });
+  }
+  if (toolCalls?.length) {
+    deltas.push({ tool_calls: toolCalls.map((c, index) => ({ index, ...c })) });
+  }
+  if (functionCall) {
+    deltas.push({ function_call: functionCall });
+  }
+  deltas.push({});
+
+  return deltas.map((delta, i, all) => ({
+    delta,
+    finish_reason: i === all.length - 1 ? finishReason ?? "stop" : null,
+  }));
+}
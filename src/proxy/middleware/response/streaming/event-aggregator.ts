@@ -2,6 +2,10 @@ import { APIFormat } from "../../../../shared/key-management";
 import { assertNever } from "../../../../shared/utils";
 import {
   mergeEventsForAnthropic,
+  mergeEventsForAnthropicChat,
+  mergeEventsForAwsLlama2,
+  mergeEventsForAwsTitan,
+  mergeEventsForGoogleAI,
   mergeEventsForOpenAIChat,
   mergeEventsForOpenAIText,
   OpenAIChatCompletionStreamEvent
@@ -32,6 +36,14 @@ export class EventAggregator {
         return mergeEventsForOpenAIText(this.events);
       case "anthropic":
         return mergeEventsForAnthropic(this.events);
+      case "anthropic-chat":
+        return mergeEventsForAnthropicChat(this.events);
+      case "google-ai":
+        return mergeEventsForGoogleAI(this.events);
+      case "aws-llama2":
+        return mergeEventsForAwsLlama2(this.events);
+      case "aws-titan":
+        return mergeEventsForAwsTitan(this.events);
       case "google-palm":
         throw new Error("Google PaLM API does not support streaming responses");
       default:
@@ -13,7 +13,17 @@ export type OpenAIChatCompletionStreamEvent = {
   model: string;
   choices: {
     index: number;
-    delta: { role?: string; content?: string };
+    delta: {
+      role?: string;
+      content?: string | null;
+      function_call?: { name?: string; arguments?: string };
+      tool_calls?: {
+        index: number;
+        id?: string;
+        type?: "function";
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
     finish_reason: string | null;
   }[];
 }
@@ -25,6 +35,15 @@ export type StreamingCompletionTransformer = (
 export { openAITextToOpenAIChat } from "./transformers/openai-text-to-openai";
 export { anthropicV1ToOpenAI } from "./transformers/anthropic-v1-to-openai";
 export { anthropicV2ToOpenAI } from "./transformers/anthropic-v2-to-openai";
+export { anthropicChatToOpenAI } from "./transformers/anthropic-chat-to-openai";
+export { googleAIToOpenAI } from "./transformers/google-ai-to-openai";
+export { awsLlama2ToOpenAI } from "./transformers/aws-llama2-to-openai";
+export { awsTitanToOpenAI } from "./transformers/aws-titan-to-openai";
+export { openAIToAnthropic } from "./transformers/openai-to-anthropic";
 export { mergeEventsForOpenAIChat } from "./aggregators/openai-chat";
 export { mergeEventsForOpenAIText } from "./aggregators/openai-text";
 export { mergeEventsForAnthropic } from "./aggregators/anthropic";
+export { mergeEventsForAnthropicChat } from "./aggregators/anthropic-chat";
+export { mergeEventsForGoogleAI } from "./aggregators/google-ai";
+export { mergeEventsForAwsLlama2 } from "./aggregators/aws-llama2";
+export { mergeEventsForAwsTitan } from "./aggregators/aws-titan";
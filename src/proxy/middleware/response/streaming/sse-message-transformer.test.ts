@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { OpenAIChatCompletionStreamEvent } from "./index";
+import { SSEMessageTransformer } from "./sse-message-transformer";
+
+const STOPS = ["\n\nUser:", "###"];
+
+/** Formats each piece of text as an OpenAI chat completion stream event. */
+function toMessages(chunks: string[], finishReason: string | null = "stop") {
+  return chunks.map((content, i) => {
+    const last = i === chunks.length - 1;
+    const event: OpenAIChatCompletionStreamEvent = {
+      id: "chatcmpl-test",
+      object: "chat.completion.chunk",
+      created: 0,
+      model: "gpt-4",
+      choices: [
+        {
+          index: 0,
+          delta: { content },
+          finish_reason: last ? finishReason : null,
+        },
+      ],
+    };
+    return `data: ${JSON.stringify(event)}\n\n`;
+  });
+}
+
+/**
+ * Streams the messages through the transformer and returns the completion
+ * text and finish reason the client would receive.
+ */
+async function transform(messages: string[], stopSequences = STOPS) {
+  const transformer = new SSEMessageTransformer({
+    inputFormat: "openai",
+    requestId: "test",
+    requestedModel: "gpt-4",
+    stopSequences,
+  });
+  const events: OpenAIChatCompletionStreamEvent[] = [];
+  transformer.on("data", (event) => events.push(event));
+  await pipeline(Readable.from(messages), transformer);
+
+  const choices = events.flatMap((event) => event.choices);
+  return {
+    text: choices.map((choice) => choice.delta.content ?? "").join(""),
+    finishReason: choices.find((choice) => choice.finish_reason)?.finish_reason,
+  };
+}
+
+describe("SSEMessageTransformer stop sequences", () => {
+  it("stops at a stop sequence split across events", async () => {
+    const messages = toMessages(["Hello", " there\n", "\nUs", "er: what"]);
+    assert.deepEqual(await transform(messages), {
+      text: "Hello there",
+      finishReason: "stop",
+    });
+  });
+
+  it("stops at a stop sequence split across many events", async () => {
+    const messages = toMessages(["A", "#", "#", "#", "B"], null);
+    assert.deepEqual(await transform(messages), {
+      text: "A",
+      finishReason: "stop",
+    });
+  });
+
+  it("finds a stop sequence starting inside held text", async () => {
+    const messages = toMessages(["a#", "b##", "#c"], null);
+    assert.equal((await transform(messages)).text, "a#b");
+  });
+
+  it("releases held text when the stop sequence isn't completed", async () => {
+    const messages = toMessages(["Hello\n", "\nUs", "ually not"]);
+    assert.deepEqual(await transform(messages), {
+      text: "Hello\n\nUsually not",
+      finishReason: "stop",
+    });
+  });
+
+  it("releases held text with the final event", async () => {
+    const messages = toMessages(["Hello", "##"]);
+    assert.equal((await transform(messages)).text, "Hello##");
+  });
+
+  it("releases held text if the stream ends without a final event", async () => {
+    const messages = toMessages(["Hello", " there\n"], null);
+    assert.deepEqual(await transform(messages), {
+      text: "Hello there\n",
+      finishReason: undefined,
+    });
+  });
+
+  it("passes events through unchanged without stop sequences", async () => {
+    const messages = toMessages(["Hello", "##"], null);
+    assert.equal((await transform(messages, [])).text, "Hello##");
+  });
+});
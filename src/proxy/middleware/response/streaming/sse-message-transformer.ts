@@ -1,10 +1,18 @@
 import { Transform, TransformOptions } from "stream";
 import { logger } from "../../../../logger";
 import { APIFormat } from "../../../../shared/key-management";
+import {
+  findStopSequence,
+  getPartialStopLength,
+} from "../../../../shared/stop-sequences";
 import { assertNever } from "../../../../shared/utils";
 import {
+  anthropicChatToOpenAI,
   anthropicV1ToOpenAI,
   anthropicV2ToOpenAI,
+  awsLlama2ToOpenAI,
+  awsTitanToOpenAI,
+  googleAIToOpenAI,
   OpenAIChatCompletionStreamEvent,
   openAITextToOpenAIChat,
   StreamingCompletionTransformer,
@@ -18,9 +26,17 @@ type SSEMessageTransformerOptions = TransformOptions & {
   requestId: string;
   inputFormat: APIFormat;
   inputApiVersion?: string;
+  /** Stop sequences to enforce which the upstream API couldn't accept. */
+  stopSequences?: string[];
   logger?: typeof logger;
 };
 
+type ChoiceStopState = {
+  /** Text withheld because it might be the start of a stop sequence. */
+  held: string;
+  stopped: boolean;
+};
+
 /**
  * Transforms SSE messages from one API format to OpenAI chat.completion.chunks.
  * Emits the original string SSE message as an "originalMessage" event.
@@ -32,6 +48,9 @@ export class SSEMessageTransformer extends Transform {
   private readonly log;
   private readonly fallbackId: string;
   private readonly fallbackModel: string;
+  private readonly stops: string[];
+  private readonly stopStates = new Map<number, ChoiceStopState>();
+  private lastEvent: OpenAIChatCompletionStreamEvent | null = null;
 
   constructor(options: SSEMessageTransformerOptions) {
     super({ ...options, readableObjectMode: true });
@@ -44,6 +63,7 @@ export class SSEMessageTransformer extends Transform {
     );
     this.fallbackId = options.requestId;
     this.fallbackModel = options.requestedModel;
+    this.stops = options.stopSequences ?? [];
     this.log.debug(
       {
         fn: this.transformFn.name,
@@ -76,13 +96,87 @@ export class SSEMessageTransformer extends Transform {
         // TODO: does this need to be skipped for passthroughToOpenAI?
         this.push(createInitialMessage(transformedMessage));
       }
-      this.push(transformedMessage);
+      const event = this.enforceStops(transformedMessage);
+      if (event) this.push(event);
       callback();
     } catch (err) {
       this.log.error(err, "Error transforming SSE message");
       callback(err);
     }
   }
+
+  /**
+   * Releases text still held back for a possible stop sequence if the stream
+   * ends without a final event, e.g. because the upstream disconnected.
+   */
+  _flush(callback: Function) {
+    const choices = [...this.stopStates]
+      .filter(([, state]) => !state.stopped && state.held)
+      .map(([index, state]) => ({
+        index,
+        delta: { content: state.held },
+        finish_reason: null,
+      }));
+    this.stopStates.clear();
+    if (this.lastEvent && choices.length) {
+      this.push({ ...this.lastEvent, choices });
+    }
+    callback();
+  }
+
+  /**
+   * Cuts off each choice at the first emulated stop sequence, dropping the
+   * rest of its events. Text which could be the start of a stop sequence is
+   * held back until a later event shows whether it is one.
+   */
+  private enforceStops(
+    event: OpenAIChatCompletionStreamEvent
+  ): OpenAIChatCompletionStreamEvent | null {
+    if (!this.stops.length) return event;
+    this.lastEvent = event;
+
+    const choices = event.choices.flatMap((choice) => {
+      let state = this.stopStates.get(choice.index);
+      if (!state) {
+        state = { held: "", stopped: false };
+        this.stopStates.set(choice.index, state);
+      }
+      if (state.stopped) return [];
+
+      const { content } = choice.delta;
+      const text = state.held + (content ?? "");
+      const stopAt = findStopSequence(text, this.stops);
+      if (stopAt !== -1) {
+        state.stopped = true;
+        this.log.debug({ choice: choice.index }, "Emulated stop sequence hit");
+        return [
+          {
+            ...choice,
+            delta: { ...choice.delta, content: text.slice(0, stopAt) },
+            finish_reason: "stop",
+          },
+        ];
+      }
+
+      // Nothing can follow the last event, so held text is released.
+      const holdLength = choice.finish_reason
+        ? 0
+        : getPartialStopLength(text, this.stops);
+      state.held = text.slice(text.length - holdLength);
+      if (!text && content === undefined) return [choice];
+      return [
+        {
+          ...choice,
+          delta: {
+            ...choice.delta,
+            content: text.slice(0, text.length - holdLength),
+          },
+        },
+      ];
+    });
+
+    return choices.length ? { ...event, choices } : null;
+  }
 }
 
 function getTransformer(
@@ -98,6 +192,14 @@ function getTransformer(
       return version === "2023-01-01"
         ? anthropicV1ToOpenAI
         : anthropicV2ToOpenAI;
+    case "anthropic-chat":
+      return anthropicChatToOpenAI;
+    case "google-ai":
+      return googleAIToOpenAI;
+    case "aws-llama2":
+      return awsLlama2ToOpenAI;
+    case "aws-titan":
+      return awsTitanToOpenAI;
     case "google-palm":
       throw new Error("Google PaLM does not support streaming responses");
     default:
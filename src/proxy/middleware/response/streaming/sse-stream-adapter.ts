@@ -61,13 +61,11 @@ export class SSEStreamAdapter extends Transform {
       }
     } else {
       const { bytes } = payload;
+      const data = Buffer.from(bytes, "base64").toString("utf8");
       // technically this is a transformation but we don't really distinguish
       // between aws claude and anthropic claude at the APIFormat level, so
       // these will short circuit the message transformer
-      return [
-        "event: completion",
-        `data: ${Buffer.from(bytes, "base64").toString("utf8")}`,
-      ].join("\n");
+      return [`event: ${getAwsEventType(data)}`, `data: ${data}`].join("\n");
     }
   }
 
@@ -99,6 +97,19 @@ export class SSEStreamAdapter extends Transform {
   }
 }
 
+/**
+ * Text completion events from Bedrock have no type, but Messages API events
+ * carry the same `type` that Anthropic would send as the SSE event name.
+ */
+function getAwsEventType(data: string) {
+  try {
+    const { type } = JSON.parse(data);
+    return typeof type === "string" ? type : "completion";
+  } catch (e) {
+    return "completion";
+  }
+}
+
 function getFakeErrorCompletion(type: string, message: string) {
   const content = `\`\`\`\n[${type}: ${message}]\n\`\`\`\n`;
   const fakeEvent = JSON.stringify({
@@ -0,0 +1,93 @@
+import { StreamingCompletionTransformer } from "../index";
+import { parseEvent, ServerSentEvent } from "../parse-sse";
+import { logger } from "../../../../../logger";
+
+const log = logger.child({
+  module: "sse-transformer",
+  transformer: "anthropic-chat-to-openai",
+});
+
+type AnthropicChatStreamEvent =
+  | {
+      type: "message_start";
+      message: { id: string; model: string; role: string };
+    }
+  | { type: "content_block_start"; index: number }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta: { type: "text_delta"; text: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | {
+      type: "message_delta";
+      delta: { stop_reason: string | null; stop_sequence: string | null };
+      usage?: { output_tokens: number };
+    }
+  | { type: "message_stop" }
+  | { type: "ping" };
+
+/**
+ * Transforms an incoming Anthropic Messages API SSE to an equivalent OpenAI
+ * chat.completion.chunk SSE.
+ */
+export const anthropicChatToOpenAI: StreamingCompletionTransformer = (
+  params
+) => {
+  const { data } = params;
+
+  const rawEvent = parseEvent(data);
+  if (!rawEvent.data || rawEvent.data === "[DONE]") {
+    return { position: -1 };
+  }
+
+  const event = asChatEvent(rawEvent);
+  if (!event) {
+    return { position: -1 };
+  }
+
+  let delta: { role?: string; content?: string } = {};
+  let finishReason: string | null = null;
+  switch (event.type) {
+    case "message_start":
+      // Metadata only; the SSE transformer will turn this into the initial
+      // role assignment event.
+      delta = { content: "" };
+      break;
+    case "content_block_delta":
+      delta = { content: event.delta.text };
+      break;
+    case "message_delta":
+      finishReason = event.delta.stop_reason;
+      break;
+    default:
+      return { position: -1 };
+  }
+
+  const newEvent = {
+    id: "ant-" + params.fallbackId,
+    object: "chat.completion.chunk" as const,
+    created: Date.now(),
+    model: params.fallbackModel,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+
+  return { position: -1, event: newEvent };
+};
+
+function asChatEvent(event: ServerSentEvent): AnthropicChatStreamEvent | null {
+  if (event.type === "ping") return null;
+
+  try {
+    const parsed = JSON.parse(event.data);
+    if (typeof parsed.type === "string") {
+      return parsed;
+    } else {
+      // noinspection ExceptionCaughtLocallyJS
+      throw new Error("Missing required fields");
+    }
+  } catch (error) {
+    log.warn({ error: error.stack, event }, "Received invalid event");
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+import { StreamingCompletionTransformer } from "../index";
+import { parseEvent, ServerSentEvent } from "../parse-sse";
+import { logger } from "../../../../../logger";
+
+const log = logger.child({
+  module: "sse-transformer",
+  transformer: "aws-llama2-to-openai",
+});
+
+type AwsLlama2StreamEvent = {
+  generation: string;
+  stop_reason: "stop" | "length" | null;
+};
+
+/**
+ * Transforms an incoming AWS Bedrock Llama 2 stream chunk (already converted
+ * from the AWS event stream by SSEStreamAdapter) to an equivalent OpenAI
+ * chat.completion.chunk SSE.
+ */
+export const awsLlama2ToOpenAI: StreamingCompletionTransformer = (params) => {
+  const { data } = params;
+
+  const rawEvent = parseEvent(data);
+  if (!rawEvent.data) {
+    return { position: -1 };
+  }
+
+  const completionEvent = asCompletion(rawEvent);
+  if (!completionEvent) {
+    return { position: -1 };
+  }
+
+  const newEvent = {
+    id: "aws-" + params.fallbackId,
+    object: "chat.completion.chunk" as const,
+    created: Date.now(),
+    model: params.fallbackModel,
+    choices: [
+      {
+        index: 0,
+        delta: { content: completionEvent.generation },
+        finish_reason: completionEvent.stop_reason,
+      },
+    ],
+  };
+
+  return { position: -1, event: newEvent };
+};
+
+function asCompletion(event: ServerSentEvent): AwsLlama2StreamEvent | null {
+  try {
+    const parsed = JSON.parse(event.data);
+    if (typeof parsed.generation === "string") {
+      return parsed;
+    } else {
+      // noinspection ExceptionCaughtLocallyJS
+      throw new Error("Missing required fields");
+    }
+  } catch (error) {
+    log.warn({ error: error.stack, event }, "Received invalid event");
+  }
+  return null;
+}
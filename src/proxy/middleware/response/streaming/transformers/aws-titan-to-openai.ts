@@ -0,0 +1,78 @@
+import { StreamingCompletionTransformer } from "../index";
+import { parseEvent, ServerSentEvent } from "../parse-sse";
+import { logger } from "../../../../../logger";
+
+const log = logger.child({
+  module: "sse-transformer",
+  transformer: "aws-titan-to-openai",
+});
+
+type AwsTitanStreamEvent = {
+  outputText: string;
+  index: number;
+  completionReason: string | null;
+};
+
+/**
+ * Transforms an incoming AWS Bedrock Titan Text stream chunk (already
+ * converted from the AWS event stream by SSEStreamAdapter) to an equivalent
+ * OpenAI chat.completion.chunk SSE.
+ */
+export const awsTitanToOpenAI: StreamingCompletionTransformer = (params) => {
+  const { data } = params;
+
+  const rawEvent = parseEvent(data);
+  if (!rawEvent.data) {
+    return { position: -1 };
+  }
+
+  const completionEvent = asCompletion(rawEvent);
+  if (!completionEvent) {
+    return { position: -1 };
+  }
+
+  const newEvent = {
+    id: "aws-" + params.fallbackId,
+    object: "chat.completion.chunk" as const,
+    created: Date.now(),
+    model: params.fallbackModel,
+    choices: [
+      {
+        index: 0,
+        delta: { content: completionEvent.outputText },
+        finish_reason: getTitanFinishReason(completionEvent.completionReason),
+      },
+    ],
+  };
+
+  return { position: -1, event: newEvent };
+};
+
+export function getTitanFinishReason(reason?: string | null) {
+  switch (reason) {
+    case undefined:
+    case null:
+      return null;
+    case "FINISH":
+      return "stop";
+    case "LENGTH":
+      return "length";
+    default:
+      return reason.toLowerCase();
+  }
+}
+
+function asCompletion(event: ServerSentEvent): AwsTitanStreamEvent | null {
+  try {
+    const parsed = JSON.parse(event.data);
+    if (typeof parsed.outputText === "string") {
+      return parsed;
+    } else {
+      // noinspection ExceptionCaughtLocallyJS
+      throw new Error("Missing required fields");
+    }
+  } catch (error) {
+    log.warn({ error: error.stack, event }, "Received invalid event");
+  }
+  return null;
+}
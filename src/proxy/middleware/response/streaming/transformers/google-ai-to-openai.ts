@@ -0,0 +1,84 @@
+import { StreamingCompletionTransformer } from "../index";
+import { parseEvent, ServerSentEvent } from "../parse-sse";
+import { logger } from "../../../../../logger";
+
+const log = logger.child({
+  module: "sse-transformer",
+  transformer: "google-ai-to-openai",
+});
+
+type GoogleAIStreamEvent = {
+  candidates?: {
+    content?: { parts: { text: string }[]; role: string };
+    finishReason?: string;
+    index: number;
+  }[];
+};
+
+/**
+ * Transforms an incoming Google AI SSE (`streamGenerateContent?alt=sse`) to an
+ * equivalent OpenAI chat.completion.chunk SSE.
+ */
+export const googleAIToOpenAI: StreamingCompletionTransformer = (params) => {
+  const { data } = params;
+
+  const rawEvent = parseEvent(data);
+  if (!rawEvent.data || rawEvent.data === "[DONE]") {
+    return { position: -1 };
+  }
+
+  const completionEvent = asCompletion(rawEvent);
+  if (!completionEvent) {
+    return { position: -1 };
+  }
+
+  const candidate = completionEvent.candidates?.[0];
+  const content = (candidate?.content?.parts ?? [])
+    .map((part) => part.text)
+    .join("");
+
+  const newEvent = {
+    id: "gai-" + params.fallbackId,
+    object: "chat.completion.chunk" as const,
+    created: Date.now(),
+    model: params.fallbackModel,
+    choices: [
+      {
+        index: 0,
+        delta: { content },
+        finish_reason: getFinishReason(candidate?.finishReason),
+      },
+    ],
+  };
+
+  return { position: -1, event: newEvent };
+};
+
+function getFinishReason(reason?: string) {
+  switch (reason) {
+    case undefined:
+    case "FINISH_REASON_UNSPECIFIED":
+      return null;
+    case "STOP":
+      return "stop";
+    case "MAX_TOKENS":
+      return "length";
+    default:
+      return reason.toLowerCase();
+  }
+}
+
+function asCompletion(event: ServerSentEvent): GoogleAIStreamEvent | null {
+  try {
+    const parsed = JSON.parse(event.data);
+    if (Array.isArray(parsed.candidates) || parsed.promptFeedback) {
+      return parsed;
+    } else {
+      // noinspection ExceptionCaughtLocallyJS
+      throw new Error("Missing required fields");
+    }
+  } catch (error) {
+    log.warn({ error: error.stack, event }, "Received invalid event");
+  }
+  return null;
+}
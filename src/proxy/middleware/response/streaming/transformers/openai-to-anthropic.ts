@@ -0,0 +1,32 @@
+import { OpenAIChatCompletionStreamEvent } from "../index";
+
+/**
+ * Transforms an OpenAI chat.completion.chunk into an equivalent Anthropic SSE
+ * (2023-06-01 API), for clients using the Anthropic API format to access a
+ * non-Anthropic backend. Returns the complete SSE message string.
+ */
+export function openAIToAnthropic(event: OpenAIChatCompletionStreamEvent) {
+  const choice = event.choices[0];
+  const finishReason = choice?.finish_reason;
+
+  let stopReason: string | null = null;
+  if (finishReason === "length") {
+    stopReason = "max_tokens";
+  } else if (finishReason) {
+    stopReason = "stop_sequence";
+  }
+
+  const anthropicEvent = {
+    type: "completion",
+    completion: choice?.delta?.content ?? "",
+    stop_reason: stopReason,
+    model: event.model,
+    log_id: event.id,
+  };
+
+  return (
+    ["event: completion", `data: ${JSON.stringify(anthropicEvent)}`].join(
+      "\n"
+    ) + "\n\n"
+  );
+}
@@ -19,7 +19,8 @@ export const passthroughToOpenAI = (params: SSEResponseTransformArgs) => {
   }
 
   const completionEvent = asCompletion(rawEvent);
-  if (!completionEvent) {
+  // Azure sends content filter results as events without any choices.
+  if (!completionEvent?.choices?.length) {
     return { position: -1 };
   }
 
@@ -0,0 +1,288 @@
+/**
+ * Lists every model which can currently be served by the proxy, across all
+ * services. Models are only listed if at least one enabled key supports their
+ * family and the family is allowed by `ALLOWED_MODEL_FAMILIES`. Models which
+ * not every key of their family can use, such as Claude 3, are only listed once
+ * the key checker has confirmed that one of those keys can use them. Each
+ * service's own `/v1/models` endpoint lists the subset of models it serves.
+ */
+import { RequestHandler } from "express";
+import { config } from "../config";
+import { APIFormat, keyPool, LLMService } from "../shared/key-management";
+import { OPENAI_COMPATIBLE_MODEL_PREFIX } from "../shared/key-management/openai-compatible/provider";
+import {
+  getAwsBedrockModelFamily,
+  getAzureOpenAIModelFamily,
+  getOpenAIModelFamily,
+  ModelFamily,
+} from "../shared/models";
+import {
+  getModelMaxContextSize,
+  getProxyMaxContextSize,
+} from "./middleware/request/validate-context-size";
+
+type ModelInfo = {
+  /** The model name clients should send. */
+  id: string;
+  family: ModelFamily;
+  service: LLMService;
+  /** Format of requests sent upstream, which determines proxy limits. */
+  format: APIFormat;
+  /** Path of the proxy endpoint which serves the model. */
+  endpoint: string;
+  owner: string;
+  /** Name used for context size lookups, if different from `id`. */
+  internalId?: string;
+  /** Whether keys must be confirmed to have access to this model. */
+  gated?: boolean;
+};
+
+const OPENAI_CHAT_MODELS = [
+  "gpt-4",
+  "gpt-4-0613",
+  "gpt-4-0314",
+  "gpt-4-32k",
+  "gpt-4-32k-0613",
+  "gpt-4-32k-0314",
+  "gpt-3.5-turbo",
+  "gpt-3.5-turbo-0301",
+  "gpt-3.5-turbo-0613",
+  "gpt-3.5-turbo-16k",
+  "gpt-3.5-turbo-16k-0613",
+];
+const OPENAI_EMBEDDING_MODELS = ["text-embedding-ada-002"];
+const OPENAI_INSTRUCT_MODELS = [
+  "gpt-3.5-turbo-instruct",
+  "gpt-3.5-turbo-instruct-0914",
+];
+const CLAUDE_MODELS = [
+  "claude-v1",
+  "claude-v1-100k",
+  "claude-instant-v1",
+  "claude-instant-v1-100k",
+  "claude-v1.3",
+  "claude-v1.3-100k",
+  "claude-v1.2",
+  "claude-v1.0",
+  "claude-instant-v1.1",
+  "claude-instant-v1.1-100k",
+  "claude-instant-v1.0",
+  "claude-2",
+  "claude-2.0",
+  "claude-2.1",
+  "claude-3-haiku-20240307",
+  "claude-3-sonnet-20240229",
+  "claude-3-opus-20240229",
+];
+const AWS_MODELS = [
+  "anthropic.claude-v1",
+  "anthropic.claude-v2",
+  "anthropic.claude-3-haiku-20240307-v1:0",
+  "anthropic.claude-3-sonnet-20240229-v1:0",
+  "meta.llama2-13b-chat-v1",
+  "meta.llama2-70b-chat-v1",
+  "amazon.titan-text-lite-v1",
+  "amazon.titan-text-express-v1",
+];
+const AZURE_MODELS = ["gpt-4", "gpt-4-32k", "gpt-3.5-turbo"];
+
+const AWS_ENDPOINTS = {
+  "aws-claude": "/proxy/aws/claude",
+  "aws-llama2": "/proxy/aws/llama2",
+  "aws-titan": "/proxy/aws/titan",
+};
+
+function getAwsModelInfo(id: string): ModelInfo {
+  const family = getAwsBedrockModelFamily(id);
+  let format: APIFormat;
+  let owner: string;
+  switch (family) {
+    case "aws-claude":
+      format = id.includes("claude-3") ? "anthropic-chat" : "anthropic";
+      owner = "anthropic";
+      break;
+    case "aws-llama2":
+      format = "aws-llama2";
+      owner = "meta";
+      break;
+    case "aws-titan":
+      format = "aws-titan";
+      owner = "amazon";
+      break;
+  }
+  return {
+    id,
+    family,
+    service: "aws",
+    format,
+    endpoint: AWS_ENDPOINTS[family],
+    owner,
+    gated: id.includes("claude-3"),
+  };
+}
+
+function getKnownModels(): ModelInfo[] {
+  return [
+    ...OPENAI_CHAT_MODELS.map(
+      (id): ModelInfo => ({
+        id,
+        family: getOpenAIModelFamily(id),
+        service: "openai",
+        format: "openai",
+        endpoint: "/proxy/openai",
+        owner: "openai",
+      })
+    ),
+    ...OPENAI_EMBEDDING_MODELS.map(
+      (id): ModelInfo => ({
+        id,
+        family: getOpenAIModelFamily(id),
+        service: "openai",
+        format: "openai",
+        endpoint: "/proxy/openai",
+        owner: "openai",
+      })
+    ),
+    ...OPENAI_INSTRUCT_MODELS.map(
+      (id): ModelInfo => ({
+        id,
+        family: "turbo",
+        service: "openai",
+        format: "openai-text",
+        endpoint: "/proxy/openai/turbo-instruct",
+        owner: "openai",
+      })
+    ),
+    ...CLAUDE_MODELS.map(
+      (id): ModelInfo => ({
+        id,
+        family: "claude",
+        service: "anthropic",
+        format: id.startsWith("claude-3") ? "anthropic-chat" : "anthropic",
+        endpoint: "/proxy/anthropic",
+        owner: "anthropic",
+        gated: id.startsWith("claude-3"),
+      })
+    ),
+    {
+      id: "text-bison-001",
+      family: "bison",
+      service: "google-palm",
+      format: "google-palm",
+      endpoint: "/proxy/google-palm",
+      owner: "google",
+    },
+    {
+      id: "gemini-pro",
+      family: "gemini-pro",
+      service: "google-ai",
+      format: "google-ai",
+      endpoint: "/proxy/google-ai",
+      owner: "google",
+    },
+    ...AWS_MODELS.map(getAwsModelInfo),
+    // Azure models are listed with the prefix the Azure router adds so that
+    // they can't be confused with the same models hosted by OpenAI.
+    ...AZURE_MODELS.map(
+      (id): ModelInfo => ({
+        id: `azure-${id}`,
+        family: getAzureOpenAIModelFamily(`azure-${id}`),
+        service: "azure",
+        format: "openai",
+        endpoint: "/proxy/azure",
+        owner: "azure",
+      })
+    ),
+    ...config.openaiCompatibleModels.map(
+      (id): ModelInfo => ({
+        id,
+        family: "openai-compatible",
+        service: "openai-compatible",
+        format: "openai",
+        endpoint: "/proxy/openai-compatible",
+        owner: "openai-compatible",
+        internalId: OPENAI_COMPATIBLE_MODEL_PREFIX + id,
+      })
+    ),
+  ];
+}
+
+export function getAvailableModelFamilies() {
+  const allowed = new Set<ModelFamily>(config.allowedModelFamilies);
+  const available = new Set<ModelFamily>();
+  for (const key of keyPool.list()) {
+    if (key.isDisabled) continue;
+    key.modelFamilies
+      .filter((family) => allowed.has(family))
+      .forEach((family) => available.add(family));
+  }
+  return available;
+}
+
+/** Returns null if the model's context size is unknown or unlimited. */
+function getContextLength({ id, internalId, format }: ModelInfo) {
+  const max = Math.min(
+    getModelMaxContextSize(internalId ?? id) ?? Number.MAX_SAFE_INTEGER,
+    getProxyMaxContextSize(format)
+  );
+  return max === Number.MAX_SAFE_INTEGER ? null : max;
+}
+
+/** Returns the models which at least one enabled key can serve. */
+function getServableModels() {
+  const available = getAvailableModelFamilies();
+  const keys = keyPool.list().filter((key) => !key.isDisabled);
+  return getKnownModels().filter(
+    (model) =>
+      available.has(model.family) &&
+      (!model.gated ||
+        keys.some(
+          (key) =>
+            key.modelFamilies.includes(model.family) &&
+            key.confirmedModels?.includes(model.id)
+        ))
+  );
+}
+
+let modelsCache: ModelInfo[] = [];
+let modelsCacheTime = 0;
+
+function getModelsResponse(filter?: (model: ModelInfo) => boolean) {
+  if (new Date().getTime() - modelsCacheTime >= 1000 * 60) {
+    modelsCache = getServableModels();
+    modelsCacheTime = new Date().getTime();
+  }
+
+  const models = (filter ? modelsCache.filter(filter) : modelsCache).map(
+    (model) => ({
+      id: model.id,
+      object: "model",
+      created: new Date().getTime(),
+      owned_by: model.owner,
+      permission: [],
+      root: model.id,
+      parent: null,
+      context_length: getContextLength(model),
+      service: model.service,
+      family: model.family,
+      endpoint: model.endpoint,
+    })
+  );
+  return { object: "list", data: models };
+}
+
+export const handleModelRequest: RequestHandler = (_req, res) => {
+  res.status(200).json(getModelsResponse());
+};
+
+/**
+ * Lists the models served by one service's endpoints, or only those of one of
+ * its families for services like AWS with an endpoint per family.
+ */
+export const createModelListHandler =
+  (service: LLMService, family?: ModelFamily): RequestHandler =>
+  (_req, res) => {
+    const filter = (model: ModelInfo) =>
+      model.service === service && (!family || model.family === family);
+    res.status(200).json(getModelsResponse(filter));
+  };
@@ -0,0 +1,113 @@
+import { Router } from "express";
+import { createProxyMiddleware } from "http-proxy-middleware";
+import { config } from "../config";
+import { UserInputError } from "../shared/errors";
+import { OPENAI_COMPATIBLE_MODEL_PREFIX } from "../shared/key-management/openai-compatible/provider";
+import { logger } from "../logger";
+import { createModelListHandler } from "./models";
+import { createQueueMiddleware } from "./queue";
+import { ipLimiter } from "./rate-limit";
+import { handleProxyError } from "./middleware/common";
+import {
+  addKey,
+  applyQuotaLimits,
+  blockZoomerOrigins,
+  createOnProxyReqHandler,
+  createPreprocessorMiddleware,
+  finalizeOpenAICompatibleBody,
+  languageFilter,
+  limitCompletions,
+  RequestPreprocessor,
+  stripHeaders,
+} from "./middleware/request";
+import {
+  createOnProxyResHandler,
+  ProxyResHandlerWithBody,
+} from "./middleware/response";
+
+/**
+ * Checks the requested model against the configured model list, then prefixes
+ * it so that the queue, key pool and quota tracking route the request to the
+ * OpenAI-compatible backend.
+ */
+const prefixOpenAICompatibleModel: RequestPreprocessor = (req) => {
+  const models = config.openaiCompatibleModels;
+  const model = req.body.model || models[0];
+  if (!model) {
+    throw new UserInputError("You must specify a model with your request.");
+  }
+  if (models.length && !models.includes(model)) {
+    throw new UserInputError(
+      `Model '${model}' is not available. Available models: ${models.join(
+        ", "
+      )}`
+    );
+  }
+  req.body.model = `${OPENAI_COMPATIBLE_MODEL_PREFIX}${model}`;
+};
+
+const openaiCompatibleResponseHandler: ProxyResHandlerWithBody = async (
+  _proxyRes,
+  req,
+  res,
+  body
+) => {
+  if (typeof body !== "object") {
+    throw new Error("Expected body to be an object");
+  }
+
+  if (config.promptLogging) {
+    const host = req.get("host");
+    body.proxy_note = `Prompts are logged on this proxy instance. See ${host} for more information.`;
+  }
+
+  if (req.debug) {
+    body.proxy_tokenizer_debug_info = req.debug;
+  }
+
+  res.status(200).json(body);
+};
+
+const openaiCompatibleProxy = createQueueMiddleware({
+  proxyMiddleware: createProxyMiddleware({
+    // Requests are rejected by addKey if no backend is configured.
+    target: config.openaiCompatibleUrl || "http://localhost",
+    // The configured base URL already includes the version prefix.
+    pathRewrite: { "^/v1/chat/completions": "/chat/completions" },
+    changeOrigin: true,
+    selfHandleResponse: true,
+    logger,
+    on: {
+      proxyReq: createOnProxyReqHandler({
+        pipeline: [
+          applyQuotaLimits,
+          addKey,
+          languageFilter,
+          limitCompletions,
+          blockZoomerOrigins,
+          stripHeaders,
+          finalizeOpenAICompatibleBody,
+        ],
+      }),
+      proxyRes: createOnProxyResHandler([openaiCompatibleResponseHandler]),
+      error: handleProxyError,
+    },
+  }),
+});
+
+const openaiCompatibleRouter = Router();
+openaiCompatibleRouter.get(
+  "/v1/models",
+  createModelListHandler("openai-compatible")
+);
+openaiCompatibleRouter.post(
+  "/v1/chat/completions",
+  ipLimiter,
+  createPreprocessorMiddleware(
+    { inApi: "openai", outApi: "openai", service: "openai-compatible" },
+    { beforeTransform: [prefixOpenAICompatibleModel] }
+  ),
+  openaiCompatibleProxy
+);
+
+export const openaiCompatible = openaiCompatibleRouter;
@@ -1,13 +1,10 @@
-import { RequestHandler, Router } from "express";
+import { Request, Router } from "express";
 import { createProxyMiddleware } from "http-proxy-middleware";
+import { v4 } from "uuid";
 import { config } from "../config";
-import { keyPool } from "../shared/key-management";
-import {
-  ModelFamily,
-  OpenAIModelFamily,
-  getOpenAIModelFamily,
-} from "../shared/models";
 import { logger } from "../logger";
+import { registerFailoverTarget } from "./failover";
+import { createModelListHandler } from "./models";
 import { createQueueMiddleware } from "./queue";
 import { ipLimiter } from "./rate-limit";
 import { handleProxyError } from "./middleware/common";
@@ -20,7 +17,6 @@ import {
   createEmbeddingsPreprocessorMiddleware,
   createPreprocessorMiddleware,
   finalizeBody,
-  forceModel,
   languageFilter,
   limitCompletions,
   stripHeaders,
@@ -32,73 +28,6 @@ import {
   ProxyResHandlerWithBody,
 } from "./middleware/response";
 
-let modelsCache: any = null;
-let modelsCacheTime = 0;
-
-function getModelsResponse() {
-  if (new Date().getTime() - modelsCacheTime < 1000 * 60) {
-    return modelsCache;
-  }
-
-  // https://platform.openai.com/docs/models/overview
-  const knownModels = [
-    "gpt-4",
-    "gpt-4-0613",
-    "gpt-4-0314", // EOL 2024-06-13
-    "gpt-4-32k",
-    "gpt-4-32k-0613",
-    "gpt-4-32k-0314", // EOL 2024-06-13
-    "gpt-3.5-turbo",
-    "gpt-3.5-turbo-0301", // EOL 2024-06-13
-    "gpt-3.5-turbo-0613",
-    "gpt-3.5-turbo-16k",
-    "gpt-3.5-turbo-16k-0613",
-    "gpt-3.5-turbo-instruct",
-    "gpt-3.5-turbo-instruct-0914",
-    "text-embedding-ada-002",
-  ];
-
-  let available = new Set<OpenAIModelFamily>();
-  for (const key of keyPool.list()) {
-    if (key.isDisabled || key.service !== "openai") continue;
-    key.modelFamilies.forEach((family) =>
-      available.add(family as OpenAIModelFamily)
-    );
-  }
-  const allowed = new Set<ModelFamily>(config.allowedModelFamilies);
-  available = new Set([...available].filter((x) => allowed.has(x)));
-
-  const models = knownModels
-    .map((id) => ({
-      id,
-      object: "model",
-      created: new Date().getTime(),
-      owned_by: "openai",
-      permission: [
-        {
-          id: "modelperm-" + id,
-          object: "model_permission",
-          created: new Date().getTime(),
-          organization: "*",
-          group: null,
-          is_blocking: false,
-        },
-      ],
-      root: id,
-      parent: null,
-    }))
-    .filter((model) => available.has(getOpenAIModelFamily(model.id)));
-
-  modelsCache = { object: "list", data: models };
-  modelsCacheTime = new Date().getTime();
-
-  return modelsCache;
-}
-
-const handleModelRequest: RequestHandler = (_req, res) => {
-  res.status(200).json(getModelsResponse());
-};
-
 /** Handles some turbo-instruct special cases. */
 const rewriteForTurboInstruct: RequestPreprocessor = (req) => {
   // /v1/turbo-instruct/v1/chat/completions accepts either prompt or messages.
@@ -108,9 +37,6 @@ const rewriteForTurboInstruct: RequestPreprocessor = (req) => {
     req.inboundApi = "openai-text";
   } else if (req.body.messages && !req.body.prompt) {
     req.inboundApi = "openai";
-    // Set model for user since they're using a client which is not aware of
-    // turbo-instruct.
-    req.body.model = "gpt-3.5-turbo-instruct";
   } else {
     throw new Error("`prompt` OR `messages` must be provided");
   }
@@ -118,6 +44,11 @@ const rewriteForTurboInstruct: RequestPreprocessor = (req) => {
   req.url = "/v1/completions";
 };
 
+/** Sends Anthropic-formatted requests to the OpenAI chat endpoint. */
+const rewriteForAnthropicClient: RequestPreprocessor = (req) => {
+  req.url = "/v1/chat/completions";
+};
+
 const openaiResponseHandler: ProxyResHandlerWithBody = async (
   _proxyRes,
   req,
@@ -138,6 +69,11 @@ const openaiResponseHandler: ProxyResHandlerWithBody = async (
     body = transformTurboInstructResponse(body);
   }
 
+  if (req.outboundApi === "openai" && req.inboundApi === "anthropic") {
+    req.log.info("Transforming OpenAI response to Anthropic format");
+    body = transformOpenAIResponseToAnthropic(body, req);
+  }
+
   // TODO: Remove once tokenization is stable
   if (req.debug) {
     body.proxy_tokenizer_debug_info = req.debug;
@@ -151,19 +87,38 @@ function transformTurboInstructResponse(
   turboInstructBody: Record<string, any>
 ): Record<string, any> {
   const transformed = { ...turboInstructBody };
-  transformed.choices = [
-    {
-      ...turboInstructBody.choices[0],
-      message: {
-        role: "assistant",
-        content: turboInstructBody.choices[0].text.trim(),
-      },
-    },
-  ];
-  delete transformed.choices[0].text;
+  transformed.choices = turboInstructBody.choices.map(
+    ({ text, ...choice }: Record<string, any>) => ({
+      ...choice,
+      message: { role: "assistant", content: text.trim() },
+    })
+  );
   return transformed;
 }
 
+/**
+ * Transforms an OpenAI chat completion to match those from the Anthropic API,
+ * for users using GPT via the Anthropic-compatible endpoint. Only used for
+ * non-streaming responses.
+ */
+function transformOpenAIResponseToAnthropic(
+  openaiBody: Record<string, any>,
+  req: Request
+): Record<string, any> {
+  const choice = openaiBody.choices?.[0];
+  return {
+    type: "completion",
+    id: "oai-" + v4(),
+    completion: choice?.message?.content ?? "",
+    stop_reason:
+      choice?.finish_reason === "length" ? "max_tokens" : "stop_sequence",
+    stop: null,
+    model: openaiBody.model ?? req.body.model,
+    log_id: openaiBody.id,
+    ...(openaiBody.proxy_note ? { proxy_note: openaiBody.proxy_note } : {}),
+  };
+}
+
 const openaiProxy = createQueueMiddleware({
   proxyMiddleware: createProxyMiddleware({
     target: "https://api.openai.com",
@@ -202,7 +157,7 @@ const openaiEmbeddingsProxy = createProxyMiddleware({
 });
 
 const openaiRouter = Router();
-openaiRouter.get("/v1/models", handleModelRequest);
+openaiRouter.get("/v1/models", createModelListHandler("openai"));
 // Native text completion endpoint, only for turbo-instruct.
 openaiRouter.post(
   "/v1/completions",
@@ -220,10 +175,7 @@ openaiRouter.post(
   ipLimiter,
   createPreprocessorMiddleware(
     { inApi: "openai", outApi: "openai-text", service: "openai" },
-    {
-      beforeTransform: [rewriteForTurboInstruct],
-      afterTransform: [forceModel("gpt-3.5-turbo-instruct")],
-    }
+    { beforeTransform: [rewriteForTurboInstruct] }
   ),
   openaiProxy
 );
@@ -238,6 +190,32 @@ openaiRouter.post(
   }),
   openaiProxy
 );
+// Anthropic-to-OpenAI compatibility endpoint.
+openaiRouter.post(
+  "/v1/complete",
+  ipLimiter,
+  createPreprocessorMiddleware(
+    { inApi: "anthropic", outApi: "openai", service: "openai" },
+    { beforeTransform: [rewriteForAnthropicClient] }
+  ),
+  openaiProxy
+);
+
+registerFailoverTarget({
+  models: { turbo: "gpt-3.5-turbo", gpt4: "gpt-4", "gpt4-32k": "gpt-4-32k" },
+  endpoints: [
+    {
+      path: "/v1/chat/completions",
+      apiFormat: { inApi: "openai", outApi: "openai", service: "openai" },
+    },
+    {
+      path: "/v1/complete",
+      apiFormat: { inApi: "anthropic", outApi: "openai", service: "openai" },
+      options: { beforeTransform: [rewriteForAnthropicClient] },
+    },
+  ],
+  proxy: openaiProxy,
+});
 // Embeddings endpoint.
 openaiRouter.post(
   "/v1/embeddings",
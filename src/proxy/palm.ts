@@ -1,20 +1,23 @@
-import { Request, RequestHandler, Router } from "express";
+import { Request, Router } from "express";
 import * as http from "http";
 import { createProxyMiddleware } from "http-proxy-middleware";
 import { v4 } from "uuid";
 import { config } from "../config";
 import { logger } from "../logger";
+import { registerFailoverTarget } from "./failover";
+import { createModelListHandler } from "./models";
 import { createQueueMiddleware } from "./queue";
 import { ipLimiter } from "./rate-limit";
 import { handleProxyError } from "./middleware/common";
+import { mergeFanOutChoices } from "./middleware/fan-out";
 import {
+  RequestPreprocessor,
   addKey,
   applyQuotaLimits,
   blockZoomerOrigins,
   createOnProxyReqHandler,
   createPreprocessorMiddleware,
   finalizeBody,
-  forceModel,
   languageFilter,
   stripHeaders,
 } from "./middleware/request";
@@ -22,40 +25,16 @@ import {
   createOnProxyResHandler,
   ProxyResHandlerWithBody,
 } from "./middleware/response";
+import {
+  getEmulatedStreamParams,
+  sendEmulatedStream,
+} from "./middleware/response/streaming/client-events";
+import { storeCachedResponse } from "./middleware/response-cache";
 
-let modelsCache: any = null;
-let modelsCacheTime = 0;
-
-const getModelsResponse = () => {
-  if (new Date().getTime() - modelsCacheTime < 1000 * 60) {
-    return modelsCache;
-  }
-
-  if (!config.googlePalmKey) return { object: "list", data: [] };
-
-  const bisonVariants = ["text-bison-001"];
-
-  const models = bisonVariants.map((id) => ({
-    id,
-    object: "model",
-    created: new Date().getTime(),
-    owned_by: "google",
-    permission: [],
-    root: "palm",
-    parent: null,
-  }));
-
-  modelsCache = { object: "list", data: models };
-  modelsCacheTime = new Date().getTime();
-
-  return modelsCache;
-};
-
-const handleModelRequest: RequestHandler = (_req, res) => {
-  res.status(200).json(getModelsResponse());
-};
-
-/** Only used for non-streaming requests. */
+/**
+ * PaLM never streams upstream, so this handles every response, including ones
+ * which are replayed to the client as an emulated stream.
+ */
 const palmResponseHandler: ProxyResHandlerWithBody = async (
   _proxyRes,
   req,
@@ -66,6 +45,8 @@ const palmResponseHandler: ProxyResHandlerWithBody = async (
     throw new Error("Expected body to be an object");
   }
 
+  const palmOutput: string = body.candidates?.[0]?.output ?? "";
+
   if (config.promptLogging) {
     const host = req.get("host");
     body.proxy_note = `Prompts are logged on this proxy instance. See ${host} for more information.`;
@@ -73,7 +54,10 @@ const palmResponseHandler: ProxyResHandlerWithBody = async (
 
   if (req.inboundApi === "openai") {
     req.log.info("Transforming Google PaLM response to OpenAI format");
-    body = transformPalmResponse(body, req);
+    body = mergeFanOutChoices(req, body, transformPalmResponse);
+  } else if (req.inboundApi === "anthropic") {
+    req.log.info("Transforming Google PaLM response to Anthropic format");
+    body = transformPalmResponseToAnthropic(body, req);
   }
 
   // TODO: Remove once tokenization is stable
@@ -81,10 +65,16 @@ const palmResponseHandler: ProxyResHandlerWithBody = async (
     body.proxy_tokenizer_debug_info = req.debug;
   }
 
-  // TODO: PaLM has no streaming capability which will pose a problem here if
-  // requests wait in the queue for too long.  Probably need to fake streaming
-  // and return the entire completion in one stream event using the other
-  // response handler.
+  if (req.emulateStreaming) {
+    req.log.info("Replaying Google PaLM response as an emulated stream");
+    storeCachedResponse(req, body);
+    const choices =
+      req.inboundApi === "openai"
+        ? getEmulatedStreamParams(body)
+        : [{ content: palmOutput, finishReason: null }];
+    return sendEmulatedStream(req, res, choices);
+  }
+
   res.status(200).json(body);
 };
 
@@ -122,11 +112,36 @@ function transformPalmResponse(
   };
 }
 
-function reassignPathForPalmModel(proxyReq: http.ClientRequest, req: Request) {
-  if (req.body.stream) {
-    throw new Error("Google PaLM API doesn't support streaming requests");
-  }
+/**
+ * Transforms a model response from the Google PaLM API to match those from the
+ * Anthropic API, for users using PaLM via the Anthropic-compatible endpoint.
+ */
+function transformPalmResponseToAnthropic(
+  palmRespBody: Record<string, any>,
+  req: Request
+): Record<string, any> {
+  return {
+    type: "completion",
+    id: "plm-" + v4(),
+    completion: palmRespBody.candidates[0].output,
+    stop_reason: "stop_sequence", // palm doesn't return this
+    stop: null,
+    model: req.body.model,
+    log_id: "plm-" + req.id,
+    ...(palmRespBody.proxy_note ? { proxy_note: palmRespBody.proxy_note } : {}),
+  };
+}
+
+/**
+ * PaLM can't stream responses, so streaming requests are sent upstream as
+ * normal requests and the completion is replayed to the client afterwards.
+ */
+const maybeEmulateStreaming: RequestPreprocessor = (req) => {
+  const { stream } = req.body;
+  req.emulateStreaming = stream === true || stream === "true";
+};
 
+function reassignPathForPalmModel(proxyReq: http.ClientRequest, req: Request) {
   // PaLM API specifies the model in the URL path, not the request body. This
   // doesn't work well with our rewriter architecture, so we need to manually
   // fix it here.
@@ -138,7 +153,7 @@ function reassignPathForPalmModel(proxyReq: http.ClientRequest, req: Request) {
   // few params and no adjustable safety settings.
 
   proxyReq.path = proxyReq.path.replace(
-    /^\/v1\/chat\/completions/,
+    /^\/v1\/(chat\/completions|complete)/,
     `/v1beta2/models/${req.body.model}:generateText`
   );
 }
@@ -168,16 +183,52 @@ const googlePalmProxy = createQueueMiddleware({
 });
 
 const palmRouter = Router();
-palmRouter.get("/v1/models", handleModelRequest);
+palmRouter.get("/v1/models", createModelListHandler("google-palm"));
 // OpenAI-to-Google PaLM compatibility endpoint.
 palmRouter.post(
   "/v1/chat/completions",
   ipLimiter,
   createPreprocessorMiddleware(
     { inApi: "openai", outApi: "google-palm", service: "google-palm" },
-    { afterTransform: [forceModel("text-bison-001")] }
+    { beforeTransform: [maybeEmulateStreaming] }
   ),
   googlePalmProxy
 );
 
+// Anthropic-to-Google PaLM compatibility endpoint.
+palmRouter.post(
+  "/v1/complete",
+  ipLimiter,
+  createPreprocessorMiddleware(
+    { inApi: "anthropic", outApi: "google-palm", service: "google-palm" },
+    { beforeTransform: [maybeEmulateStreaming] }
+  ),
+  googlePalmProxy
+);
+
+registerFailoverTarget({
+  models: { bison: "text-bison-001" },
+  endpoints: [
+    {
+      path: "/v1/chat/completions",
+      apiFormat: {
+        inApi: "openai",
+        outApi: "google-palm",
+        service: "google-palm",
+      },
+      options: { beforeTransform: [maybeEmulateStreaming] },
+    },
+    {
+      path: "/v1/complete",
+      apiFormat: {
+        inApi: "anthropic",
+        outApi: "google-palm",
+        service: "google-palm",
+      },
+      options: { beforeTransform: [maybeEmulateStreaming] },
+    },
+  ],
+  proxy: googlePalmProxy,
+});
+
 export const googlePalm = palmRouter;
@@ -13,25 +13,63 @@
 
 import type { Handler, Request } from "express";
 import { keyPool, SupportedModel } from "../shared/key-management";
+import { OPENAI_COMPATIBLE_MODEL_PREFIX } from "../shared/key-management/openai-compatible/provider";
 import {
   getClaudeModelFamily,
   getGooglePalmModelFamily,
+  getGoogleAIModelFamily,
+  getAwsBedrockModelFamily,
+  getAzureOpenAIModelFamily,
+  getOpenAICompatibleModelFamily,
   getOpenAIModelFamily,
   ModelFamily,
 } from "../shared/models";
 import { buildFakeSse, initializeSseStream } from "../shared/streaming";
 import { assertNever } from "../shared/utils";
+import { config } from "../config";
 import { logger } from "../logger";
 import { SHARED_IP_ADDRESSES } from "./rate-limit";
 import { RequestPreprocessor } from "./middleware/request";
+import { maybeFailover } from "./failover";
+import { serveCachedResponse } from "./middleware/response-cache";
+import { coalesceRequest } from "./coalesce";
 
 const queue: Request[] = [];
+/** The partition each queued request is waiting in. */
+const queuedPartitions = new Map<Request, ModelFamily>();
+/** Cached order of each partition's queue; see `getQueueOrder`. */
+const queueOrders = new Map<
+  ModelFamily,
+  { requests: Request[]; positions: Map<Request, number>; time: number }
+>();
+let draining = false;
+/** Requests which have left the queue but haven't finished yet. */
+const inProgress = new Set<Request>();
+/** Requests whose responses are already watched to remove them from `inProgress`. */
+const watchedResponses = new WeakSet<Request>();
 const log = logger.child({ module: "request-queue" });
 
 /** Maximum number of queue slots for Agnai.chat requests. */
 const AGNAI_CONCURRENCY_LIMIT = 5;
-/** Maximum number of queue slots for individual users. */
-const USER_CONCURRENCY_LIMIT = 1;
+/** Maximum number of queue slots for users without a configured limit. */
+const QUEUED_REQUEST_LIMIT = 1;
+/** Default time a request may wait in the queue before it is killed. */
+const MAX_QUEUE_TIME = 5 * 60 * 1000;
+/** How long a partition's queue order may be reused, in milliseconds. */
+const QUEUE_ORDER_TTL = 1000;
+/**
+ * Priority classes, from highest to lowest. A user's class is given by their
+ * `type` unless their `priority` overrides it, requests without a user are
+ * `anonymous`, and requests submitted as part of a batch are always `batch`.
+ */
+const PRIORITY_CLASSES = [
+  "special",
+  "normal",
+  "temporary",
+  "anonymous",
+  "batch",
+] as const;
+type QueuePriority = (typeof PRIORITY_CLASSES)[number];
 
 /**
  * Returns an identifier for a request. This is used to determine if a
@@ -55,29 +93,61 @@ const sharesIdentifierWith = (incoming: Request) => (queued: Request) =>
 
 const isFromSharedIp = (req: Request) => SHARED_IP_ADDRESSES.has(req.ip);
 
-export function enqueue(req: Request) {
-  const enqueuedRequestCount = queue.filter(sharesIdentifierWith(req)).length;
-  let isGuest = req.user?.token === undefined;
-
+/**
+ * Returns the maximum number of requests the request's user or IP can have at
+ * once, and whether requests in progress count towards it. Only users with a
+ * configured limit have their in-progress requests counted; everyone else can
+ * only have a certain number of requests waiting in the queue.
+ */
+function getConcurrencyLimit(req: Request) {
+  const configured = req.user
+    ? req.user.maxConcurrentRequests ??
+      config.maxConcurrentRequests[req.user.type]
+    : 0;
+  if (configured > 0) {
+    return { limit: configured, countsInProgress: true };
+  }
   // Requests from shared IP addresses such as Agnai.chat are exempt from IP-
-  // based rate limiting but can only occupy a certain number of slots in the
-  // queue. Authenticated users always get a single spot in the queue.
-  const isSharedIp = isFromSharedIp(req);
-  const maxConcurrentQueuedRequests =
-    isGuest && isSharedIp ? AGNAI_CONCURRENCY_LIMIT : USER_CONCURRENCY_LIMIT;
-  if (enqueuedRequestCount >= maxConcurrentQueuedRequests) {
-    if (isSharedIp) {
-      // Re-enqueued requests are not counted towards the limit since they
-      // already made it through the queue once.
-      if (req.retryCount === 0) {
-        throw new Error("Too many agnai.chat requests are already queued");
-      }
-    } else {
-      throw new Error("Your IP or token already has a request in the queue");
+  // based rate limiting but can only occupy a certain number of slots.
+  const limit =
+    !req.user && isFromSharedIp(req)
+      ? AGNAI_CONCURRENCY_LIMIT
+      : QUEUED_REQUEST_LIMIT;
+  return { limit, countsInProgress: false };
+}
+
+export function enqueue(req: Request) {
+  // Requests being retried are put back in the queue, so they shouldn't be
+  // counted twice.
+  inProgress.delete(req);
+
+  // Batches send their requests one at a time and are limited separately by
+  // `MAX_ACTIVE_BATCHES`, so they don't count towards the limit. This way their
+  // owners can still use the proxy interactively.
+  const { limit, countsInProgress } = getConcurrencyLimit(req);
+  const activeRequestCount = [...queue, ...(countsInProgress ? inProgress : [])]
+    .filter(sharesIdentifierWith(req))
+    .filter((active) => !active.isBatchRequest).length;
+
+  // Re-enqueued requests are not counted towards the limit since they already
+  // made it through the queue once.
+  if (
+    !req.isBatchRequest &&
+    req.retryCount === 0 &&
+    activeRequestCount >= limit
+  ) {
+    if (!req.user && isFromSharedIp(req)) {
+      throw new Error("Too many agnai.chat requests are already queued");
     }
+    const owner = req.user ? "user token" : "IP";
+    const state = countsInProgress ? "queued or in progress" : "queued";
+    throw new Error(
+      `Your ${owner} already has ${activeRequestCount} requests ${state}, which is its limit of ${limit} concurrent requests.`
+    );
   }
 
   queue.push(req);
+  updateQueueIndex(req, true);
   req.queueOutTime = 0;
 
   // shitty hack to remove hpm's event listeners on retried requests
@@ -87,20 +157,36 @@ export function enqueue(req: Request) {
   // handler to keep the connection alive while it waits in the queue. We
   // deregister the handler when the request is dequeued.
   const { stream } = req.body;
-  if (stream === "true" || stream === true || req.isStreaming) {
+  const wantsStream = stream === "true" || stream === true;
+  // Non-streaming clients can't be sent updates, but can at least see where
+  // they joined the queue once the response arrives.
+  const status = getQueueStatus(req)!;
+  if (!req.res!.headersSent) {
+    req.res!.setHeader("X-Proxy-Queue-Position", status.position);
+    req.res!.setHeader(
+      "X-Proxy-Queue-Estimated-Wait",
+      Math.round(status.estimatedWait / 1000)
+    );
+  }
+
+  if (wantsStream || req.isStreaming || req.emulateStreaming) {
     const res = req.res!;
     if (!res.headersSent) {
       initStreaming(req);
     }
     req.heartbeatInterval = setInterval(() => {
+      const { position, estimatedWait } = getQueueStatus(req) ?? status;
+      const eta = Math.round(estimatedWait / 1000);
       if (process.env.NODE_ENV === "production") {
-        if (!req.query.badSseParser) req.res!.write(": queue heartbeat\n\n");
+        if (!req.query.badSseParser) {
+          req.res!.write(
+            `: queue heartbeat; position ${position}; estimated wait ${eta}s\n\n`
+          );
+        }
       } else {
         req.log.info(`Sending heartbeat to request in queue.`);
-        const partition = getPartitionForRequest(req);
-        const avgWait = Math.round(getEstimatedWaitTime(partition) / 1000);
         const currentDuration = Math.round((Date.now() - req.startTime) / 1000);
-        const debugMsg = `queue length: ${queue.length}; elapsed time: ${currentDuration}s; avg wait: ${avgWait}s`;
+        const debugMsg = `queue position: ${position}; queue length: ${queue.length}; elapsed time: ${currentDuration}s; avg wait: ${eta}s`;
         req.res!.write(buildFakeSse("heartbeat", debugMsg, req));
       }
     }, 10000);
@@ -113,6 +199,7 @@ export function enqueue(req: Request) {
     const index = queue.indexOf(req);
     if (index !== -1) {
       queue.splice(index, 1);
+      updateQueueIndex(req, false);
     }
     if (req.heartbeatInterval) {
       clearInterval(req.heartbeatInterval);
@@ -135,38 +222,130 @@ function getPartitionForRequest(req: Request): ModelFamily {
   const model = (req.body.model as SupportedModel) ?? "gpt-3.5-turbo";
 
   // Weird special case for AWS because they serve multiple models from
-  // different vendors, even if currently only one is supported.
+  // different vendors, each with their own rate limits.
   if (req.service === "aws") {
-    return "aws-claude";
+    return getAwsBedrockModelFamily(model);
+  }
+
+  // Azure requests use the OpenAI API format but are served by deployments
+  // with their own rate limits, so they get their own partitions.
+  if (req.service === "azure") {
+    return getAzureOpenAIModelFamily(model);
+  }
+
+  if (req.service === "openai-compatible") {
+    return getOpenAICompatibleModelFamily(model);
   }
 
   switch (req.outboundApi) {
     case "anthropic":
+    case "anthropic-chat":
       return getClaudeModelFamily(model);
     case "openai":
     case "openai-text":
       return getOpenAIModelFamily(model);
     case "google-palm":
       return getGooglePalmModelFamily(model);
+    case "google-ai":
+      return getGoogleAIModelFamily(model);
+    case "aws-llama2":
+    case "aws-titan":
+      return getAwsBedrockModelFamily(model);
     default:
       assertNever(req.outboundApi);
   }
 }
 
+function getPriorityClass(req: Request): QueuePriority {
+  if (req.isBatchRequest) return "batch";
+  if (!req.user) return "anonymous";
+  return req.user.priority ?? req.user.type;
+}
+
+/**
+ * Returns the index of the request's priority class, lower being more urgent.
+ * Requests move up one class for every `QUEUE_AGING_INTERVAL` they have been
+ * waiting, except batch requests which only run when no interactive requests
+ * are waiting.
+ */
+function getEffectivePriority(req: Request, now: number) {
+  const priority = getPriorityClass(req);
+  const index = PRIORITY_CLASSES.indexOf(priority);
+  const agingInterval = config.queueAgingInterval * 1000;
+  if (priority === "batch" || agingInterval <= 0) return index;
+
+  const waited = now - req.startTime;
+  return Math.max(0, index - Math.floor(waited / agingInterval));
+}
+
+/** Returns the partition's queue in the order requests will leave it. */
 function getQueueForPartition(partition: ModelFamily): Request[] {
-  return queue
-    .filter((req) => getPartitionForRequest(req) === partition)
-    .sort((a, b) => {
-      // Certain requests are exempted from IP-based rate limiting because they
-      // come from a shared IP address. To prevent these requests from starving
-      // out other requests during periods of high traffic, we sort them to the
-      // end of the queue.
-      const aIsExempted = isFromSharedIp(a);
-      const bIsExempted = isFromSharedIp(b);
-      if (aIsExempted && !bIsExempted) return 1;
-      if (!aIsExempted && bIsExempted) return -1;
-      return 0;
-    });
+  return getQueueOrder(partition).requests;
+}
+
+/**
+ * Sorts the partition's queue by effective priority class, then, if the
+ * partition uses the `fair` scheduler, by their users' recent token usage, then
+ * by the time they arrived. The order is needed for every queue status update,
+ * so it is reused until the partition's queue changes or, since priorities age
+ * and usage changes over time, `QUEUE_ORDER_TTL` passes.
+ */
+function getQueueOrder(partition: ModelFamily) {
+  const now = Date.now();
+  const cached = queueOrders.get(partition);
+  if (cached && now - cached.time < QUEUE_ORDER_TTL) return cached;
+
+  const scheduler = config.queueSchedulers[partition] ?? config.queueScheduler;
+  const usage = scheduler === "fair" ? getRecentUsage(partition, now) : null;
+  const requests = queue
+    .filter((req) => queuedPartitions.get(req) === partition)
+    .map((req) => ({
+      req,
+      priority: getEffectivePriority(req, now),
+      usage: usage?.get(getIdentifier(req)) ?? 0,
+    }))
+    .sort(
+      (a, b) =>
+        a.priority - b.priority ||
+        a.usage - b.usage ||
+        a.req.startTime - b.req.startTime
+    )
+    .map(({ req }) => req);
+  const order = {
+    requests,
+    positions: new Map(requests.map((req, index) => [req, index + 1])),
+    time: now,
+  };
+  queueOrders.set(partition, order);
+  return order;
+}
+
+/**
+ * Records that the request joined or left the queue, discarding the cached
+ * order of its partition.
+ */
+function updateQueueIndex(req: Request, queued: boolean) {
+  const partition = queuedPartitions.get(req) ?? getPartitionForRequest(req);
+  if (queued) {
+    queuedPartitions.set(req, partition);
+  } else {
+    queuedPartitions.delete(req);
+  }
+  queueOrders.delete(partition);
+}
+
+/** Returns the tokens consumed from the partition by each identifier. */
+function getRecentUsage(partition: ModelFamily, now: number) {
+  const cutoff = now - config.fairQueueWindow * 1000;
+  const usage = new Map<string, number>();
+  for (const entry of tokenUsage) {
+    if (entry.partition !== partition || entry.time < cutoff) continue;
+    usage.set(
+      entry.identifier,
+      (usage.get(entry.identifier) ?? 0) + entry.tokens
+    );
+  }
+  return usage;
 }
 
 export function dequeue(partition: ModelFamily): Request | undefined {
@@ -176,10 +355,9 @@ export function dequeue(partition: ModelFamily): Request | undefined {
     return undefined;
   }
 
-  const req = modelQueue.reduce((prev, curr) =>
-    prev.startTime < curr.startTime ? prev : curr
-  );
+  const req = modelQueue[0];
   queue.splice(queue.indexOf(req), 1);
+  updateQueueIndex(req, false);
 
   if (req.onAborted) {
     req.res!.off("close", req.onAborted);
@@ -190,6 +368,17 @@ export function dequeue(partition: ModelFamily): Request | undefined {
     clearInterval(req.heartbeatInterval);
   }
 
+  inProgress.add(req);
+  // Retried requests leave the queue more than once, but one listener will do.
+  if (!watchedResponses.has(req)) {
+    watchedResponses.add(req);
+    req.res!.once("close", () => inProgress.delete(req));
+  }
+  if (!req.res!.headersSent) {
+    const waited = Math.round((Date.now() - req.startTime) / 1000);
+    req.res!.setHeader("X-Proxy-Queue-Time", waited);
+  }
+
   // Track the time leaving the queue now, but don't add it to the wait times
   // yet because we don't know if the request will succeed or fail. We track
   // the time now and not after the request succeeds because we don't want to
@@ -205,6 +394,10 @@ export function dequeue(partition: ModelFamily): Request | undefined {
  * per tick.
  **/
 function processQueue() {
+  // Requests are no longer taken out of the queue once the server is shutting
+  // down, since they might not finish in time.
+  if (draining) return;
+
   // This isn't completely correct, because a key can service multiple models.
   // Currently if a key is locked out on one model it will also stop servicing
   // the others, because we only track one rate limit per key.
@@ -216,7 +409,18 @@ function processQueue() {
   const turboLockout = keyPool.getLockoutPeriod("gpt-3.5-turbo");
   const claudeLockout = keyPool.getLockoutPeriod("claude-v1");
   const palmLockout = keyPool.getLockoutPeriod("text-bison-001");
+  const geminiLockout = keyPool.getLockoutPeriod("gemini-pro");
   const awsClaudeLockout = keyPool.getLockoutPeriod("anthropic.claude-v2");
+  const awsLlama2Lockout = keyPool.getLockoutPeriod("meta.llama2-70b-chat-v1");
+  const awsTitanLockout = keyPool.getLockoutPeriod(
+    "amazon.titan-text-express-v1"
+  );
+  const azureTurboLockout = keyPool.getLockoutPeriod("azure-gpt-3.5-turbo");
+  const azureGpt4Lockout = keyPool.getLockoutPeriod("azure-gpt-4");
+  const azureGpt432kLockout = keyPool.getLockoutPeriod("azure-gpt-4-32k");
+  const openaiCompatibleLockout = keyPool.getLockoutPeriod(
+    OPENAI_COMPATIBLE_MODEL_PREFIX
+  );
 
   const reqs: (Request | undefined)[] = [];
   if (gpt432kLockout === 0) {
@@ -234,9 +438,30 @@ function processQueue() {
   if (palmLockout === 0) {
     reqs.push(dequeue("bison"));
   }
+  if (geminiLockout === 0) {
+    reqs.push(dequeue("gemini-pro"));
+  }
   if (awsClaudeLockout === 0) {
     reqs.push(dequeue("aws-claude"));
   }
+  if (awsLlama2Lockout === 0) {
+    reqs.push(dequeue("aws-llama2"));
+  }
+  if (awsTitanLockout === 0) {
+    reqs.push(dequeue("aws-titan"));
+  }
+  if (azureTurboLockout === 0) {
+    reqs.push(dequeue("azure-turbo"));
+  }
+  if (azureGpt4Lockout === 0) {
+    reqs.push(dequeue("azure-gpt4"));
+  }
+  if (azureGpt432kLockout === 0) {
+    reqs.push(dequeue("azure-gpt4-32k"));
+  }
+  if (openaiCompatibleLockout === 0) {
+    reqs.push(dequeue("openai-compatible"));
+  }
 
   reqs.filter(Boolean).forEach((req) => {
     if (req?.proceed) {
@@ -248,16 +473,17 @@ function processQueue() {
 }
 
 /**
- * Kill stalled requests after 5 minutes, and remove tracked wait times after 2
- * minutes.
+ * Kill stalled requests after 5 minutes (or their own `maxQueueTime`), and
+ * remove tracked wait times after 2 minutes.
  **/
 function cleanQueue() {
   const now = Date.now();
   const oldRequests = queue.filter(
-    (req) => now - (req.startTime ?? now) > 5 * 60 * 1000
+    (req) => now - (req.startTime ?? now) > getMaxQueueTime(req)
   );
   oldRequests.forEach((req) => {
-    req.log.info(`Removing request from queue after 5 minutes.`);
+    const minutes = Math.round(getMaxQueueTime(req) / 60000);
+    req.log.info(`Removing request from queue after ${minutes} minutes.`);
     killQueuedRequest(req);
   });
 
@@ -265,6 +491,10 @@ function cleanQueue() {
     (waitTime) => now - waitTime.end > 300 * 1000
   );
   const removed = waitTimes.splice(0, index + 1);
+
+  const usageCutoff = now - config.fairQueueWindow * 1000;
+  const usageIndex = tokenUsage.findIndex((entry) => entry.time >= usageCutoff);
+  tokenUsage.splice(0, usageIndex === -1 ? tokenUsage.length : usageIndex);
   log.trace(
     { stalledRequests: oldRequests.length, prunedWaitTimes: removed.length },
     `Cleaning up request queue.`
@@ -278,35 +508,96 @@ export function start() {
   log.info(`Started request queue.`);
 }
 
+/**
+ * Prepares the queue for the server to shut down. Stops taking requests out of
+ * the queue and tells queued clients that the server is restarting, then waits
+ * up to `gracePeriod` milliseconds for in-progress requests to finish. Any
+ * requests which still haven't finished are then terminated.
+ */
+export async function drain(gracePeriod: number) {
+  draining = true;
+  const message =
+    "The proxy is restarting. Please try your request again in a minute.";
+  log.info(
+    { queued: queue.length, inProgress: inProgress.size },
+    "Draining request queue."
+  );
+  [...queue].forEach((req) =>
+    terminateRequest(req, message, 503, "proxy restarting")
+  );
+
+  const deadline = Date.now() + gracePeriod;
+  while (inProgress.size > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  // Retried requests may have been put back in the queue in the meantime.
+  const remaining = [...queue, ...inProgress];
+  if (remaining.length > 0) {
+    log.warn(
+      { remaining: remaining.length },
+      "Terminating requests which didn't finish before shutdown."
+    );
+  }
+  remaining.forEach((req) =>
+    terminateRequest(req, message, 503, "proxy restarting")
+  );
+}
+
 let waitTimes: {
   partition: ModelFamily;
+  priority: QueuePriority;
   start: number;
   end: number;
   isDeprioritized: boolean;
 }[] = [];
 
-/** Adds a successful request to the list of wait times. */
+/** Tokens consumed by successful requests, for the `fair` scheduler. */
+const tokenUsage: {
+  partition: ModelFamily;
+  identifier: string;
+  tokens: number;
+  time: number;
+}[] = [];
+
+/**
+ * Adds a successful request to the list of wait times, and its tokens to its
+ * user's recent usage.
+ */
 export function trackWaitTime(req: Request) {
+  tokenUsage.push({
+    partition: getPartitionForRequest(req),
+    identifier: getIdentifier(req),
+    tokens: (req.promptTokens ?? 0) + (req.outputTokens ?? 0),
+    time: Date.now(),
+  });
   waitTimes.push({
     partition: getPartitionForRequest(req),
+    priority: getPriorityClass(req),
     start: req.startTime!,
     end: req.queueOutTime ?? Date.now(),
-    isDeprioritized: isFromSharedIp(req),
+    isDeprioritized: isFromSharedIp(req) || Boolean(req.isBatchRequest),
   });
 }
 
 /**
- * Returns average wait time for the given queue partition in milliseconds.
- * Requests which are deprioritized are not included in the calculation as they
+ * Returns average wait time for the given queue partition in milliseconds,
+ * optionally only for requests of the given priority class. Otherwise,
+ * requests which are deprioritized are not included in the calculation as they
  * would skew the results due to their longer wait times.
  */
-export function getEstimatedWaitTime(partition: ModelFamily) {
+export function getEstimatedWaitTime(
+  partition: ModelFamily,
+  priority?: QueuePriority
+) {
   const now = Date.now();
   const recentWaits = waitTimes.filter((wait) => {
     const isSamePartition = wait.partition === partition;
     const isRecent = now - wait.end < 300 * 1000;
-    const isNormalPriority = !wait.isDeprioritized;
-    return isSamePartition && isRecent && isNormalPriority;
+    const isSamePriority = priority
+      ? wait.priority === priority
+      : !wait.isDeprioritized;
+    return isSamePartition && isRecent && isSamePriority;
   });
   if (recentWaits.length === 0) {
     return 0;
@@ -318,6 +609,51 @@ export function getEstimatedWaitTime(partition: ModelFamily) {
   );
 }
 
+/**
+ * Returns the request's position in its partition's queue, starting at 1, and
+ * the estimated wait time for its priority class in milliseconds. Returns
+ * undefined if the request isn't queued.
+ */
+export function getQueueStatus(req: Request) {
+  const partition = queuedPartitions.get(req);
+  if (!partition) return undefined;
+
+  const priority = getPriorityClass(req);
+  return {
+    partition,
+    priority,
+    position: getQueueOrder(partition).positions.get(req)!,
+    estimatedWait: getEstimatedWaitTime(partition, priority),
+  };
+}
+
+/**
+ * Returns the length and estimated wait of each partition's queue, and the
+ * position of each of the caller's own queued requests.
+ */
+export const handleQueueStatusRequest: Handler = (req, res) => {
+  const partitions: Record<string, object> = {};
+  for (const partition of config.allowedModelFamilies) {
+    partitions[partition] = {
+      length: getQueueLength(partition),
+      estimated_wait: Math.round(getEstimatedWaitTime(partition) / 1000),
+    };
+  }
+
+  const requests = queue.filter(sharesIdentifierWith(req)).map((queued) => {
+    const status = getQueueStatus(queued)!;
+    return {
+      partition: status.partition,
+      priority: status.priority,
+      position: status.position,
+      estimated_wait: Math.round(status.estimatedWait / 1000),
+      waited: Math.round((Date.now() - queued.startTime) / 1000),
+    };
+  });
+
+  res.json({ partitions, requests });
+};
+
 export function getQueueLength(partition: ModelFamily | "all" = "all") {
   if (partition === "all") {
     return queue.length;
@@ -333,8 +669,12 @@ export function createQueueMiddleware({
   beforeProxy?: RequestPreprocessor;
   proxyMiddleware: Handler;
 }): Handler {
-  return (req, res, next) => {
+  return async (req, res, next) => {
     req.proceed = async () => {
+      // If the requested family has run out of keys, the request may be sent
+      // back to the queue for another service instead.
+      if (await maybeFailover(req, getPartitionForRequest(req))) return;
+
       if (beforeProxy) {
         // Hack to let us run asynchronous middleware before the
         // http-proxy-middleware handler. This is used to sign AWS requests
@@ -346,6 +686,18 @@ export function createQueueMiddleware({
       proxyMiddleware(req, res, next);
     };
 
+    // Deterministic requests may already have a cached response, in which
+    // case they don't need to wait in the queue at all.
+    try {
+      if (await serveCachedResponse(req, res, getIdentifier(req))) return;
+    } catch (error) {
+      req.log.warn({ error: error.message }, "Failed to check response cache.");
+    }
+
+    if (config.coalesceRequests && coalesceRequest(req, getIdentifier(req))) {
+      return;
+    }
+
     try {
       enqueue(req);
     } catch (err: any) {
@@ -353,29 +705,45 @@ export function createQueueMiddleware({
         type: "proxy_error",
         message: err.message,
         stack: err.stack,
-        proxy_note: `Only one request can be queued at a time. If you don't have another request queued, your IP or user token might be in use by another request.`,
+        proxy_note: `Wait for your other requests to finish before sending another. If you don't have any other requests in progress, your IP or user token might be in use by someone else.`,
       });
     }
   };
 }
 
+const getMaxQueueTime = (req: Request) => req.maxQueueTime ?? MAX_QUEUE_TIME;
+
 function killQueuedRequest(req: Request) {
+  const minutes = Math.round(getMaxQueueTime(req) / 60000);
+  const message = `Your request has been terminated by the proxy because it has been in the queue for more than ${minutes} minutes. The queue is currently ${queue.length} requests long.`;
+  terminateRequest(req, message, 500, "proxy queue error");
+}
+
+/**
+ * Ends the request's response with an error, sent as a fake SSE event if the
+ * response is already streaming.
+ */
+function terminateRequest(
+  req: Request,
+  message: string,
+  status: number,
+  type: string
+) {
   if (!req.res || req.res.writableEnded) {
     req.log.warn(`Attempted to terminate request that has already ended.`);
     return;
   }
   const res = req.res;
   try {
-    const message = `Your request has been terminated by the proxy because it has been in the queue for more than 5 minutes. The queue is currently ${queue.length} requests long.`;
     if (res.headersSent) {
-      const fakeErrorEvent = buildFakeSse("proxy queue error", message, req);
+      const fakeErrorEvent = buildFakeSse(type, message, req);
       res.write(fakeErrorEvent);
       res.end();
     } else {
-      res.status(500).json({ error: message });
+      res.status(status).json({ error: message });
     }
   } catch (e) {
-    req.log.error(e, `Error killing stalled request.`);
+    req.log.error(e, `Error terminating request.`);
   }
 }
 
@@ -390,7 +758,11 @@ function initStreaming(req: Request) {
     return;
   }
 
-  res.write(`: joining queue at position ${queue.length}\n\n`);
+  const { position, estimatedWait } = getQueueStatus(req)!;
+  const eta = Math.round(estimatedWait / 1000);
+  res.write(
+    `: joining queue at position ${position}; estimated wait ${eta}s\n\n`
+  );
 }
 
 /**
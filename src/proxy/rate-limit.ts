@@ -76,6 +76,9 @@ export const ipLimiter = async (
 ) => {
   if (!RATE_LIMIT_ENABLED) return next();
   if (req.user?.type === "special") return next();
+  // Batches send their requests one at a time, at the lowest priority, and are
+  // limited by `MAX_ACTIVE_BATCHES` instead.
+  if (req.isBatchRequest) return next();
 
   // Exempts Agnai.chat from IP-based rate limiting because its IPs are shared
   // by many users. Instead, the request queue will limit the number of such
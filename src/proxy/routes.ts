@@ -4,7 +4,22 @@ import { checkRisuToken } from "./check-risu-token";
 import { openai } from "./openai";
 import { anthropic } from "./anthropic";
 import { googlePalm } from "./palm";
-import { aws } from "./aws";
+import { googleAI } from "./google-ai";
+import { aws, awsLlama2, awsTitan } from "./aws";
+import { azure } from "./azure";
+import { openaiCompatible } from "./openai-compatible";
+import { handleModelRequest } from "./models";
+import { handleQueueStatusRequest } from "./queue";
+import { bindLoopbackRequest } from "./loopback";
+import { cancelJob, handleJobRequest, submitAsyncJob } from "./jobs";
+import {
+  authorizeBatch,
+  cancelBatch,
+  handleBatchRequest,
+  handleBatchResults,
+  parseBatchBody,
+  submitBatch,
+} from "./batches";
 
 const proxyRouter = express.Router();
 proxyRouter.use((req, _res, next) => {
@@ -19,6 +34,8 @@ proxyRouter.use(
   express.json({ limit: "1536kb" }),
   express.urlencoded({ extended: true, limit: "1536kb" })
 );
+proxyRouter.use(submitAsyncJob);
+proxyRouter.post("/batches", authorizeBatch, parseBatchBody, submitBatch);
 proxyRouter.use(gatekeeper);
 proxyRouter.use(checkRisuToken);
 proxyRouter.use((req, _res, next) => {
@@ -26,10 +43,24 @@ proxyRouter.use((req, _res, next) => {
   req.retryCount = 0;
   next();
 });
+proxyRouter.use(bindLoopbackRequest);
+proxyRouter.get("/jobs/:id", handleJobRequest);
+proxyRouter.delete("/jobs/:id", cancelJob);
+proxyRouter.get("/batches/:id", handleBatchRequest);
+proxyRouter.get("/batches/:id/results", handleBatchResults);
+proxyRouter.delete("/batches/:id", cancelBatch);
+// Lists models from every service; each service also lists its own models.
+proxyRouter.get(["/models", "/v1/models"], handleModelRequest);
+proxyRouter.get("/queue", handleQueueStatusRequest);
 proxyRouter.use("/openai", addV1, openai);
 proxyRouter.use("/anthropic", addV1, anthropic);
 proxyRouter.use("/google-palm", addV1, googlePalm);
+proxyRouter.use("/google-ai", addV1, googleAI);
 proxyRouter.use("/aws/claude", addV1, aws);
+proxyRouter.use("/aws/llama2", addV1, awsLlama2);
+proxyRouter.use("/aws/titan", addV1, awsTitan);
+proxyRouter.use("/azure", addV1, azure);
+proxyRouter.use("/openai-compatible", addV1, openaiCompatible);
 // Redirect browser requests to the homepage.
 proxyRouter.get("*", (req, res, next) => {
   const isBrowser = req.headers["user-agent"]?.includes("Mozilla");
@@ -0,0 +1,423 @@
+/**
+ * WebSocket transport for completions, for clients which can't use SSE, e.g.
+ * because a proxy between them and the server buffers `text/event-stream`
+ * responses. Each request sent over the socket is replayed against the proxy's
+ * own HTTP endpoints over loopback, so it goes through exactly the same
+ * authentication, preprocessing and queueing as any other request. The SSE
+ * response is then relayed back to the client as JSON frames.
+ *
+ * Clients connect to `/proxy/ws`, passing their proxy key or user token in the
+ * `Authorization` header or, for browsers, the `key` query parameter. The
+ * server pings each connection periodically so that idle connections aren't
+ * dropped by proxies, and closes those which stop answering.
+ *
+ * Client frames:
+ * - `{ "type": "request", "endpoint": "/openai/v1/chat/completions", "body": {} }`
+ *   where `endpoint` is the path of the HTTP endpoint relative to `/proxy`.
+ * - `{ "type": "cancel" }` to abort the current request.
+ *
+ * Server frames:
+ * - `{ "type": "queue", "position": 2, "estimatedWait": 15 }` while queued,
+ *   with the wait in seconds.
+ * - `{ "type": "chunk", "event"?: "completion", "data": {} }` for each event
+ *   of the completion stream, in the format of the requested endpoint.
+ * - `{ "type": "note", "message": "" }` for notes from the proxy.
+ * - `{ "type": "response", "data": {} }` if the endpoint didn't stream.
+ * - `{ "type": "error", "status": 429, "error": {} }`
+ * - `{ "type": "done" }` or `{ "type": "cancelled" }` when the request ends.
+ */
+import http from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { z } from "zod";
+import { config } from "../config";
+import { logger } from "../logger";
+import { isBlockedOrigin } from "./check-origin";
+import { authorize, getProxyToken } from "./gatekeeper";
+import { readLoopbackResponse, sendLoopbackRequest } from "./loopback";
+import { getQueueStatus } from "./queue";
+
+const WS_PATH = "/proxy/ws";
+/** Request headers clients may set on their requests. */
+const FORWARDED_HEADERS = ["anthropic-version", "x-proxy-trim-context"];
+const QUEUE_UPDATE_INTERVAL = 2000;
+const MAX_FRAME_SIZE = 1536 * 1024;
+const PING_INTERVAL = 30 * 1000;
+/** Seconds clients are asked to wait before reconnecting during a restart. */
+const RESTART_RETRY_AFTER = 30;
+
+const ClientFrameSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("request"),
+    endpoint: z
+      .string()
+      .startsWith("/", "`endpoint` must be the path of an HTTP endpoint."),
+    body: z.record(z.unknown()),
+    headers: z.record(z.unknown()).optional(),
+  }),
+  z.object({ type: z.literal("cancel") }),
+]);
+type RequestFrame = Extract<
+  z.infer<typeof ClientFrameSchema>,
+  { type: "request" }
+>;
+
+type ClientInfo = {
+  ip: string;
+  token?: string;
+  headers: http.IncomingHttpHeaders;
+};
+
+type ServerFrame =
+  | { type: "queue"; position: number; estimatedWait: number }
+  | { type: "chunk"; event?: string; data: unknown }
+  | { type: "note"; message: string }
+  | { type: "response"; data: unknown }
+  | { type: "error"; status: number; error: unknown }
+  | { type: "done" }
+  | { type: "cancelled" };
+
+const log = logger.child({ module: "websocket" });
+/** Open connections, and whether each has a request in progress. */
+const connections = new Map<WebSocket, () => boolean>();
+let closing = false;
+
+export function attachWebSocketServer(server: http.Server) {
+  const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: MAX_FRAME_SIZE,
+  });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== WS_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    // Until `ws` takes over the socket, nothing else handles its errors.
+    const onSocketError = (error: Error) =>
+      log.warn({ error: error.message }, "WebSocket upgrade failed.");
+    socket.on("error", onSocketError);
+
+    // Upgrades bypass Express, so the checks its middleware makes on every
+    // other request are repeated here.
+    if (closing) {
+      rejectUpgrade(
+        socket,
+        503,
+        "The proxy is restarting. Please try again in a minute.",
+        { "Retry-After": String(RESTART_RETRY_AFTER) }
+      );
+      return;
+    }
+    if (isBlockedOrigin(req.headers)) {
+      log.warn(
+        { origin: req.headers.origin, referer: req.headers.referer },
+        "Blocked WebSocket connection from origin or referer"
+      );
+      rejectUpgrade(socket, 403, config.blockMessage ?? "Forbidden");
+      return;
+    }
+
+    const ip = getClientIp(req);
+    const token = getToken(req, url);
+    const result = authorize(token, ip);
+    if (!result.authorized) {
+      rejectUpgrade(socket, result.status, result.error);
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      socket.off("error", onSocketError);
+      log.info({ ip }, "WebSocket client connected.");
+      handleConnection(ws, { ip, token, headers: req.headers });
+    });
+  });
+}
+
+/**
+ * Turns away new connections and closes open ones once their requests finish,
+ * waiting up to `gracePeriod` milliseconds, e.g. before the server exits.
+ * Requests still in progress after that are cancelled.
+ */
+export async function closeWebSocketServer(gracePeriod: number) {
+  closing = true;
+  const deadline = Date.now() + gracePeriod;
+  const closeIdle = () => {
+    for (const [ws, isBusy] of connections) {
+      if (!isBusy() || Date.now() >= deadline) {
+        ws.close(1012, "The proxy is restarting.");
+      }
+    }
+  };
+
+  closeIdle();
+  while (connections.size > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    closeIdle();
+  }
+}
+
+function handleConnection(ws: WebSocket, client: ClientInfo) {
+  let active: { cancel: () => void } | null = null;
+  connections.set(ws, () => active !== null);
+  const send = (frame: ServerFrame) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(frame));
+  };
+  const sendError = (status: number, message: string) =>
+    send({ type: "error", status, error: { type: "proxy_error", message } });
+
+  let alive = true;
+  ws.on("pong", () => (alive = true));
+  const pings = setInterval(() => {
+    if (!alive) {
+      log.info({ ip: client.ip }, "WebSocket client stopped responding.");
+      return ws.terminate();
+    }
+    alive = false;
+    ws.ping();
+  }, PING_INTERVAL);
+
+  ws.on("message", (data) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch (error) {
+      return sendError(400, "Frames must be valid JSON.");
+    }
+    const result = ClientFrameSchema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => issue.message);
+      return sendError(400, `Invalid frame: ${issues.join("; ")}`);
+    }
+
+    const frame = result.data;
+    switch (frame.type) {
+      case "request":
+        if (active) {
+          return sendError(
+            429,
+            "Only one request can be sent at a time on each connection."
+          );
+        }
+        active = sendRequest(frame, client, send, () => {
+          active = null;
+        });
+        break;
+      case "cancel":
+        if (active) {
+          active.cancel();
+          send({ type: "cancelled" });
+        }
+        break;
+    }
+  });
+
+  // Emitted for protocol errors such as oversized frames or invalid UTF-8.
+  ws.on("error", (error) => {
+    log.warn({ ip: client.ip, error: error.message }, "WebSocket error.");
+    active?.cancel();
+    ws.terminate();
+  });
+
+  ws.on("close", () => {
+    connections.delete(ws);
+    clearInterval(pings);
+    active?.cancel();
+    log.info({ ip: client.ip }, "WebSocket client disconnected.");
+  });
+}
+
+/**
+ * Sends the request to the proxy's HTTP endpoint and relays the response to
+ * the socket. Returns a handle to cancel the request.
+ */
+function sendRequest(
+  frame: RequestFrame,
+  client: ClientInfo,
+  send: (frame: ServerFrame) => void,
+  onDone: () => void
+) {
+  const { request: req, getProxiedRequest } = sendLoopbackRequest({
+    path: `/proxy${frame.endpoint}`,
+    // Responses are always streamed, since that's the point of the transport.
+    body: { ...frame.body, stream: true },
+    ip: client.ip,
+    token: client.token,
+    headers: getRequestHeaders(client, frame.headers),
+  });
+
+  let finished = false;
+  let lastPosition: number | undefined;
+  // Nothing else is sent once the request has finished or been cancelled.
+  const relay = (frame: ServerFrame) => {
+    if (!finished) send(frame);
+  };
+  const queueUpdates = setInterval(() => {
+    const proxied = getProxiedRequest();
+    const status = proxied ? getQueueStatus(proxied) : undefined;
+    if (!status || status.position === lastPosition) return;
+    lastPosition = status.position;
+    relay({
+      type: "queue",
+      position: status.position,
+      estimatedWait: Math.round(status.estimatedWait / 1000),
+    });
+  }, QUEUE_UPDATE_INTERVAL);
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    clearInterval(queueUpdates);
+    onDone();
+  };
+
+  req.on("response", (res) => {
+    const isStream = res.headers["content-type"]?.includes("text/event-stream");
+    if (isStream) {
+      relayEventStream(res, relay, finish);
+    } else {
+      relayJsonResponse(res, relay, finish);
+    }
+  });
+  req.on("error", (error) => {
+    if (!finished) {
+      log.warn({ error: error.message }, "WebSocket loopback request failed.");
+      relay({
+        type: "error",
+        status: 502,
+        error: { type: "proxy_error", message: error.message },
+      });
+    }
+    finish();
+  });
+
+  return {
+    cancel: () => {
+      finish();
+      req.destroy();
+    },
+  };
+}
+
+function relayEventStream(
+  res: http.IncomingMessage,
+  send: (frame: ServerFrame) => void,
+  finish: () => void
+) {
+  let buffer = "";
+  let done = false;
+
+  const relayMessage = (message: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of message.split(/\r?\n/)) {
+      if (line.startsWith(": proxy_note: ")) {
+        send({ type: "note", message: line.slice(": proxy_note: ".length) });
+      } else if (line.startsWith("event:")) {
+        event = line.slice("event:".length).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice("data:".length).trimStart());
+      }
+    }
+    if (!data.length) return;
+
+    const payload = data.join("\n");
+    if (payload === "[DONE]") {
+      done = true;
+      return send({ type: "done" });
+    }
+    try {
+      send({ type: "chunk", event, data: JSON.parse(payload) });
+    } catch (error) {
+      send({ type: "chunk", event, data: payload });
+    }
+  };
+
+  res.setEncoding("utf8");
+  res.on("data", (chunk: string) => {
+    buffer += chunk;
+    const messages = buffer.split(/\r?\n\r?\n/);
+    buffer = messages.pop() ?? "";
+    messages.forEach(relayMessage);
+  });
+  res.on("end", () => {
+    if (buffer.trim()) relayMessage(buffer);
+    if (!done) send({ type: "done" });
+    finish();
+  });
+  res.on("error", finish);
+}
+
+function relayJsonResponse(
+  res: http.IncomingMessage,
+  send: (frame: ServerFrame) => void,
+  finish: () => void
+) {
+  readLoopbackResponse(res)
+    .then((data) => {
+      const status = res.statusCode ?? 500;
+      if (status >= 400) {
+        send({ type: "error", status, error: data });
+      } else {
+        send({ type: "response", data });
+        send({ type: "done" });
+      }
+    })
+    .catch((error) => {
+      log.warn({ error: error.message }, "WebSocket loopback response failed.");
+    })
+    .finally(finish);
+}
+
+/**
+ * Picks the headers to pass on to the HTTP endpoint from the client's upgrade
+ * request and those set in the request frame.
+ */
+function getRequestHeaders(
+  client: ClientInfo,
+  requested: Record<string, unknown> = {}
+) {
+  const headers: http.IncomingHttpHeaders = {};
+  for (const name of ["user-agent", "origin", "referer", "x-risu-tk"]) {
+    const value = client.headers[name];
+    if (value) headers[name] = value;
+  }
+  for (const [name, value] of Object.entries(requested ?? {})) {
+    if (FORWARDED_HEADERS.includes(name.toLowerCase())) {
+      headers[name.toLowerCase()] = String(value);
+    }
+  }
+  return headers;
+}
+
+/** Mirrors Express's `req.ip`, as the server trusts `X-Forwarded-For`. */
+function getClientIp(req: http.IncomingMessage) {
+  const forwarded = req.headers["x-forwarded-for"]?.toString().split(",")[0];
+  return forwarded?.trim() || req.socket.remoteAddress || "";
+}
+
+function getToken(req: http.IncomingMessage, url: URL) {
+  return getProxyToken(req) ?? url.searchParams.get("key") ?? undefined;
+}
+
+function rejectUpgrade(
+  socket: Duplex,
+  status: number,
+  error: string,
+  headers: Record<string, string> = {}
+) {
+  const body = JSON.stringify({ error });
+  socket.end(
+    [
+      `HTTP/1.1 ${status} ${http.STATUS_CODES[status]}`,
+      "Content-Type: application/json",
+      `Content-Length: ${Buffer.byteLength(body)}`,
+      "Connection: close",
+      ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      "",
+      body,
+    ].join("\r\n")
+  );
+}
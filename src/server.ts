@@ -1,23 +1,39 @@
 import { assertConfigIsValid, config } from "./config";
 import "source-map-support/register";
 import express from "express";
+import type http from "http";
 import cors from "cors";
 import path from "path";
 import pinoHttp from "pino-http";
 import childProcess from "child_process";
 import { logger } from "./logger";
 import { keyPool } from "./shared/key-management";
+import { assertModelRoutesAreValid } from "./shared/model-routing";
 import { adminRouter } from "./admin/routes";
 import { proxyRouter } from "./proxy/routes";
+import { drainBatches } from "./proxy/batches";
+import { drainJobs } from "./proxy/jobs";
+import { initLoopback } from "./proxy/loopback";
+import { attachWebSocketServer, closeWebSocketServer } from "./proxy/websocket";
 import { handleInfoPage } from "./info-page";
 import { logQueue } from "./shared/prompt-logging";
-import { start as startRequestQueue } from "./proxy/queue";
-import { init as initUserStore } from "./shared/users/user-store";
+import {
+  drain as drainRequestQueue,
+  start as startRequestQueue,
+} from "./proxy/queue";
+import {
+  flush as flushUserStore,
+  init as initUserStore,
+} from "./shared/users/user-store";
 import { init as initTokenizers } from "./shared/tokenization";
 import { checkOrigin } from "./proxy/check-origin";
 import { userRouter } from "./user/routes";
 
 const PORT = config.port;
+/** Seconds clients are asked to wait before retrying during a restart. */
+const RESTART_RETRY_AFTER = 30;
+
+let shuttingDown = false;
 
 const app = express();
 // middleware
@@ -57,6 +73,18 @@ app.set("views", [
 
 app.get("/health", (_req, res) => res.sendStatus(200));
 app.use(cors());
+// Turn away new requests once the server is shutting down.
+app.use((_req, res, next) => {
+  if (!shuttingDown) return next();
+  res.setHeader("Retry-After", RESTART_RETRY_AFTER);
+  res.setHeader("Connection", "close");
+  res.status(503).json({
+    error: {
+      type: "proxy_error",
+      message: "The proxy is restarting. Please try again in a minute.",
+    },
+  });
+});
 app.use(checkOrigin);
 
 // routes
@@ -91,6 +119,7 @@ async function start() {
 
   logger.info("Checking configs and external dependencies...");
   await assertConfigIsValid();
+  assertModelRoutesAreValid();
 
   keyPool.init();
 
@@ -108,10 +137,13 @@ async function start() {
   logger.info("Starting request queue...");
   startRequestQueue();
 
-  app.listen(PORT, async () => {
+  const server = app.listen(PORT, async () => {
     logger.info({ port: PORT }, "Now listening for connections.");
     registerUncaughtExceptionHandler();
   });
+  initLoopback(server);
+  attachWebSocketServer(server);
+  registerShutdownHandler(server);
 
   logger.info(
     { build: process.env.BUILD_INFO, nodeEnv: process.env.NODE_ENV },
@@ -119,6 +151,40 @@ async function start() {
   );
 }
 
+function registerShutdownHandler(server: http.Server) {
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.warn({ signal }, "Received second signal, exiting immediately.");
+      process.exit(1);
+    }
+    shuttingDown = true;
+    logger.info({ signal }, "Shutting down gracefully...");
+
+    // Stops accepting new connections; existing ones are closed on exit.
+    server.close();
+    // Jobs, batches and WebSocket requests are replayed over loopback, so the
+    // request queue drains their requests too; these wait for the results to
+    // be passed on. Their state is lost on exit.
+    const gracePeriod = config.shutdownGracePeriod * 1000;
+    await Promise.all([
+      drainRequestQueue(gracePeriod),
+      closeWebSocketServer(gracePeriod),
+      drainJobs(gracePeriod),
+      drainBatches(gracePeriod),
+    ]);
+
+    try {
+      await Promise.all([flushUserStore(), logQueue.drain()]);
+    } catch (err: any) {
+      logger.error({ err, stack: err?.stack }, "Error flushing data on exit.");
+    }
+    logger.info("Shutdown complete.");
+    process.exit(0);
+  };
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+}
+
 function registerUncaughtExceptionHandler() {
   process.on("uncaughtException", (err: any) => {
     logger.error(
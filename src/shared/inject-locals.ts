@@ -14,6 +14,7 @@ export const injectLocals: RequestHandler = (req, res, next) => {
   res.locals.persistenceEnabled = config.gatekeeperStore !== "memory";
   res.locals.showTokenCosts = config.showTokenCosts;
   res.locals.maxIps = config.maxIpsPerUser;
+  res.locals.maxConcurrentRequests = config.maxConcurrentRequests;
 
   // flash messages
   if (req.session.flash) {
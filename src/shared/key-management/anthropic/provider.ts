@@ -12,6 +12,10 @@ export const ANTHROPIC_SUPPORTED_MODELS = [
   "claude-v1",
   "claude-v1-100k",
   "claude-2",
+  "claude-2.1",
+  "claude-3-haiku-20240307",
+  "claude-3-sonnet-20240229",
+  "claude-3-opus-20240229",
 ] as const;
 export type AnthropicModel = (typeof ANTHROPIC_SUPPORTED_MODELS)[number];
 
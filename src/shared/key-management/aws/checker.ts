@@ -4,6 +4,7 @@ import { HttpRequest } from "@smithy/protocol-http";
 import axios, { AxiosError, AxiosRequestConfig, AxiosHeaders } from "axios";
 import { URL } from "url";
 import { KeyCheckerBase } from "../key-checker-base";
+import type { AwsBedrockModelFamily } from "../../models";
 import type { AwsBedrockKey, AwsBedrockKeyProvider } from "./provider";
 
 const MIN_CHECK_INTERVAL = 3 * 1000; // 3 seconds
@@ -16,6 +17,47 @@ const GET_INVOCATION_LOGGING_CONFIG_URL = (region: string) =>
 const POST_INVOKE_MODEL_URL = (region: string, model: string) =>
   `https://${AMZ_HOST.replace("%REGION%", region)}/model/${model}/invoke`;
 const TEST_PROMPT = "\n\nHuman:\n\nAssistant:";
+/**
+ * Invalid invocation payloads for one model from each family. A 400 response
+ * complaining about the invalid parameter indicates that the principal at
+ * least has permission to invoke the model.
+ */
+const MODEL_PROBES: Record<AwsBedrockModelFamily, ModelProbe> = {
+  "aws-claude": {
+    model: "anthropic.claude-v2",
+    payload: { max_tokens_to_sample: -1, prompt: TEST_PROMPT },
+    expectedError: /max_tokens_to_sample/,
+  },
+  "aws-llama2": {
+    model: "meta.llama2-13b-chat-v1",
+    payload: { max_gen_len: -1, prompt: "" },
+    expectedError: /max_gen_len/,
+  },
+  "aws-titan": {
+    model: "amazon.titan-text-express-v1",
+    payload: { inputText: "", textGenerationConfig: { maxTokenCount: -1 } },
+    expectedError: /maxTokenCount/,
+  },
+};
+
+/**
+ * Probes for models which need to be granted separately from the rest of
+ * their family in the Bedrock console.
+ */
+const GATED_MODEL_PROBES: ModelProbe[] = [
+  "anthropic.claude-3-sonnet-20240229-v1:0",
+  "anthropic.claude-3-haiku-20240307-v1:0",
+].map((model) => ({
+  model,
+  payload: {
+    anthropic_version: "bedrock-2023-05-31",
+    max_tokens: -1,
+    messages: [],
+  },
+  expectedError: /max_tokens/,
+}));
+
+type ModelProbe = { model: string; payload: object; expectedError: RegExp };
 
 type AwsError = { error: {} };
 
@@ -53,15 +95,26 @@ export class AwsKeyChecker extends KeyCheckerBase<AwsBedrockKey> {
     this.log.debug({ key: key.hash }, "Checking key...");
     let isInitialCheck = !key.lastChecked;
     try {
-      // Only check models on startup.  For now all models must be available to
-      // the proxy because we don't route requests to different keys.
-      const modelChecks: Promise<unknown>[] = [];
+      // Only check models on startup. Requests are only routed to keys which
+      // can invoke the requested model's family.
       if (isInitialCheck) {
-        modelChecks.push(this.invokeModel("anthropic.claude-v1", key));
-        modelChecks.push(this.invokeModel("anthropic.claude-v2", key));
+        const families = await this.getInvocableFamilies(key);
+        const confirmedModels = families.includes("aws-claude")
+          ? await this.getInvocableGatedModels(key)
+          : [];
+        this.updateKey(key.hash, {
+          modelFamilies: families,
+          confirmedModels,
+          isDisabled: families.length === 0,
+        });
+        if (families.length === 0) {
+          this.log.warn(
+            { key: key.hash },
+            "Key can't invoke any supported models; disabling."
+          );
+        }
       }
 
-      await Promise.all(modelChecks);
       await this.checkLoggingConfiguration(key);
 
       this.log.info(
@@ -146,11 +199,58 @@ export class AwsKeyChecker extends KeyCheckerBase<AwsBedrockKey> {
     this.updateKey(key.hash, { lastChecked: next });
   }
 
-  private async invokeModel(model: string, key: AwsBedrockKey) {
+  /**
+   * Probes each family separately, so that a failed probe (e.g. throttling or
+   * a network error) only leaves out that family. If every probe fails, the
+   * key itself is probably bad, so the first error is thrown to be handled
+   * like any other key check error.
+   */
+  private async getInvocableFamilies(key: AwsBedrockKey) {
+    const families = Object.keys(MODEL_PROBES) as AwsBedrockModelFamily[];
+    const results = await Promise.allSettled(
+      families.map((family) => this.invokeModel(MODEL_PROBES[family], key))
+    );
+
+    const failures = results.filter(
+      (r): r is PromiseRejectedResult => r.status === "rejected"
+    );
+    if (failures.length === results.length) throw failures[0].reason;
+
+    return families.filter((family, i) => {
+      const result = results[i];
+      if (result.status === "fulfilled") return result.value;
+      this.log.warn(
+        { key: key.hash, family, error: result.reason?.message },
+        "Could not check whether key can invoke model family; skipping it."
+      );
+      return false;
+    });
+  }
+
+  /** Returns the gated models which the key can invoke. */
+  private async getInvocableGatedModels(key: AwsBedrockKey) {
+    const results = await Promise.allSettled(
+      GATED_MODEL_PROBES.map((probe) => this.invokeModel(probe, key))
+    );
+    return GATED_MODEL_PROBES.filter((probe, i) => {
+      const result = results[i];
+      if (result.status === "fulfilled") return result.value;
+      this.log.warn(
+        { key: key.hash, model: probe.model, error: result.reason?.message },
+        "Could not check whether key can invoke model; skipping it."
+      );
+      return false;
+    }).map((probe) => probe.model);
+  }
+
+  /**
+   * Sends an invalid request to the probe's model. Resolves to false if the
+   * principal is not allowed to invoke the model, which usually means that
+   * model access has not been granted in the Bedrock console.
+   */
+  private async invokeModel(probe: ModelProbe, key: AwsBedrockKey) {
     const creds = AwsKeyChecker.getCredentialsFromKey(key);
-    // This is not a valid invocation payload, but a 400 response indicates that
-    // the principal at least has permission to invoke the model.
-    const payload = { max_tokens_to_sample: -1, prompt: TEST_PROMPT };
+    const { model, payload, expectedError } = probe;
     const config: AxiosRequestConfig = {
       method: "POST",
       url: POST_INVOKE_MODEL_URL(creds.region, model),
@@ -162,7 +262,23 @@ export class AwsKeyChecker extends KeyCheckerBase<AwsBedrockKey> {
       accept: "*/*",
     });
     await AwsKeyChecker.signRequestForAws(config, key);
-    const response = await axios.request(config);
+    let response;
+    try {
+      response = await axios.request(config);
+    } catch (error) {
+      const err = error as AxiosError;
+      const errorType = AwsKeyChecker.errorIsAwsError(err)
+        ? (err.response!.headers["x-amzn-errortype"] as string).split(":")[0]
+        : undefined;
+      if (errorType === "AccessDeniedException") {
+        this.log.debug(
+          { key: key.hash, model, data: err.response!.data },
+          "Key can't invoke model."
+        );
+        return false;
+      }
+      throw error;
+    }
     const { data, status, headers } = response;
     const errorType = (headers["x-amzn-errortype"] as string).split(":")[0];
     const errorMessage = data?.message;
@@ -170,7 +286,7 @@ export class AwsKeyChecker extends KeyCheckerBase<AwsBedrockKey> {
     // We're looking for a specific error type and message here
     // "ValidationException"
     const correctErrorType = errorType === "ValidationException";
-    const correctErrorMessage = errorMessage?.match(/max_tokens_to_sample/);
+    const correctErrorMessage = errorMessage?.match(expectedError);
     if (!correctErrorType || !correctErrorMessage) {
       throw new AxiosError(
         `Unexpected error when invoking model ${model}: ${errorMessage}`,
@@ -185,6 +301,7 @@ export class AwsKeyChecker extends KeyCheckerBase<AwsBedrockKey> {
       { key: key.hash, errorType, data, status, model },
       "Liveness test complete."
     );
+    return true;
   }
 
   private async checkLoggingConfiguration(key: AwsBedrockKey) {
@@ -2,7 +2,10 @@ import crypto from "crypto";
 import { Key, KeyProvider } from "..";
 import { config } from "../../../config";
 import { logger } from "../../../logger";
-import type { AwsBedrockModelFamily } from "../../models";
+import {
+  AwsBedrockModelFamily,
+  getAwsBedrockModelFamily,
+} from "../../models";
 import { AwsKeyChecker } from "./checker";
 
 // https://docs.aws.amazon.com/bedrock/latest/userguide/model-ids-arns.html
@@ -10,6 +13,12 @@ export const AWS_BEDROCK_SUPPORTED_MODELS = [
   "anthropic.claude-v1",
   "anthropic.claude-v2",
   "anthropic.claude-instant-v1",
+  "anthropic.claude-3-haiku-20240307-v1:0",
+  "anthropic.claude-3-sonnet-20240229-v1:0",
+  "meta.llama2-13b-chat-v1",
+  "meta.llama2-70b-chat-v1",
+  "amazon.titan-text-lite-v1",
+  "amazon.titan-text-express-v1",
 ] as const;
 export type AwsBedrockModel = (typeof AWS_BEDROCK_SUPPORTED_MODELS)[number];
 
@@ -66,7 +75,8 @@ export class AwsBedrockKeyProvider implements KeyProvider<AwsBedrockKey> {
       const newKey: AwsBedrockKey = {
         key,
         service: this.service,
-        modelFamilies: ["aws-claude"],
+        // Narrowed down by the key checker, if enabled.
+        modelFamilies: ["aws-claude", "aws-llama2", "aws-titan"],
         isDisabled: false,
         isRevoked: false,
         promptCount: 0,
@@ -81,6 +91,8 @@ export class AwsBedrockKeyProvider implements KeyProvider<AwsBedrockKey> {
           .slice(0, 8)}`,
         lastChecked: 0,
         ["aws-claudeTokens"]: 0,
+        ["aws-llama2Tokens"]: 0,
+        ["aws-titanTokens"]: 0,
       };
       this.keys.push(newKey);
     }
@@ -98,13 +110,18 @@ export class AwsBedrockKeyProvider implements KeyProvider<AwsBedrockKey> {
     return this.keys.map((k) => Object.freeze({ ...k, key: undefined }));
   }
 
-  public get(_model: AwsBedrockModel) {
+  public get(model: AwsBedrockModel) {
+    const neededFamily = getAwsBedrockModelFamily(model);
     const availableKeys = this.keys.filter((k) => {
       const isNotLogged = k.awsLoggingStatus === "disabled";
-      return !k.isDisabled && (isNotLogged || config.allowAwsLogging);
+      return (
+        !k.isDisabled &&
+        (isNotLogged || config.allowAwsLogging) &&
+        k.modelFamilies.includes(neededFamily)
+      );
     });
     if (availableKeys.length === 0) {
-      throw new Error("No AWS Bedrock keys available");
+      throw new Error(`No AWS Bedrock keys available for model ${model}`);
     }
 
     // (largely copied from the OpenAI provider, without trial key support)
@@ -151,16 +168,19 @@ export class AwsBedrockKeyProvider implements KeyProvider<AwsBedrockKey> {
     return this.keys.filter((k) => !k.isDisabled).length;
   }
 
-  public incrementUsage(hash: string, _model: string, tokens: number) {
+  public incrementUsage(hash: string, model: string, tokens: number) {
     const key = this.keys.find((k) => k.hash === hash);
     if (!key) return;
     key.promptCount++;
-    key["aws-claudeTokens"] += tokens;
+    key[`${getAwsBedrockModelFamily(model)}Tokens`] += tokens;
   }
 
-  public getLockoutPeriod(_model: AwsBedrockModel) {
+  public getLockoutPeriod(model: AwsBedrockModel) {
     // TODO: same exact behavior for three providers, should be refactored
-    const activeKeys = this.keys.filter((k) => !k.isDisabled);
+    const family = getAwsBedrockModelFamily(model);
+    const activeKeys = this.keys.filter(
+      (k) => !k.isDisabled && k.modelFamilies.includes(family)
+    );
     // Don't lock out if there are no keys available or the queue will stall.
     // Just let it through so the add-key middleware can throw an error.
     if (activeKeys.length === 0) return 0;
@@ -0,0 +1,111 @@
+import axios, { AxiosError } from "axios";
+import { KeyCheckerBase } from "../key-checker-base";
+import type { AzureOpenAIKey, AzureOpenAIKeyProvider } from "./provider";
+import { getAzureOpenAIModelFamily } from "../../models";
+
+const MIN_CHECK_INTERVAL = 3 * 1000; // 3 seconds
+const KEY_CHECK_PERIOD = 6 * 60 * 60 * 1000; // 6 hours
+export const AZURE_API_VERSION = "2023-09-01-preview";
+const POST_CHAT_COMPLETIONS = (resource: string, deployment: string) =>
+  `https://${resource}.openai.azure.com/openai/deployments/${deployment}/chat/completions?api-version=${AZURE_API_VERSION}`;
+
+type AzureError = {
+  error: { message: string; type: string | null; code: string };
+};
+type UpdateFn = typeof AzureOpenAIKeyProvider.prototype.update;
+
+export class AzureOpenAIKeyChecker extends KeyCheckerBase<AzureOpenAIKey> {
+  private readonly updateKey: UpdateFn;
+
+  constructor(keys: AzureOpenAIKey[], updateKey: UpdateFn) {
+    super(keys, {
+      service: "azure",
+      keyCheckPeriod: KEY_CHECK_PERIOD,
+      minCheckInterval: MIN_CHECK_INTERVAL,
+    });
+    this.updateKey = updateKey;
+  }
+
+  protected async checkKey(key: AzureOpenAIKey) {
+    if (key.isDisabled) {
+      this.log.warn({ key: key.hash }, "Skipping check for disabled key.");
+      this.scheduleNextCheck();
+      return;
+    }
+
+    this.log.debug({ key: key.hash }, "Checking key...");
+    let isInitialCheck = !key.lastChecked;
+    try {
+      const family = await this.getDeploymentModelFamily(key);
+      this.updateKey(key.hash, { modelFamilies: [family] });
+      this.log.info({ key: key.hash, models: [family] }, "Key check complete.");
+    } catch (error) {
+      // touch the key so we don't check it again for a while
+      this.updateKey(key.hash, {});
+      this.handleAxiosError(key, error as AxiosError);
+    }
+
+    this.lastCheck = Date.now();
+    // Only enqueue the next check if this wasn't a startup check, since those
+    // are batched together elsewhere.
+    if (!isInitialCheck) {
+      this.scheduleNextCheck();
+    }
+  }
+
+  protected handleAxiosError(key: AzureOpenAIKey, error: AxiosError) {
+    if (error.response && AzureOpenAIKeyChecker.errorIsAzureError(error)) {
+      const { status, data } = error.response;
+      if (status === 401 || status === 404) {
+        // 401 for bad keys, 404 DeploymentNotFound for bad deployment names.
+        this.log.warn(
+          { key: key.hash, error: data },
+          "Key is invalid, revoked, or deployment does not exist. Disabling key."
+        );
+        this.updateKey(key.hash, { isDisabled: true, isRevoked: true });
+      } else if (status === 429) {
+        this.log.warn(
+          { key: key.hash, error: data },
+          "Key is rate limited. Rechecking in 10 seconds."
+        );
+        const next = Date.now() - (KEY_CHECK_PERIOD - 10 * 1000);
+        this.updateKey(key.hash, { lastChecked: next });
+      } else {
+        this.log.error(
+          { key: key.hash, status, error: data },
+          "Encountered unexpected error status while checking key. This may indicate a change in the API; please report this."
+        );
+        this.updateKey(key.hash, { lastChecked: Date.now() });
+      }
+      return;
+    }
+    this.log.error(
+      { key: key.hash, error: error.message },
+      "Network error while checking key; trying this key again in a minute."
+    );
+    const oneMinute = 60 * 1000;
+    const next = Date.now() - (KEY_CHECK_PERIOD - oneMinute);
+    this.updateKey(key.hash, { lastChecked: next });
+  }
+
+  /**
+   * Sends a minimal chat completion to the deployment. Azure reports the
+   * underlying model (e.g. `gpt-35-turbo`) in the response, which tells us
+   * which model family the deployment serves.
+   */
+  private async getDeploymentModelFamily(key: AzureOpenAIKey) {
+    const [resource, deployment, apiKey] = key.key.split(":");
+    const { data } = await axios.post<{ model: string }>(
+      POST_CHAT_COMPLETIONS(resource, deployment),
+      { max_tokens: 1, messages: [{ role: "user", content: "" }] },
+      { headers: { "api-key": apiKey } }
+    );
+    this.log.debug({ data }, "Response from Azure OpenAI");
+    return getAzureOpenAIModelFamily(data.model, key.modelFamilies[0]);
+  }
+
+  static errorIsAzureError(error: AxiosError): error is AxiosError<AzureError> {
+    const data = error.response?.data as any;
+    return data?.error?.code;
+  }
+}
@@ -0,0 +1,125 @@
+import axios, { AxiosError } from "axios";
+import { KeyCheckerBase } from "../key-checker-base";
+import type { GoogleAIKey, GoogleAIKeyProvider } from "./provider";
+
+const MIN_CHECK_INTERVAL = 3 * 1000; // 3 seconds
+const KEY_CHECK_PERIOD = 6 * 60 * 60 * 1000; // 6 hours
+const GET_MODELS_URL =
+  "https://generativelanguage.googleapis.com/v1beta/models";
+
+type ListModelsResponse = {
+  models: { name: string; supportedGenerationMethods: string[] }[];
+};
+
+type GoogleAIAPIError = {
+  error: { code: number; message: string; status: string };
+};
+
+type UpdateFn = typeof GoogleAIKeyProvider.prototype.update;
+
+export class GoogleAIKeyChecker extends KeyCheckerBase<GoogleAIKey> {
+  private readonly updateKey: UpdateFn;
+
+  constructor(keys: GoogleAIKey[], updateKey: UpdateFn) {
+    super(keys, {
+      service: "google-ai",
+      keyCheckPeriod: KEY_CHECK_PERIOD,
+      minCheckInterval: MIN_CHECK_INTERVAL,
+    });
+    this.updateKey = updateKey;
+  }
+
+  protected async checkKey(key: GoogleAIKey) {
+    if (key.isDisabled) {
+      this.log.warn({ key: key.hash }, "Skipping check for disabled key.");
+      this.scheduleNextCheck();
+      return;
+    }
+
+    this.log.debug({ key: key.hash }, "Checking key...");
+    let isInitialCheck = !key.lastChecked;
+    try {
+      const hasGemini = await this.testModelAccess(key);
+      if (!hasGemini) {
+        this.log.warn(
+          { key: key.hash },
+          "Key does not have access to Gemini models. Disabling key."
+        );
+        this.updateKey(key.hash, { isDisabled: true });
+      } else {
+        this.updateKey(key.hash, {});
+        this.log.info(
+          { key: key.hash, models: key.modelFamilies },
+          "Key check complete."
+        );
+      }
+    } catch (error) {
+      // touch the key so we don't check it again for a while
+      this.updateKey(key.hash, {});
+      this.handleAxiosError(key, error as AxiosError);
+    }
+
+    this.lastCheck = Date.now();
+    // Only enqueue the next check if this wasn't a startup check, since those
+    // are batched together elsewhere.
+    if (!isInitialCheck) {
+      this.scheduleNextCheck();
+    }
+  }
+
+  protected handleAxiosError(key: GoogleAIKey, error: AxiosError) {
+    if (error.response && GoogleAIKeyChecker.errorIsGoogleAIError(error)) {
+      const { status, data } = error.response;
+      if (status === 400 || status === 403) {
+        // Google returns 400 API_KEY_INVALID for bad keys and 403
+        // PERMISSION_DENIED for keys from projects without API access.
+        this.log.warn(
+          { key: key.hash, error: data },
+          "Key is invalid or revoked. Disabling key."
+        );
+        this.updateKey(key.hash, { isDisabled: true, isRevoked: true });
+      } else if (status === 429) {
+        this.log.warn(
+          { key: key.hash, error: data },
+          "Key is rate limited. Rechecking in 10 seconds."
+        );
+        const next = Date.now() - (KEY_CHECK_PERIOD - 10 * 1000);
+        this.updateKey(key.hash, { lastChecked: next });
+      } else {
+        this.log.error(
+          { key: key.hash, status, error: data },
+          "Encountered unexpected error status while checking key. This may indicate a change in the API; please report this."
+        );
+        this.updateKey(key.hash, { lastChecked: Date.now() });
+      }
+      return;
+    }
+    this.log.error(
+      { key: key.hash, error: error.message },
+      "Network error while checking key; trying this key again in a minute."
+    );
+    const oneMinute = 60 * 1000;
+    const next = Date.now() - (KEY_CHECK_PERIOD - oneMinute);
+    this.updateKey(key.hash, { lastChecked: next });
+  }
+
+  /** Lists models available to the key, which costs nothing. */
+  private async testModelAccess(key: GoogleAIKey): Promise<boolean> {
+    const { data } = await axios.get<ListModelsResponse>(GET_MODELS_URL, {
+      params: { key: key.key },
+    });
+    this.log.debug({ data }, "Response from Google AI");
+    return data.models.some(
+      (m) =>
+        m.name.startsWith("models/gemini-pro") &&
+        m.supportedGenerationMethods.includes("generateContent")
+    );
+  }
+
+  static errorIsGoogleAIError(
+    error: AxiosError
+  ): error is AxiosError<GoogleAIAPIError> {
+    const data = error.response?.data as any;
+    return data?.error?.code;
+  }
+}
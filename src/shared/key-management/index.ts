@@ -4,19 +4,46 @@ import {
   AnthropicModel,
 } from "./anthropic/provider";
 import { GOOGLE_PALM_SUPPORTED_MODELS, GooglePalmModel } from "./palm/provider";
+import {
+  GOOGLE_AI_SUPPORTED_MODELS,
+  GoogleAIModel,
+} from "./google-ai/provider";
 import { AWS_BEDROCK_SUPPORTED_MODELS, AwsBedrockModel } from "./aws/provider";
+import {
+  AZURE_OPENAI_SUPPORTED_MODELS,
+  AzureOpenAIModel,
+} from "./azure/provider";
+import { OpenAICompatibleModel } from "./openai-compatible/provider";
 import { KeyPool } from "./key-pool";
 import type { ModelFamily } from "../models";
 
 /** The request and response format used by a model's API. */
-export type APIFormat = "openai" | "anthropic" | "google-palm" | "openai-text";
+export type APIFormat =
+  | "openai"
+  | "anthropic"
+  | "anthropic-chat"
+  | "google-palm"
+  | "google-ai"
+  | "openai-text"
+  | "aws-llama2"
+  | "aws-titan";
 /** The service that a model is hosted on; distinct because services like AWS provide multiple APIs, but have their own endpoints and authentication. */
-export type LLMService = "openai" | "anthropic" | "google-palm" | "aws";
+export type LLMService =
+  | "openai"
+  | "anthropic"
+  | "google-palm"
+  | "google-ai"
+  | "aws"
+  | "azure"
+  | "openai-compatible";
 export type Model =
   | OpenAIModel
   | AnthropicModel
   | GooglePalmModel
-  | AwsBedrockModel;
+  | GoogleAIModel
+  | AwsBedrockModel
+  | AzureOpenAIModel
+  | OpenAICompatibleModel;
 
 export interface Key {
   /** The API key itself. Never log this, use `hash` instead. */
@@ -25,6 +52,11 @@ export interface Key {
   service: LLMService;
   /** The model families that this key has access to. */
   modelFamilies: ModelFamily[];
+  /**
+   * Models which not every key of their family can use, such as Claude 3, and
+   * which the key checker has confirmed this key can use.
+   */
+  confirmedModels?: string[];
   /** Whether this key is currently disabled, meaning its quota has been exceeded or it has been revoked. */
   isDisabled: boolean;
   /** Whether this key specifically has been revoked. */
@@ -75,9 +107,14 @@ export {
   OPENAI_SUPPORTED_MODELS,
   ANTHROPIC_SUPPORTED_MODELS,
   GOOGLE_PALM_SUPPORTED_MODELS,
+  GOOGLE_AI_SUPPORTED_MODELS,
   AWS_BEDROCK_SUPPORTED_MODELS,
+  AZURE_OPENAI_SUPPORTED_MODELS,
 };
 export { AnthropicKey } from "./anthropic/provider";
 export { OpenAIKey } from "./openai/provider";
 export { GooglePalmKey } from "./palm/provider";
+export { GoogleAIKey } from "./google-ai/provider";
 export { AwsBedrockKey } from "./aws/provider";
+export { AzureOpenAIKey } from "./azure/provider";
+export { OpenAICompatibleKey } from "./openai-compatible/provider";
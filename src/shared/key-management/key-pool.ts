@@ -8,7 +8,13 @@ import { Key, Model, KeyProvider, LLMService } from "./index";
 import { AnthropicKeyProvider, AnthropicKeyUpdate } from "./anthropic/provider";
 import { OpenAIKeyProvider, OpenAIKeyUpdate } from "./openai/provider";
 import { GooglePalmKeyProvider } from "./palm/provider";
+import { GoogleAIKeyProvider } from "./google-ai/provider";
 import { AwsBedrockKeyProvider } from "./aws/provider";
+import { AzureOpenAIKeyProvider } from "./azure/provider";
+import {
+  OPENAI_COMPATIBLE_MODEL_PREFIX,
+  OpenAICompatibleKeyProvider,
+} from "./openai-compatible/provider";
 
 type AllowedPartial = OpenAIKeyUpdate | AnthropicKeyUpdate;
 
@@ -22,7 +28,10 @@ export class KeyPool {
     this.keyProviders.push(new OpenAIKeyProvider());
     this.keyProviders.push(new AnthropicKeyProvider());
     this.keyProviders.push(new GooglePalmKeyProvider());
+    this.keyProviders.push(new GoogleAIKeyProvider());
     this.keyProviders.push(new AwsBedrockKeyProvider());
+    this.keyProviders.push(new AzureOpenAIKeyProvider());
+    this.keyProviders.push(new OpenAICompatibleKeyProvider());
   }
 
   public init() {
@@ -105,7 +114,14 @@ export class KeyPool {
   }
 
   private getService(model: Model): LLMService {
-    if (model.startsWith("gpt") || model.startsWith("text-embedding-ada")) {
+    if (model.startsWith("azure-")) {
+      // Azure-hosted OpenAI models are prefixed by the Azure router so that
+      // they are distinguishable from models hosted by OpenAI itself.
+      return "azure";
+    } else if (model.startsWith(OPENAI_COMPATIBLE_MODEL_PREFIX)) {
+      // Same for models served by the operator's OpenAI-compatible backend.
+      return "openai-compatible";
+    } else if (model.startsWith("gpt") || model.startsWith("text-embedding-ada")) {
       // https://platform.openai.com/docs/models/model-endpoint-compatibility
       return "openai";
     } else if (model.startsWith("claude-")) {
@@ -114,7 +130,14 @@ export class KeyPool {
     } else if (model.includes("bison")) {
       // https://developers.generativeai.google.com/models/language
       return "google-palm";
-    } else if (model.startsWith("anthropic.claude")) {
+    } else if (model.startsWith("gemini")) {
+      // https://ai.google.dev/models/gemini
+      return "google-ai";
+    } else if (
+      model.startsWith("anthropic.claude") ||
+      model.startsWith("meta.llama2") ||
+      model.startsWith("amazon.titan")
+    ) {
       // AWS offers models from a few providers
       // https://docs.aws.amazon.com/bedrock/latest/userguide/model-ids-arns.html
       return "aws";
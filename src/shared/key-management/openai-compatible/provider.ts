@@ -0,0 +1,206 @@
+import crypto from "crypto";
+import { Key, KeyProvider } from "..";
+import { config } from "../../../config";
+import { logger } from "../../../logger";
+import type { OpenAICompatibleModelFamily } from "../../models";
+
+/**
+ * Models served by the operator-configured OpenAI-compatible backend can have
+ * any name, including names that collide with other services (e.g. an
+ * OpenRouter-style gateway serving `gpt-4`), so they are prefixed by the router
+ * to route them to this provider. The prefix is removed before the request is
+ * sent upstream.
+ */
+export const OPENAI_COMPATIBLE_MODEL_PREFIX = "oai-compat-";
+export type OpenAICompatibleModel =
+  `${typeof OPENAI_COMPATIBLE_MODEL_PREFIX}${string}`;
+
+type OpenAICompatibleKeyUsage = {
+  [K in OpenAICompatibleModelFamily as `${K}Tokens`]: number;
+};
+
+export interface OpenAICompatibleKey extends Key, OpenAICompatibleKeyUsage {
+  readonly service: "openai-compatible";
+  readonly modelFamilies: OpenAICompatibleModelFamily[];
+  /** The time at which this key was last rate limited. */
+  rateLimitedAt: number;
+  /** The time until which this key is rate limited. */
+  rateLimitedUntil: number;
+}
+
+/**
+ * Upon being rate limited, a key will be locked out for this many milliseconds
+ * while we wait for other concurrent requests to finish.
+ */
+const RATE_LIMIT_LOCKOUT = 2000;
+/**
+ * Upon assigning a key, we will wait this many milliseconds before allowing it
+ * to be used again. This is to prevent the queue from flooding a key with too
+ * many requests while we wait to learn whether previous ones succeeded.
+ */
+const KEY_REUSE_DELAY = 500;
+
+export class OpenAICompatibleKeyProvider
+  implements KeyProvider<OpenAICompatibleKey>
+{
+  readonly service = "openai-compatible";
+
+  private keys: OpenAICompatibleKey[] = [];
+  private log = logger.child({ module: "key-provider", service: this.service });
+
+  constructor() {
+    const baseUrl = config.openaiCompatibleUrl?.trim();
+    if (!baseUrl) {
+      this.log.warn(
+        "OPENAI_COMPATIBLE_URL is not set. OpenAI-compatible API will not be available."
+      );
+      return;
+    }
+    const keyConfig = config.openaiCompatibleKey?.trim();
+    let bareKeys: string[];
+    bareKeys = [...new Set((keyConfig ?? "").split(",").map((k) => k.trim()))];
+    // Self-hosted backends often don't require authentication at all. In that
+    // case we still need a single "key" so that requests can be queued and
+    // usage can be tracked.
+    if (!keyConfig) {
+      this.log.info(
+        "OPENAI_COMPATIBLE_KEY is not set. Requests will be sent without an API key."
+      );
+    }
+    for (const key of bareKeys) {
+      const newKey: OpenAICompatibleKey = {
+        key,
+        service: this.service,
+        modelFamilies: ["openai-compatible"],
+        isDisabled: false,
+        isRevoked: false,
+        promptCount: 0,
+        lastUsed: 0,
+        rateLimitedAt: 0,
+        rateLimitedUntil: 0,
+        hash: `oac-${crypto
+          .createHash("sha256")
+          .update(baseUrl + key)
+          .digest("hex")
+          .slice(0, 8)}`,
+        lastChecked: 0,
+        "openai-compatibleTokens": 0,
+      };
+      this.keys.push(newKey);
+    }
+    this.log.info(
+      { keyCount: this.keys.length, baseUrl },
+      "Loaded OpenAI-compatible keys."
+    );
+  }
+
+  public init() {}
+
+  public list() {
+    return this.keys.map((k) => Object.freeze({ ...k, key: undefined }));
+  }
+
+  public get(_model: OpenAICompatibleModel) {
+    const availableKeys = this.keys.filter((k) => !k.isDisabled);
+    if (availableKeys.length === 0) {
+      throw new Error("No OpenAI-compatible keys available");
+    }
+
+    // (largely copied from the OpenAI provider, without trial key support)
+    // Select a key, from highest priority to lowest priority:
+    // 1. Keys which are not rate limited
+    //    a. If all keys were rate limited recently, select the least-recently
+    //       rate limited key.
+    // 2. Keys which have not been used in the longest time
+
+    const now = Date.now();
+
+    const keysByPriority = availableKeys.sort((a, b) => {
+      const aRateLimited = now - a.rateLimitedAt < RATE_LIMIT_LOCKOUT;
+      const bRateLimited = now - b.rateLimitedAt < RATE_LIMIT_LOCKOUT;
+
+      if (aRateLimited && !bRateLimited) return 1;
+      if (!aRateLimited && bRateLimited) return -1;
+      if (aRateLimited && bRateLimited) {
+        return a.rateLimitedAt - b.rateLimitedAt;
+      }
+
+      return a.lastUsed - b.lastUsed;
+    });
+
+    const selectedKey = keysByPriority[0];
+    selectedKey.lastUsed = now;
+    this.throttle(selectedKey.hash);
+    return { ...selectedKey };
+  }
+
+  public disable(key: OpenAICompatibleKey) {
+    const keyFromPool = this.keys.find((k) => k.hash === key.hash);
+    if (!keyFromPool || keyFromPool.isDisabled) return;
+    keyFromPool.isDisabled = true;
+    this.log.warn({ key: key.hash }, "Key disabled");
+  }
+
+  public update(hash: string, update: Partial<OpenAICompatibleKey>) {
+    const keyFromPool = this.keys.find((k) => k.hash === hash)!;
+    Object.assign(keyFromPool, { lastChecked: Date.now(), ...update });
+  }
+
+  public available() {
+    return this.keys.filter((k) => !k.isDisabled).length;
+  }
+
+  public incrementUsage(hash: string, _model: string, tokens: number) {
+    const key = this.keys.find((k) => k.hash === hash);
+    if (!key) return;
+    key.promptCount++;
+    key["openai-compatibleTokens"] += tokens;
+  }
+
+  public getLockoutPeriod(_model: OpenAICompatibleModel) {
+    const activeKeys = this.keys.filter((k) => !k.isDisabled);
+    // Don't lock out if there are no keys available or the queue will stall.
+    // Just let it through so the add-key middleware can throw an error.
+    if (activeKeys.length === 0) return 0;
+
+    const now = Date.now();
+    const rateLimitedKeys = activeKeys.filter((k) => now < k.rateLimitedUntil);
+    const anyNotRateLimited = rateLimitedKeys.length < activeKeys.length;
+
+    if (anyNotRateLimited) return 0;
+
+    // If all keys are rate-limited, return the time until the first key is
+    // ready.
+    return Math.min(...activeKeys.map((k) => k.rateLimitedUntil - now));
+  }
+
+  /**
+   * We don't know anything about the backend's rate limits, so all we can do
+   * on a 429 is wait a bit and try again.
+   */
+  public markRateLimited(keyHash: string) {
+    this.log.debug({ key: keyHash }, "Key rate limited");
+    const key = this.keys.find((k) => k.hash === keyHash)!;
+    const now = Date.now();
+    key.rateLimitedAt = now;
+    key.rateLimitedUntil = now + RATE_LIMIT_LOCKOUT;
+  }
+
+  public recheck() {}
+
+  /**
+   * Applies a short artificial delay to the key upon dequeueing, in order to
+   * prevent it from being immediately assigned to another request before the
+   * current one can be dispatched.
+   **/
+  private throttle(hash: string) {
+    const now = Date.now();
+    const key = this.keys.find((k) => k.hash === hash)!;
+
+    const currentRateLimit = key.rateLimitedUntil;
+    const nextRateLimit = now + KEY_REUSE_DELAY;
+
+    key.rateLimitedAt = now;
+    key.rateLimitedUntil = Math.max(currentRateLimit, nextRateLimit);
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Declarative table which decides which model is requested from the upstream
+ * service. Rules configured via `MODEL_ROUTES` are checked first, followed by
+ * the built-in rules which map whatever model a client sent to one that the
+ * service will accept. The first matching rule wins.
+ *
+ * Rules which set `toService` send matching requests on to that service's
+ * endpoint instead, as if the client had sent them there. To send requests to
+ * another service only when a model family runs out of keys, see
+ * `FAILOVER_CHAINS` instead.
+ */
+import { config } from "../config";
+import type { APIFormat, LLMService } from "./key-management";
+import type { User } from "./users/schema";
+
+export type ModelRoute = {
+  /** Glob matched against the model requested by the client, e.g. `gpt-4*`. */
+  from: string;
+  /**
+   * Model to request instead, which must be one of the models of the service
+   * the request is sent to. If omitted, matching requests keep the model they
+   * asked for and no further rules are checked.
+   */
+  to?: string;
+  /**
+   * Service to send matching requests to, if not the one whose endpoint
+   * received them. Requires `to`. Only requests in a format which one of the
+   * service's endpoints accepts can be sent on; the rule is skipped for others.
+   */
+  toService?: LLMService;
+  /**
+   * Rejects matching requests with this error message instead, for models the
+   * service doesn't offer.
+   */
+  reject?: string;
+  /** Only matches requests to this service's endpoints. */
+  service?: LLMService;
+  /** Only matches endpoints which receive requests in one of these formats. */
+  inboundApis?: APIFormat[];
+  /** Only matches endpoints which send requests in one of these formats. */
+  outboundApis?: APIFormat[];
+  /**
+   * Only matches requests whose prompt and max output tokens add up to at
+   * least this many tokens.
+   */
+  minContextTokens?: number;
+  /**
+   * Only matches requests whose prompt and max output tokens add up to at
+   * most this many tokens.
+   */
+  maxContextTokens?: number;
+  /** Only matches requests from users of these types. */
+  userTypes?: User["type"][];
+};
+
+export type ModelRouteQuery = {
+  service: LLMService;
+  inboundApi: APIFormat;
+  outboundApi: APIFormat;
+  model: string;
+  userType?: User["type"];
+  /**
+   * Whether the request can be sent on to the given service. Rules sending
+   * requests to services which can't accept them are skipped.
+   */
+  canRouteTo?: (service: LLMService, model: string) => boolean;
+};
+
+export type ModelRouteSource = "configured" | "built-in";
+
+const AWS_CLAUDE_APIS: APIFormat[] = ["anthropic", "anthropic-chat"];
+
+/**
+ * Model names which only one service accepts. OpenAI-compatible upstreams may
+ * serve models under any name, so they accept all of them.
+ */
+const SERVICE_MODEL_PATTERNS: { pattern: RegExp; services: LLMService[] }[] = [
+  { pattern: /^(gpt-|text-|davinci)/, services: ["openai", "azure"] },
+  { pattern: /^claude-/, services: ["anthropic"] },
+  { pattern: /^(anthropic|meta|amazon)\./, services: ["aws"] },
+  { pattern: /^gemini/, services: ["google-ai"] },
+  { pattern: /-bison/, services: ["google-palm"] },
+];
+
+/**
+ * Preserves the behavior of the proxy's hardcoded model selection from before
+ * the routing table existed.
+ */
+function getBuiltInRoutes(): ModelRoute[] {
+  // Legacy env vars, kept for compatibility with existing deployments.
+  const claudeSmall = process.env.CLAUDE_SMALL_MODEL || "claude-v1";
+  const claudeBig = process.env.CLAUDE_BIG_MODEL || "claude-v1-100k";
+
+  return [
+    { service: "openai", outboundApis: ["openai-text"], from: "*-instruct*" },
+    {
+      service: "openai",
+      outboundApis: ["openai-text"],
+      from: "*",
+      to: "gpt-3.5-turbo-instruct",
+    },
+    // Anthropic clients will send Claude model names to the OpenAI endpoint
+    // which translates their requests, so pick the closest GPT equivalent.
+    { service: "openai", inboundApis: ["anthropic"], from: "gpt-*" },
+    {
+      service: "openai",
+      inboundApis: ["anthropic"],
+      from: "*instant*",
+      to: "gpt-3.5-turbo",
+    },
+    { service: "openai", inboundApis: ["anthropic"], from: "*", to: "gpt-4" },
+    { service: "anthropic", from: "claude-*" },
+    {
+      service: "anthropic",
+      from: "*",
+      minContextTokens: 8500,
+      to: claudeBig,
+    },
+    { service: "anthropic", from: "*", to: claudeSmall },
+    { service: "google-palm", from: "*", to: "text-bison-001" },
+    { service: "google-ai", from: "gemini*" },
+    { service: "google-ai", from: "*", to: "gemini-pro" },
+    // AWS model IDs are namespaced by vendor. Clients may also send the
+    // Anthropic names for Claude models, or OpenAI names if they expect the
+    // proxy to translate them.
+    {
+      service: "aws",
+      outboundApis: AWS_CLAUDE_APIS,
+      from: "*anthropic.claude*",
+    },
+    {
+      service: "aws",
+      outboundApis: AWS_CLAUDE_APIS,
+      from: "claude-3-haiku*",
+      to: "anthropic.claude-3-haiku-20240307-v1:0",
+    },
+    {
+      service: "aws",
+      outboundApis: AWS_CLAUDE_APIS,
+      from: "claude-3-sonnet*",
+      to: "anthropic.claude-3-sonnet-20240229-v1:0",
+    },
+    {
+      service: "aws",
+      outboundApis: AWS_CLAUDE_APIS,
+      from: "claude-3*",
+      reject: "Only Claude 3 Sonnet and Haiku are available on AWS Bedrock.",
+    },
+    {
+      service: "aws",
+      outboundApis: AWS_CLAUDE_APIS,
+      from: "claude-v1*",
+      to: "anthropic.claude-v1",
+    },
+    {
+      service: "aws",
+      outboundApis: AWS_CLAUDE_APIS,
+      from: "claude-1*",
+      to: "anthropic.claude-v1",
+    },
+    {
+      service: "aws",
+      outboundApis: AWS_CLAUDE_APIS,
+      from: "*",
+      to: "anthropic.claude-v2",
+    },
+    { service: "aws", outboundApis: ["aws-llama2"], from: "meta.llama2*" },
+    {
+      service: "aws",
+      outboundApis: ["aws-llama2"],
+      from: "*13b*",
+      to: "meta.llama2-13b-chat-v1",
+    },
+    {
+      service: "aws",
+      outboundApis: ["aws-llama2"],
+      from: "*",
+      to: "meta.llama2-70b-chat-v1",
+    },
+    { service: "aws", outboundApis: ["aws-titan"], from: "amazon.titan*" },
+    {
+      service: "aws",
+      outboundApis: ["aws-titan"],
+      from: "*lite*",
+      to: "amazon.titan-text-lite-v1",
+    },
+    {
+      service: "aws",
+      outboundApis: ["aws-titan"],
+      from: "*",
+      to: "amazon.titan-text-express-v1",
+    },
+  ];
+}
+
+let routes: { route: ModelRoute; source: ModelRouteSource }[] | null = null;
+const globCache = new Map<string, RegExp>();
+
+/** Returns the full routing table, in the order the rules are checked. */
+export function getModelRoutes() {
+  if (!routes) {
+    routes = [
+      ...config.modelRoutes.map((route) => ({
+        route,
+        source: "configured" as const,
+      })),
+      ...getBuiltInRoutes().map((route) => ({
+        route,
+        source: "built-in" as const,
+      })),
+    ];
+  }
+  return routes;
+}
+
+/**
+ * Throws if any configured rule routes requests to a model which the service
+ * the request would be sent to doesn't serve.
+ */
+export function assertModelRoutesAreValid() {
+  config.modelRoutes.forEach((route, index) => {
+    const rule = `MODEL_ROUTES rule ${index + 1}`;
+    if (route.toService && !route.to) {
+      throw new Error(
+        `${rule} sets \`toService\` and so must also set \`to\`.`
+      );
+    }
+    if (!route.to) return;
+    const service = route.toService ?? route.service;
+    if (!service) {
+      throw new Error(
+        `${rule} sets \`to\` and so must also set \`service\` or \`toService\`.`
+      );
+    }
+    if (service === "openai-compatible") return;
+
+    const known = SERVICE_MODEL_PATTERNS.find(({ pattern }) =>
+      pattern.test(route.to!)
+    );
+    if (known && !known.services.includes(service)) {
+      throw new Error(
+        `${rule} routes to ${route.to}, which the ${service} service doesn't serve. Set \`toService\` to send requests to another service.`
+      );
+    }
+  });
+}
+
+/** Whether any configured rule sends requests on to another service. */
+export function hasServiceRoutes() {
+  return config.modelRoutes.some((route) => route.toService);
+}
+
+/**
+ * Finds the first rule which matches the request. Counting tokens is
+ * relatively expensive, so the context size is only requested if a rule with
+ * a context size condition would otherwise match. Rules with such conditions
+ * never match if the context size can't be determined.
+ */
+export async function findModelRoute(
+  query: ModelRouteQuery,
+  getContextTokens: () => Promise<number | undefined>
+) {
+  let contextTokens: number | undefined;
+  let counted = false;
+
+  for (const { route } of getModelRoutes()) {
+    if (!matchesQuery(route, query)) continue;
+
+    const { minContextTokens: min, maxContextTokens: max } = route;
+    if (min !== undefined || max !== undefined) {
+      if (!counted) {
+        contextTokens = await getContextTokens();
+        counted = true;
+      }
+      if (contextTokens === undefined) continue;
+      if (min !== undefined && contextTokens < min) continue;
+      if (max !== undefined && contextTokens > max) continue;
+    }
+
+    return route;
+  }
+  return undefined;
+}
+
+function matchesQuery(route: ModelRoute, query: ModelRouteQuery) {
+  if (route.service && route.service !== query.service) return false;
+  if (route.inboundApis && !route.inboundApis.includes(query.inboundApi)) {
+    return false;
+  }
+  if (route.outboundApis && !route.outboundApis.includes(query.outboundApi)) {
+    return false;
+  }
+  if (route.userTypes) {
+    if (!query.userType || !route.userTypes.includes(query.userType)) {
+      return false;
+    }
+  }
+  if (!globToRegExp(route.from).test(query.model)) return false;
+  if (route.toService && route.toService !== query.service) {
+    return query.canRouteTo?.(route.toService, route.to!) ?? false;
+  }
+  return true;
+}
+
+function globToRegExp(glob: string) {
+  let regex = globCache.get(glob);
+  if (!regex) {
+    const pattern = glob
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    regex = new RegExp(`^${pattern}$`, "i");
+    globCache.set(glob, regex);
+  }
+  return regex;
+}
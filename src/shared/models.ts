@@ -3,12 +3,21 @@ import { logger } from "../logger";
 export type OpenAIModelFamily = "turbo" | "gpt4" | "gpt4-32k";
 export type AnthropicModelFamily = "claude";
 export type GooglePalmModelFamily = "bison";
-export type AwsBedrockModelFamily = "aws-claude";
+export type GoogleAIModelFamily = "gemini-pro";
+export type AwsBedrockModelFamily =
+  | "aws-claude"
+  | "aws-llama2"
+  | "aws-titan";
+export type AzureOpenAIModelFamily = `azure-${OpenAIModelFamily}`;
+export type OpenAICompatibleModelFamily = "openai-compatible";
 export type ModelFamily =
   | OpenAIModelFamily
   | AnthropicModelFamily
   | GooglePalmModelFamily
-  | AwsBedrockModelFamily;
+  | GoogleAIModelFamily
+  | AwsBedrockModelFamily
+  | AzureOpenAIModelFamily
+  | OpenAICompatibleModelFamily;
 
 export const MODEL_FAMILIES = (<A extends readonly ModelFamily[]>(
   arr: A & ([ModelFamily] extends [A[number]] ? unknown : never)
@@ -18,7 +27,14 @@ export const MODEL_FAMILIES = (<A extends readonly ModelFamily[]>(
   "gpt4-32k",
   "claude",
   "bison",
+  "gemini-pro",
   "aws-claude",
+  "aws-llama2",
+  "aws-titan",
+  "azure-turbo",
+  "azure-gpt4",
+  "azure-gpt4-32k",
+  "openai-compatible",
 ] as const);
 
 export const OPENAI_MODEL_FAMILY_MAP: { [regex: string]: OpenAIModelFamily } = {
@@ -50,10 +66,44 @@ export function getGooglePalmModelFamily(model: string): ModelFamily {
   return "bison";
 }
 
-export function getAwsBedrockModelFamily(_model: string): ModelFamily {
+export function getGoogleAIModelFamily(model: string): ModelFamily {
+  if (model.match(/^gemini-pro/)) return "gemini-pro";
+  const stack = new Error().stack;
+  logger.warn({ model, stack }, "Unmapped Google AI model family");
+  return "gemini-pro";
+}
+
+export function getAwsBedrockModelFamily(
+  model: string
+): AwsBedrockModelFamily {
+  if (model.startsWith("meta.llama2")) return "aws-llama2";
+  if (model.startsWith("amazon.titan")) return "aws-titan";
   return "aws-claude";
 }
 
+export function getAzureOpenAIModelFamily(
+  model: string,
+  defaultFamily: AzureOpenAIModelFamily = "azure-gpt4"
+): AzureOpenAIModelFamily {
+  // Azure model names omit periods. Deployment names are arbitrary, but are
+  // usually named after the model they serve.
+  const modified = model
+    .replace(/^azure-/, "")
+    .replace("gpt-35-turbo", "gpt-3.5-turbo");
+  for (const [regex, family] of Object.entries(OPENAI_MODEL_FAMILY_MAP)) {
+    if (modified.match(regex)) return `azure-${family}`;
+  }
+  const stack = new Error().stack;
+  logger.warn({ model, stack }, "Unmapped Azure OpenAI model family");
+  return defaultFamily;
+}
+
+export function getOpenAICompatibleModelFamily(
+  _model: string
+): OpenAICompatibleModelFamily {
+  return "openai-compatible";
+}
+
 export function assertIsKnownModelFamily(
   modelFamily: string
 ): asserts modelFamily is ModelFamily {
@@ -7,6 +7,8 @@ import { sheets } from "./backends";
 
 const FLUSH_INTERVAL = 1000 * 10;
 const MAX_BATCH_SIZE = 25;
+/** How long `drain` may take before remaining entries are discarded. */
+const DRAIN_TIMEOUT = 1000 * 5;
 
 const queue: PromptLogEntry[] = [];
 const log = logger.child({ module: "log-queue" });
@@ -15,6 +17,8 @@ let started = false;
 let timeoutId: NodeJS.Timeout | null = null;
 let retrying = false;
 let consecutiveFailedBatches = 0;
+let draining = false;
+let currentFlush: Promise<void> | null = null;
 
 export const enqueue = (payload: PromptLogEntry) => {
   if (!started) {
@@ -24,11 +28,17 @@ export const enqueue = (payload: PromptLogEntry) => {
   queue.push(payload);
 };
 
-export const flush = async () => {
-  if (!started) {
-    return;
+export const flush = () => {
+  if (!started || draining) {
+    return Promise.resolve();
   }
+  currentFlush = flushBatch().finally(() => {
+    currentFlush = null;
+  });
+  return currentFlush;
+};
 
+const flushBatch = async () => {
   if (queue.length > 0) {
     const batchSize = Math.min(MAX_BATCH_SIZE, queue.length);
     const nextBatch = queue.splice(0, batchSize);
@@ -75,6 +85,47 @@ export const start = async () => {
   scheduleFlush();
 };
 
+/**
+ * Submits all remaining entries and stops the queue, e.g. before exiting.
+ * Entries which can't be submitted within `timeout` milliseconds are discarded.
+ */
+export const drain = async (timeout = DRAIN_TIMEOUT) => {
+  if (!started) {
+    return;
+  }
+  draining = true;
+  if (timeoutId) {
+    clearTimeout(timeoutId);
+  }
+  const deadline = Date.now() + timeout;
+
+  // A batch which fails to submit is put back in the queue, so the queue is
+  // only drained once any flush already in progress has finished.
+  if (currentFlush) {
+    await withDeadline(currentFlush, deadline).catch(() => {});
+  }
+
+  while (queue.length > 0 && Date.now() < deadline) {
+    const nextBatch = queue.splice(0, MAX_BATCH_SIZE);
+    log.info({ size: nextBatch.length }, "Submitting batch before shutdown.");
+    try {
+      await withDeadline(sheets.appendBatch(nextBatch), deadline);
+    } catch (e: any) {
+      log.error(
+        { message: e.message, stack: e.stack },
+        "Failed to flush batch before shutdown, discarding."
+      );
+    }
+  }
+  if (queue.length > 0) {
+    log.error(
+      { size: queue.length },
+      "Timed out flushing log queue before shutdown, discarding entries."
+    );
+  }
+  stop();
+};
+
 export const stop = () => {
   if (timeoutId) {
     clearTimeout(timeoutId);
@@ -114,3 +165,13 @@ const scheduleFlush = (halfInterval = false) => {
     halfInterval ? FLUSH_INTERVAL / 2 : FLUSH_INTERVAL
   );
 };
+
+/** Rejects if the promise hasn't settled by the deadline. */
+const withDeadline = <T>(promise: Promise<T>, deadline: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error("Timed out waiting for logging backend.")),
+      deadline - Date.now()
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
@@ -0,0 +1 @@
+export { MemoryResponseCache } from "./memory";
@@ -0,0 +1,41 @@
+import type { CachedResponse, ResponseCacheBackend } from "..";
+
+type Entry = { value: CachedResponse; expiresAt: number };
+
+/**
+ * Least-recently-used cache backed by a Map, which iterates in insertion
+ * order. Reading an entry moves it to the end, so the first entry is always
+ * the next one to evict.
+ */
+export class MemoryResponseCache implements ResponseCacheBackend {
+  private readonly entries = new Map<string, Entry>();
+  private readonly ttl: number;
+  private readonly maxSize: number;
+
+  constructor({ ttl, maxSize }: { ttl: number; maxSize: number }) {
+    this.ttl = ttl;
+    this.maxSize = maxSize;
+  }
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedResponse) {
+    if (this.maxSize <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+  }
+}
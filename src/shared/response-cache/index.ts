@@ -0,0 +1,40 @@
+/* Caches completions for deterministic requests so that identical requests
+can be answered without using a queue slot or an upstream key. Responses are
+kept in a pluggable backend; only an in-memory LRU cache exists for now, but
+the interface is asynchronous so that a shared store could be added later. */
+
+import { config } from "../../config";
+import { assertNever } from "../utils";
+import { MemoryResponseCache } from "./backends";
+
+export interface CachedResponse {
+  /** Completion in the format the client requested it in. */
+  body: Record<string, any>;
+  /** Tokens counted for the completion, charged again to each cache hit. */
+  outputTokens: number;
+  createdAt: number;
+}
+
+export interface ResponseCacheBackend {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse): Promise<void>;
+}
+
+let backend: ResponseCacheBackend | null = null;
+
+export function getResponseCache(): ResponseCacheBackend {
+  if (!backend) {
+    const options = {
+      ttl: config.responseCacheTtl * 1000,
+      maxSize: config.responseCacheMaxSize,
+    };
+    switch (config.responseCacheBackend) {
+      case "memory":
+        backend = new MemoryResponseCache(options);
+        break;
+      default:
+        assertNever(config.responseCacheBackend);
+    }
+  }
+  return backend!;
+}
@@ -5,19 +5,31 @@ import { ModelFamily } from "./models";
 export function getTokenCostUsd(model: ModelFamily, tokens: number) {
   let cost = 0;
   switch (model) {
+    case "azure-gpt4-32k":
     case "gpt4-32k":
       cost = 0.00006;
       break;
+    case "azure-gpt4":
     case "gpt4":
       cost = 0.00003;
       break;
+    case "azure-turbo":
     case "turbo":
       cost = 0.0000015;
       break;
+    case "gemini-pro":
+      cost = 0.0000005;
+      break;
     case "aws-claude":
     case "claude":
       cost = 0.00001102;
       break;
+    case "aws-llama2":
+      cost = 0.00000195;
+      break;
+    case "aws-titan":
+      cost = 0.0000008;
+      break;
   }
   return cost * Math.max(0, tokens);
 }
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findStopSequence,
+  getPartialStopLength,
+  truncateAtStopSequence,
+} from "./stop-sequences";
+
+describe("findStopSequence", () => {
+  it("returns -1 if no stop sequence occurs", () => {
+    assert.equal(findStopSequence("Hello there", ["\n\nUser:"]), -1);
+    assert.equal(findStopSequence("Hello there", []), -1);
+  });
+
+  it("returns the earliest occurrence of any stop sequence", () => {
+    const stops = ["END", "\n\nUser:"];
+    assert.equal(findStopSequence("Hi\n\nUser: hey END", stops), 2);
+  });
+});
+
+describe("truncateAtStopSequence", () => {
+  it("cuts the text before the stop sequence", () => {
+    assert.equal(
+      truncateAtStopSequence("Hi\n\nUser: hey", ["\n\nUser:"]),
+      "Hi"
+    );
+  });
+
+  it("leaves text without a stop sequence unchanged", () => {
+    assert.equal(truncateAtStopSequence("Hi", ["\n\nUser:"]), "Hi");
+  });
+});
+
+describe("getPartialStopLength", () => {
+  it("returns 0 if no suffix could start a stop sequence", () => {
+    assert.equal(getPartialStopLength("Hello", ["\n\nUser:"]), 0);
+    assert.equal(getPartialStopLength("", ["\n\nUser:"]), 0);
+  });
+
+  it("returns the length of the longest partial stop sequence", () => {
+    assert.equal(getPartialStopLength("Hello\n\nUs", ["\n\nUser:"]), 4);
+    assert.equal(getPartialStopLength("Hello\n", ["\n\nUser:", "\nEND"]), 1);
+    assert.equal(getPartialStopLength("Hi\n\n", ["\nX", "\n\nUser:"]), 2);
+  });
+
+  it("doesn't count a complete stop sequence as partial", () => {
+    assert.equal(getPartialStopLength("Hello END", ["END"]), 0);
+  });
+
+  it("handles text shorter than the stop sequence", () => {
+    assert.equal(getPartialStopLength("\nU", ["\n\nUser:"]), 0);
+    assert.equal(getPartialStopLength("\n\nU", ["\n\nUser:"]), 3);
+  });
+});
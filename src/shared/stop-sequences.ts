@@ -0,0 +1,46 @@
+/**
+ * Emulation of stop sequences for APIs which accept fewer stop sequences than
+ * clients send. As many as the API accepts are sent upstream, and the proxy
+ * enforces the rest itself by truncating the completion at the first
+ * occurrence of any of them.
+ */
+
+/**
+ * Returns the position of the earliest stop sequence in the text, or -1 if
+ * the text doesn't contain any of them.
+ */
+export function findStopSequence(text: string, stops: string[]) {
+  let earliest = -1;
+  for (const stop of stops) {
+    const index = text.indexOf(stop);
+    if (index !== -1 && (earliest === -1 || index < earliest)) {
+      earliest = index;
+    }
+  }
+  return earliest;
+}
+
+/** Truncates the text before the earliest stop sequence it contains. */
+export function truncateAtStopSequence(text: string, stops: string[]) {
+  const index = findStopSequence(text, stops);
+  return index === -1 ? text : text.slice(0, index);
+}
+
+/**
+ * Returns the length of the longest suffix of the text which could be the
+ * start of a stop sequence. When streaming, that much text must be held back
+ * until the following chunk shows whether the stop sequence is completed.
+ */
+export function getPartialStopLength(text: string, stops: string[]) {
+  let longest = 0;
+  for (const stop of stops) {
+    const max = Math.min(stop.length - 1, text.length);
+    for (let length = max; length > longest; length--) {
+      if (stop.startsWith(text.slice(-length))) {
+        longest = length;
+        break;
+      }
+    }
+  }
+  return longest;
+}
@@ -78,8 +78,20 @@ export function buildFakeSse(
         log_id: "proxy-req-" + req.id
       };
       break;
+    case "anthropic-chat":
+      fakeEvent = {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "text_delta", text: content },
+      };
+      break;
     case "google-palm":
-      throw new Error("PaLM not supported as an inbound API format");
+    case "google-ai":
+    case "aws-llama2":
+    case "aws-titan":
+      throw new Error(
+        `${req.inboundApi} not supported as an inbound API format`
+      );
     default:
       assertNever(req.inboundApi);
   }
@@ -91,5 +103,12 @@ export function buildFakeSse(
     ].join("\n") + "\n\n";
   }
 
+  if (req.inboundApi === "anthropic-chat") {
+    return [
+      "event: content_block_delta",
+      `data: ${JSON.stringify(fakeEvent)}`,
+    ].join("\n") + "\n\n";
+  }
+
   return `data: ${JSON.stringify(fakeEvent)}\n\n`;
 }
\ No newline at end of file
@@ -10,7 +10,17 @@ export function init() {
   return true;
 }
 
-export function getTokenCount(prompt: string, _model: string) {
+export function getTokenCount(
+  prompt: string | AnthropicChatPrompt,
+  _model: string
+) {
+  if (typeof prompt !== "string") {
+    return getChatTokenCount(prompt);
+  }
+  return getTextTokenCount(prompt);
+}
+
+function getTextTokenCount(prompt: string) {
   // Don't try tokenizing if the prompt is massive to prevent DoS.
   // 500k characters should be sufficient for all supported models.
   if (prompt.length > 500000) {
@@ -25,3 +35,53 @@ export function getTokenCount(prompt: string, _model: string) {
     token_count: encoder.encode(prompt.normalize("NFKC"), "all").length,
   };
 }
+
+function getChatTokenCount({ system, messages }: AnthropicChatPrompt) {
+  // Anthropic doesn't document how the Messages API is tokenized, but it is
+  // presumably rendered into the same Human/Assistant turn format internally.
+  let prompt = system ? `${system}` : "";
+  let imageTokens = 0;
+  for (const message of messages) {
+    const role = message.role === "assistant" ? "Assistant" : "Human";
+    const parts =
+      typeof message.content === "string"
+        ? [{ type: "text" as const, text: message.content }]
+        : message.content;
+    prompt += `\n\n${role}: `;
+    for (const part of parts) {
+      if (part.type === "text") {
+        prompt += part.text;
+      } else {
+        imageTokens += CLAUDE_IMAGE_TOKEN_ESTIMATE;
+      }
+    }
+  }
+  prompt += "\n\nAssistant:";
+
+  const result = getTextTokenCount(prompt);
+  return { ...result, token_count: result.token_count + imageTokens };
+}
+
+/**
+ * Anthropic doesn't publish a formula for image tokens, so we assume a large
+ * image (~1.15 megapixels at ~750 pixels per token).
+ */
+const CLAUDE_IMAGE_TOKEN_ESTIMATE = 1600;
+
+export type AnthropicChatMessage = {
+  role: "user" | "assistant";
+  content:
+    | string
+    | (
+        | { type: "text"; text: string }
+        | {
+            type: "image";
+            source: { type: "base64"; media_type: string; data: string };
+          }
+      )[];
+};
+
+export type AnthropicChatPrompt = {
+  system?: string;
+  messages: AnthropicChatMessage[];
+};
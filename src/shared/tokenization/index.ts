@@ -1,2 +1,3 @@
-export { OpenAIPromptMessage } from "./openai";
+export { OpenAIContentPart, OpenAIPromptMessage } from "./openai";
+export { AnthropicChatMessage, AnthropicChatPrompt } from "./claude";
 export { init, countTokens } from "./tokenizer";
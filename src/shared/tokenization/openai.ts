@@ -1,5 +1,6 @@
 import { Tiktoken } from "tiktoken/lite";
 import cl100k_base from "tiktoken/encoders/cl100k_base.json";
+import type { OpenAIToolCall } from "../tool-emulation";
 
 let encoder: Tiktoken;
 
@@ -23,7 +24,7 @@ export function getTokenCount(
     return getTextTokenCount(prompt);
   }
 
-  const gpt4 = model.startsWith("gpt-4");
+  const gpt4 = model.includes("gpt-4");
 
   const tokensPerMessage = gpt4 ? 3 : 4;
   const tokensPerName = gpt4 ? 1 : -1; // turbo omits role if name is present
@@ -34,8 +35,20 @@ export function getTokenCount(
     numTokens += tokensPerMessage;
     for (const key of Object.keys(message)) {
       {
-        const value = message[key as keyof OpenAIPromptMessage];
-        if (!value || typeof value !== "string") continue;
+        let value = message[key as keyof OpenAIPromptMessage];
+        if (!value) continue;
+        if (key === "content" && Array.isArray(value)) {
+          const parts = value as OpenAIContentPart[];
+          parts.forEach((part) => {
+            if (part.type === "image_url") {
+              numTokens += getImageTokenCount(part.image_url);
+            }
+          });
+          value = parts.map((p) => (p.type === "text" ? p.text : "")).join("");
+        }
+        // Function calls are objects; OpenAI doesn't document how they are
+        // tokenized so we just count their JSON representation.
+        if (typeof value !== "string") value = JSON.stringify(value);
         // Break if we get a huge message or exceed the token limit to prevent
         // DoS.
         // 100k tokens allows for future 100k GPT-4 models and 500k characters
@@ -73,8 +86,91 @@ function getTextTokenCount(prompt: string) {
   };
 }
 
+// https://platform.openai.com/docs/guides/vision/calculating-costs
+const IMAGE_BASE_TOKENS = 85;
+const IMAGE_TILE_TOKENS = 170;
+/**
+ * Assumed size of images whose dimensions can't be determined (e.g. remote
+ * URLs), chosen to produce the maximum possible token count.
+ */
+const WORST_CASE_IMAGE_SIZE = { width: 768, height: 2048 };
+
+function getImageTokenCount({
+  url,
+  detail = "auto",
+}: {
+  url: string;
+  detail?: "low" | "high" | "auto";
+}) {
+  if (detail === "low") return IMAGE_BASE_TOKENS;
+
+  // `auto` lets OpenAI pick the detail level; assume `high` to be safe.
+  let { width, height } = getImageDimensions(url) ?? WORST_CASE_IMAGE_SIZE;
+  // Images are scaled to fit within 2048x2048, then scaled down such that the
+  // shortest side is 768px, then divided into 512px tiles.
+  const fitScale = Math.min(1, 2048 / Math.max(width, height));
+  width *= fitScale;
+  height *= fitScale;
+  const shortScale = Math.min(1, 768 / Math.min(width, height));
+  width *= shortScale;
+  height *= shortScale;
+
+  const tiles = Math.ceil(width / 512) * Math.ceil(height / 512);
+  return IMAGE_BASE_TOKENS + tiles * IMAGE_TILE_TOKENS;
+}
+
+/**
+ * Reads the dimensions of a PNG, GIF or JPEG image from a base64 data URL.
+ * Returns null for other formats and for remote URLs, which we don't fetch.
+ */
+function getImageDimensions(url: string) {
+  const match = url.match(/^data:image\/[\w+.-]+;base64,(.*)$/);
+  if (!match) return null;
+  const buf = Buffer.from(match[1], "base64");
+
+  try {
+    if (buf.toString("ascii", 1, 4) === "PNG") {
+      return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+    }
+    if (buf.toString("ascii", 0, 3) === "GIF") {
+      return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+    }
+    if (buf[0] === 0xff && buf[1] === 0xd8) {
+      // Walk the JPEG segments until we find a start-of-frame marker.
+      let offset = 2;
+      while (offset < buf.length) {
+        const marker = buf[offset + 1];
+        const isStartOfFrame =
+          marker >= 0xc0 &&
+          marker <= 0xcf &&
+          ![0xc4, 0xc8, 0xcc].includes(marker);
+        if (isStartOfFrame) {
+          return {
+            height: buf.readUInt16BE(offset + 5),
+            width: buf.readUInt16BE(offset + 7),
+          };
+        }
+        offset += 2 + buf.readUInt16BE(offset + 2);
+      }
+    }
+  } catch (e) {
+    // Truncated or corrupt image; fall through.
+  }
+  return null;
+}
+
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image_url";
+      image_url: { url: string; detail?: "low" | "high" | "auto" };
+    };
+
 export type OpenAIPromptMessage = {
   name?: string;
-  content: string;
+  content: string | OpenAIContentPart[];
   role: string;
+  function_call?: OpenAIToolCall["function"];
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
 };
@@ -3,6 +3,7 @@ import { assertNever } from "../utils";
 import {
   init as initClaude,
   getTokenCount as getClaudeTokenCount,
+  AnthropicChatPrompt,
 } from "./claude";
 import {
   init as initOpenAi,
@@ -20,10 +21,21 @@ export async function init() {
  * be made to the tokenization service, for both prompts and completions */
 type TokenCountRequest = { req: Request } & (
   | { prompt: OpenAIPromptMessage[]; completion?: never; service: "openai" }
+  | {
+      prompt: AnthropicChatPrompt;
+      completion?: never;
+      service: "anthropic-chat";
+    }
   | {
       prompt: string;
       completion?: never;
-      service: "openai-text" | "anthropic" | "google-palm";
+      service:
+        | "openai-text"
+        | "anthropic"
+        | "google-palm"
+        | "google-ai"
+        | "aws-llama2"
+        | "aws-titan";
     }
   | { prompt?: never; completion: string; service: APIFormat }
 );
@@ -43,6 +55,7 @@ export async function countTokens({
   const time = process.hrtime();
   switch (service) {
     case "anthropic":
+    case "anthropic-chat":
       return {
         ...getClaudeTokenCount(prompt ?? completion, req.body.model),
         tokenization_duration_ms: getElapsedMs(time),
@@ -54,8 +67,17 @@ export async function countTokens({
         tokenization_duration_ms: getElapsedMs(time),
       };
     case "google-palm":
-      // TODO: Can't find a tokenization library for PaLM. There is an API
-      // endpoint for it but it adds significant latency to the request.
+    case "google-ai":
+      // TODO: Can't find a tokenization library for PaLM or Gemini. There is
+      // an API endpoint for it but it adds significant latency to the request.
+      return {
+        ...getOpenAITokenCount(prompt ?? completion, req.body.model),
+        tokenization_duration_ms: getElapsedMs(time),
+      };
+    case "aws-llama2":
+    case "aws-titan":
+      // Llama 2 uses a SentencePiece tokenizer and Titan's tokenizer is not
+      // public; tiktoken is close enough for quota and context checks.
       return {
         ...getOpenAITokenCount(prompt ?? completion, req.body.model),
         tokenization_duration_ms: getElapsedMs(time),
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseToolCalls } from "./tool-emulation";
+
+describe("parseToolCalls", () => {
+  it("returns null if the completion has no function calls", () => {
+    assert.equal(parseToolCalls("Just some text."), null);
+    assert.equal(parseToolCalls("<function_calls></function_calls>"), null);
+  });
+
+  it("parses each invocation and the content before them", () => {
+    const completion = [
+      "Let me check.",
+      "<function_calls>",
+      "<invoke>",
+      "<tool_name>get_weather</tool_name>",
+      '<parameters>{"city": "Paris"}</parameters>',
+      "</invoke>",
+      "<invoke>",
+      "<tool_name> get_time </tool_name>",
+      "<parameters>\n{}\n</parameters>",
+      "</invoke>",
+      "</function_calls>",
+    ].join("\n");
+
+    const parsed = parseToolCalls(completion);
+    assert.ok(parsed);
+    assert.equal(parsed.content, "Let me check.");
+    assert.deepEqual(
+      parsed.calls.map((call) => call.function),
+      [
+        { name: "get_weather", arguments: '{"city": "Paris"}' },
+        { name: "get_time", arguments: "{}" },
+      ]
+    );
+    for (const call of parsed.calls) {
+      assert.equal(call.type, "function");
+      assert.match(call.id, /^call_[0-9a-f]{24}$/);
+    }
+  });
+
+  it("parses a completion cut off by the closing stop sequence", () => {
+    const completion =
+      "<function_calls><invoke><tool_name>search</tool_name>" +
+      '<parameters>{"q": "x"}</parameters></invoke>';
+    const parsed = parseToolCalls(completion);
+    assert.equal(parsed?.content, "");
+    assert.equal(parsed?.calls[0].function.name, "search");
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Prompt-based emulation of OpenAI function calling for backends which don't
+ * support it natively (i.e. Claude). Tool definitions are described to the
+ * model in the system prompt, the model is asked to call tools by writing an
+ * XML block, and the block is parsed back out of the completion into OpenAI
+ * `tool_calls`/`function_call` fields.
+ */
+import { v4 } from "uuid";
+
+export type OpenAIFunctionDefinition = {
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>;
+};
+
+export type OpenAIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+/**
+ * Whether the client declared `tools` (current API) or `functions` (legacy
+ * API), which determines the shape of the response.
+ */
+export type ToolEmulationMode = "tools" | "functions";
+
+/**
+ * Claude stops generating once it closes the block, so it doesn't go on to
+ * hallucinate the results of its own tool calls.
+ */
+export const TOOL_CALLS_STOP_SEQUENCE = "</function_calls>";
+
+export function renderToolDefinitions(functions: OpenAIFunctionDefinition[]) {
+  const tools = functions
+    .map((f) =>
+      [
+        "<tool_description>",
+        `<tool_name>${f.name}</tool_name>`,
+        ...(f.description
+          ? [`<description>${f.description}</description>`]
+          : []),
+        `<parameters>${JSON.stringify(f.parameters ?? {})}</parameters>`,
+        "</tool_description>",
+      ].join("\n")
+    )
+    .join("\n");
+
+  return `In this environment you have access to a set of tools you can use to answer the user's question. You may call one or more of them by writing a block like the following as the last part of your reply, with the arguments as a JSON object matching the tool's parameter schema:
+<function_calls>
+<invoke>
+<tool_name>$TOOL_NAME</tool_name>
+<parameters>$JSON_ARGUMENTS</parameters>
+</invoke>
+</function_calls>
+
+The results of the calls will be provided in a <function_results> block in the next message.
+
+Here are the tools available:
+<tools>
+${tools}
+</tools>`;
+}
+
+export function renderToolCalls(calls: OpenAIToolCall["function"][]) {
+  const invocations = calls
+    .map((c) =>
+      [
+        "<invoke>",
+        `<tool_name>${c.name}</tool_name>`,
+        `<parameters>${c.arguments}</parameters>`,
+        "</invoke>",
+      ].join("\n")
+    )
+    .join("\n");
+  return `<function_calls>\n${invocations}\n${TOOL_CALLS_STOP_SEQUENCE}`;
+}
+
+export function renderToolResult(name: string, content: string) {
+  return [
+    "<function_results>",
+    "<result>",
+    `<tool_name>${name}</tool_name>`,
+    `<stdout>${content}</stdout>`,
+    "</result>",
+    "</function_results>",
+  ].join("\n");
+}
+
+/**
+ * Extracts tool calls from a completion. Returns the text preceding the calls
+ * and the calls themselves, or null if the completion doesn't call any tools.
+ */
+export function parseToolCalls(completion: string) {
+  const start = completion.indexOf("<function_calls>");
+  if (start === -1) return null;
+
+  const block = completion.slice(start);
+  const calls: OpenAIToolCall[] = [];
+  const invokeRegex =
+    /<invoke>\s*<tool_name>([\s\S]*?)<\/tool_name>\s*<parameters>([\s\S]*?)<\/parameters>/g;
+  for (const [, name, args] of block.matchAll(invokeRegex)) {
+    calls.push({
+      id: "call_" + v4().replace(/-/g, "").slice(0, 24),
+      type: "function",
+      function: { name: name.trim(), arguments: args.trim() },
+    });
+  }
+  if (!calls.length) return null;
+
+  return { content: completion.slice(0, start).trim(), calls };
+}
+
+/**
+ * Moves emulated tool calls out of the message content of each choice in an
+ * OpenAI-format chat completion and into `tool_calls` or `function_call`,
+ * depending on which API the client used.
+ */
+export function extractEmulatedToolCalls(
+  completion: Record<string, any>,
+  mode: ToolEmulationMode
+) {
+  for (const choice of completion.choices ?? []) {
+    const parsed = parseToolCalls(choice.message?.content ?? "");
+    if (!parsed) continue;
+
+    choice.message.content = parsed.content || null;
+    if (mode === "tools") {
+      choice.message.tool_calls = parsed.calls;
+      choice.finish_reason = "tool_calls";
+    } else {
+      // The legacy API only allows a single call per message.
+      choice.message.function_call = parsed.calls[0].function;
+      choice.finish_reason = "function_call";
+    }
+  }
+  return completion;
+}
@@ -8,7 +8,14 @@ export const tokenCountsSchema: ZodType<UserTokenCounts> = z.object({
   "gpt4-32k": z.number().optional().default(0),
   claude: z.number().optional().default(0),
   bison: z.number().optional().default(0),
+  "gemini-pro": z.number().optional().default(0),
   "aws-claude": z.number().optional().default(0),
+  "aws-llama2": z.number().optional().default(0),
+  "aws-titan": z.number().optional().default(0),
+  "azure-turbo": z.number().optional().default(0),
+  "azure-gpt4": z.number().optional().default(0),
+  "azure-gpt4-32k": z.number().optional().default(0),
+  "openai-compatible": z.number().optional().default(0),
 });
 
 export const UserSchema = z
@@ -49,6 +56,18 @@ export const UserSchema = z
     expiresAt: z.number().optional(),
     /** The user's maximum number of IP addresses; supercedes global max. */
     maxIps: z.coerce.number().int().min(0).optional(),
+    /**
+     * The user's maximum number of queued or in-progress requests; supercedes
+     * the default for their type.
+     */
+    maxConcurrentRequests: z.coerce.number().int().min(1).optional(),
+    /**
+     * The user's priority class in the request queue; supercedes the class
+     * given by their `type`. Higher classes leave the queue first.
+     */
+    priority: z
+      .enum(["special", "normal", "temporary", "anonymous"])
+      .optional(),
     /** Private note about the user. */
     adminNote: z.string().optional(),
   })
@@ -11,7 +11,13 @@ import admin from "firebase-admin";
 import schedule from "node-schedule";
 import { v4 as uuid } from "uuid";
 import { config, getFirebaseApp } from "../../config";
-import { MODEL_FAMILIES, ModelFamily } from "../models";
+import {
+  getAwsBedrockModelFamily,
+  getAzureOpenAIModelFamily,
+  MODEL_FAMILIES,
+  ModelFamily,
+} from "../models";
+import { OPENAI_COMPATIBLE_MODEL_PREFIX } from "../key-management/openai-compatible/provider";
 import { logger } from "../../logger";
 import { User, UserTokenCounts, UserUpdate } from "./schema";
 
@@ -23,7 +29,14 @@ const INITIAL_TOKENS: Required<UserTokenCounts> = {
   "gpt4-32k": 0,
   claude: 0,
   bison: 0,
+  "gemini-pro": 0,
   "aws-claude": 0,
+  "aws-llama2": 0,
+  "aws-titan": 0,
+  "azure-turbo": 0,
+  "azure-gpt4": 0,
+  "azure-gpt4-32k": 0,
+  "openai-compatible": 0,
 };
 
 const users: Map<string, User> = new Map();
@@ -251,6 +264,14 @@ export function disableUser(token: string, reason?: string) {
   usersToFlush.add(token);
 }
 
+/** Writes any unsaved changes to the persistent store, e.g. before exiting. */
+export async function flush() {
+  if (!firebaseTimeout) return;
+  clearInterval(firebaseTimeout);
+  firebaseTimeout = undefined;
+  await flushUsers();
+}
+
 export function getNextQuotaRefresh() {
   if (!quotaRefreshJob) return "never (manual refresh only)";
   return quotaRefreshJob.nextInvocation().getTime();
@@ -351,6 +372,12 @@ async function flushUsers() {
 
 // TODO: use key-management/models.ts for family mapping
 function getModelFamilyForQuotaUsage(model: string): ModelFamily {
+  if (model.startsWith("azure-")) {
+    return getAzureOpenAIModelFamily(model);
+  }
+  if (model.startsWith(OPENAI_COMPATIBLE_MODEL_PREFIX)) {
+    return "openai-compatible";
+  }
   if (model.includes("32k")) {
     return "gpt4-32k";
   }
@@ -363,11 +390,18 @@ function getModelFamilyForQuotaUsage(model: string): ModelFamily {
   if (model.includes("bison")) {
     return "bison";
   }
+  if (model.startsWith("gemini")) {
+    return "gemini-pro";
+  }
   if (model.startsWith("claude")) {
     return "claude";
   }
-  if(model.startsWith("anthropic.claude")) {
-    return "aws-claude";
+  if (
+    model.startsWith("anthropic.claude") ||
+    model.startsWith("meta.llama2") ||
+    model.startsWith("amazon.titan")
+  ) {
+    return getAwsBedrockModelFamily(model);
   }
   throw new Error(`Unknown quota model family for model ${model}`);
 }
@@ -2,6 +2,8 @@ import type { HttpRequest } from "@smithy/types";
 import { Express } from "express-serve-static-core";
 import { APIFormat, Key, LLMService } from "../shared/key-management";
 import { User } from "../shared/users/schema";
+import { ToolEmulationMode } from "../shared/tool-emulation";
+import { FanOut } from "../proxy/middleware/fan-out";
 
 declare global {
   namespace Express {
@@ -16,9 +18,62 @@ declare global {
       risuToken?: string;
       user?: User;
       isStreaming?: boolean;
+      /**
+       * Set when the client asked for a streaming response from an API which
+       * can't stream, so the proxy must replay the completion as SSE events.
+       */
+      emulateStreaming?: boolean;
+      /**
+       * Set when OpenAI function calling is emulated via the prompt, in which
+       * case tool calls must be parsed out of the completion.
+       */
+      toolEmulation?: ToolEmulationMode;
+      /**
+       * Set when the client requested multiple completions from an API which
+       * can only return one, so the request must be sent once per choice.
+       */
+      fanOut?: FanOut;
+      /**
+       * Stop sequences which the upstream API couldn't accept, so the proxy
+       * must truncate the completion at them itself.
+       */
+      emulatedStops?: string[];
+      /**
+       * The request body as sent by the client, kept when failover or routing
+       * to other services is enabled so the request can be transformed again
+       * for another service.
+       */
+      inboundBody?: Record<string, any>;
+      /**
+       * Set by the model routing table when the request should be sent to
+       * another service's endpoint instead of the one which received it.
+       */
+      serviceRoute?: { service: LLMService; model: string };
+      /**
+       * Set once the request has been sent on to another service, either by
+       * the model routing table or by failover.
+       */
+      rerouted?: boolean;
+      /** Set when the request missed the response cache and can populate it. */
+      cacheKey?: string;
+      /**
+       * Streamed completion in the client's format, cached once its tokens
+       * have been counted.
+       */
+      streamedCacheBody?: Record<string, any>;
       startTime: number;
       retryCount: number;
       queueOutTime?: number;
+      /**
+       * How long the request may wait in the queue before it is killed, in
+       * milliseconds, if different from the default.
+       */
+      maxQueueTime?: number;
+      /**
+       * Set for requests submitted as part of a batch, which only leave the
+       * queue when no interactive requests are waiting.
+       */
+      isBatchRequest?: boolean;
       onAborted?: () => void;
       proceed: () => void;
       heartbeatInterval?: NodeJS.Timeout;